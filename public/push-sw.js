@@ -0,0 +1,30 @@
+// Imported by the generated service worker (see workbox.importScripts in vite.config.ts)
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Browsers penalise pushes that show nothing; the focused app already shows it in-app, so stay quiet
+      return self.registration.showNotification(data.title || 'GlowSchedule', {
+        body: data.body,
+        tag: data.tag,
+        silent: windows.some((client) => client.focused),
+        icon: 'https://picsum.photos/seed/salon-icon-192/192/192',
+        data: { url: data.url || '/' },
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,18 +1,70 @@
-import express from "express";
+import "dotenv/config";
+import express, { Request } from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
+import { availabilityRouter } from "./server/routes/availability";
+import { appointmentsRouter } from "./server/routes/appointments";
+import { waitlistRouter } from "./server/routes/waitlist";
+import { seriesRouter } from "./server/routes/series";
+import { reliabilityRouter } from "./server/routes/reliability";
+import { pushRouter } from "./server/routes/push";
+import { adminRouter } from "./server/routes/admin";
+import { paymentsRouter } from "./server/routes/payments";
+import { billingRouter } from "./server/routes/billing";
+import { salesRouter } from "./server/routes/sales";
+import { startWaitlistWatcher } from "./server/waitlist";
+import { startConfirmationScheduler } from "./server/confirmation";
+import { startReminderScheduler } from "./server/reminders";
+import { startNoticeWatcher } from "./server/notices";
+import { startPaymentSweeper } from "./server/payments";
+import { startRefundSweeper } from "./server/refunds";
+import { startSubscriptionEnforcer } from "./server/billing";
+import { registerChannel } from "./server/channels";
+import { pushChannel } from "./server/push";
+import { emailChannel } from "./server/email";
+import { messagingChannel } from "./server/messaging";
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json());
+  // Payment webhooks are signed over the exact bytes received
+  app.use(express.json({
+    verify: (req, res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  }));
 
   // API Routes
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", message: "GlowSchedule API is running" });
   });
 
+  app.use("/api", availabilityRouter);
+  app.use("/api", appointmentsRouter);
+  app.use("/api", waitlistRouter);
+  app.use("/api", seriesRouter);
+  app.use("/api", reliabilityRouter);
+  app.use("/api", pushRouter);
+  app.use("/api", adminRouter);
+  app.use("/api", paymentsRouter);
+  app.use("/api", billingRouter);
+  app.use("/api", salesRouter);
+
+  // Channels beyond the in-app one, in the order deliveries are recorded
+  registerChannel(pushChannel);
+  registerChannel(emailChannel);
+  registerChannel(messagingChannel("whatsapp"));
+  registerChannel(messagingChannel("sms"));
+
+  startWaitlistWatcher();
+  startConfirmationScheduler();
+  startReminderScheduler();
+  startNoticeWatcher();
+  startPaymentSweeper();
+  startRefundSweeper();
+  startSubscriptionEnforcer();
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from './supabase';
+
+// Resolves the Supabase user from the bearer token sent by src/lib/api.ts
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (!token) return res.status(401).json({ error: 'Usuário não autenticado' });
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return res.status(401).json({ error: 'Sessão inválida ou expirada' });
+
+  res.locals.user = data.user;
+  next();
+}
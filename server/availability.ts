@@ -0,0 +1,135 @@
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { AvailabilityRequest, dayStart } from '../src/lib/availability';
+import { resolveWorkingIntervals } from '../src/lib/schedule';
+import { normalizeOpeningHours } from '../src/lib/openingHours';
+import { policyOf } from '../src/lib/policy';
+
+interface AvailabilityParams {
+  salonId: string;
+  serviceIds: string[]; // more than one for a multi-service visit, in the order performed
+  professionalId?: string | null;
+  date: string;
+  utcOffset: number;
+  excludeAppointmentIds?: string[]; // bookings being moved do not block their new time
+  clientId?: string | null; // slots held for this client's waitlist offers stay bookable for them
+  ignoreHorizon?: boolean; // later occurrences of a series may fall after the booking horizon
+}
+
+// Loads everything the availability engine needs for one salon, visit and day
+export async function loadAvailabilityRequest({ salonId, serviceIds, professionalId, date, utcOffset, excludeAppointmentIds = [], clientId, ignoreHorizon }: AvailabilityParams) {
+  const { data: salon } = await supabaseAdmin
+    .from('salons')
+    .select('id, owner_id, opening_hours, assignment_strategy, slot_interval, buffer_before, buffer_after, cancel_notice_hours, min_lead_minutes, booking_horizon_days, no_show_limit, no_show_action, late_cancel_hours, auto_confirm, pending_expiry_hours, is_active')
+    .eq('id', salonId)
+    .single();
+  if (!salon) throw new HttpError(404, 'Salão não encontrado');
+
+  const { data: rows, error: servicesError } = await supabaseAdmin
+    .from('services')
+    .select('id, name, category, duration, price, prepayment_type, deposit_percent')
+    .in('id', serviceIds)
+    .eq('salon_id', salonId);
+  if (servicesError) throw servicesError;
+  const services = serviceIds
+    .map(id => (rows || []).find(row => row.id === id))
+    .filter((service): service is NonNullable<typeof service> => !!service);
+  if (services.length === 0 || services.length !== serviceIds.length) throw new HttpError(404, 'Serviço não encontrado');
+  const durations = services.map(service => service.duration as number);
+
+  const { data: specialDate, error: specialDateError } = await supabaseAdmin
+    .from('salon_special_dates')
+    .select('*')
+    .eq('salon_id', salonId)
+    .eq('date', date)
+    .maybeSingle();
+  if (specialDateError) throw specialDateError;
+
+  const { data: professionals, error: professionalsError } = await supabaseAdmin
+    .from('professionals')
+    .select('id, specialty, schedule')
+    .eq('salon_id', salonId)
+    .eq('is_active', true);
+  if (professionalsError) throw professionalsError;
+
+  const professionalIds = (professionals || []).map(p => p.id);
+  const { data: exceptions, error: exceptionsError } = await supabaseAdmin
+    .from('professional_exceptions')
+    .select('*')
+    .in('professional_id', professionalIds)
+    .lte('start_date', date)
+    .gte('end_date', date);
+  if (exceptionsError) throw exceptionsError;
+
+  const workingHours = Object.fromEntries((professionals || []).map(p => [
+    p.id,
+    resolveWorkingIntervals(p.schedule, (exceptions || []).filter(ex => ex.professional_id === p.id), date),
+  ]));
+
+  // Look one day back and forward so late bookings spilling into this day are counted
+  const base = dayStart(date, utcOffset);
+  const { data: appointments, error: appointmentsError } = await supabaseAdmin
+    .from('appointments')
+    .select('id, start_time, professional_id, services(duration)')
+    .eq('salon_id', salonId)
+    .neq('status', 'cancelled')
+    .gte('start_time', new Date(base - 86400000).toISOString())
+    .lt('start_time', new Date(base + 2 * 86400000).toISOString());
+  if (appointmentsError) throw appointmentsError;
+
+  // Open waitlist offers hold their slot until claimed or expired
+  const { data: offers, error: offersError } = await supabaseAdmin
+    .from('waitlist_entries')
+    .select('client_id, offered_start_time, offered_professional_id, services(duration)')
+    .eq('salon_id', salonId)
+    .eq('status', 'offered')
+    .gt('offer_expires_at', new Date().toISOString())
+    .gte('offered_start_time', new Date(base - 86400000).toISOString())
+    .lt('offered_start_time', new Date(base + 2 * 86400000).toISOString());
+  if (offersError) throw offersError;
+  const holds = (offers || [])
+    .filter(offer => offer.client_id !== clientId)
+    .map((offer: any) => ({
+      start_time: offer.offered_start_time,
+      duration: offer.services?.duration || 60,
+      professional_id: offer.offered_professional_id,
+    }));
+
+  const policy = policyOf(salon);
+  const request: AvailabilityRequest = {
+    date,
+    utcOffset,
+    duration: durations.reduce((acc, d) => acc + d, 0),
+    durations: durations.length > 1 ? durations : undefined,
+    slotInterval: salon.slot_interval,
+    bufferBefore: salon.buffer_before,
+    bufferAfter: salon.buffer_after,
+    openingHours: normalizeOpeningHours(salon.opening_hours),
+    specialDate,
+    professionalIds,
+    professionalId: professionalId || null,
+    workingHours,
+    appointments: [
+      ...(appointments || []).filter(apt => !excludeAppointmentIds.includes(apt.id)).map((apt: any) => ({
+        start_time: apt.start_time,
+        duration: apt.services?.duration || 60,
+        professional_id: apt.professional_id,
+      })),
+      ...holds,
+    ],
+    minLeadMinutes: policy.minLeadMinutes,
+    bookingHorizonDays: ignoreHorizon ? undefined : policy.bookingHorizonDays,
+  };
+
+  return { salon, services, professionals: professionals || [], policy, request };
+}
+
+// Accepts "a,b" in query strings and arrays in JSON bodies
+export function parseIdList(value: unknown): string[] {
+  const ids = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return ids.map(id => String(id).trim()).filter(Boolean);
+}
+
+// The salon's time zone in minutes, same sign as getTimezoneOffset (Brasília by default). Always the
+// server's: an offset sent by the browser could move a booking past opening hours or the lead time.
+export const SALON_UTC_OFFSET = Number(process.env.SALON_UTC_OFFSET ?? 180);
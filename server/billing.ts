@@ -0,0 +1,262 @@
+import Stripe from 'stripe';
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { stripeClient } from './stripe';
+import { sendEmail } from './email';
+import { subscriptionPastDueEmail, subscriptionSuspendedEmail } from './emailTemplates';
+import { PLANS, PlanId, SalonSubscription, SubscriptionStatus, accessEndsAt, hasAccess } from '../src/lib/billing';
+import { Profile } from '../src/types';
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// Built per call: Stripe refuses a client without a key, and billing is simply off until one is set
+function billingStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) throw new HttpError(503, 'Assinaturas indisponíveis no momento', 'billing_not_configured');
+  return stripeClient();
+}
+
+// Monthly Stripe price of each plan
+function stripePrice(plan: PlanId) {
+  return plan === 'essencial' ? process.env.STRIPE_PRICE_ESSENCIAL : process.env.STRIPE_PRICE_PROFISSIONAL;
+}
+
+export async function loadSubscription(salonId: string) {
+  const { data, error } = await supabaseAdmin.from('salon_subscriptions').select('*').eq('salon_id', salonId).maybeSingle();
+  if (error) throw error;
+  return data as SalonSubscription | null;
+}
+
+interface SalonOwnerRow {
+  id: string;
+  name: string;
+  is_active: boolean;
+  billing_suspended_at: string | null;
+  profiles: Pick<Profile, 'full_name' | 'email'> | null; // the owner
+}
+
+async function salonOwner(salonId: string) {
+  const { data } = await supabaseAdmin
+    .from('salons')
+    .select('id, name, is_active, billing_suspended_at, profiles(full_name, email)')
+    .eq('id', salonId)
+    .single<SalonOwnerRow>();
+  return data;
+}
+
+async function ensureCustomer(salonId: string, subscription: SalonSubscription | null) {
+  if (subscription?.stripe_customer_id) return subscription.stripe_customer_id;
+  const salon = await salonOwner(salonId);
+  const owner = salon?.profiles;
+  const customer = await billingStripe().customers.create({
+    name: salon?.name,
+    email: owner?.email,
+    metadata: { salon_id: salonId },
+  });
+  const { error } = await supabaseAdmin
+    .from('salon_subscriptions')
+    .upsert({ salon_id: salonId, stripe_customer_id: customer.id, updated_at: new Date().toISOString() });
+  if (error) throw error;
+  return customer.id;
+}
+
+// Hosted Checkout for a new subscription; whatever is left of the trial carries over
+export async function createSubscriptionCheckout(salonId: string, plan: PlanId) {
+  if (!PLANS[plan]) throw new HttpError(400, 'Plano inválido');
+  const stripe = billingStripe();
+  const price = stripePrice(plan);
+  if (!price) throw new HttpError(503, 'Assinaturas indisponíveis no momento', 'billing_not_configured');
+  const subscription = await loadSubscription(salonId);
+  if (subscription?.stripe_subscription_id && ['active', 'trialing', 'past_due'].includes(subscription.status)) {
+    throw new HttpError(409, 'O salão já tem uma assinatura; altere o plano em "Gerenciar assinatura"', 'already_subscribed');
+  }
+
+  const customer = await ensureCustomer(salonId, subscription);
+  const trialEnd = subscription?.trial_ends_at ? Math.floor(Date.parse(subscription.trial_ends_at) / 1000) : 0;
+  // Stripe wants a trial to end at least 48 hours from now
+  const keepsTrial = trialEnd > Date.now() / 1000 + 48 * 3600;
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer,
+    line_items: [{ price, quantity: 1 }],
+    subscription_data: {
+      metadata: { salon_id: salonId, plan },
+      ...(keepsTrial ? { trial_end: trialEnd } : {}),
+    },
+    metadata: { salon_id: salonId, plan },
+    success_url: `${APP_URL}/?billing=success`,
+    cancel_url: `${APP_URL}/?billing=cancelled`,
+  });
+  return { url: session.url || '' };
+}
+
+// Stripe Customer Portal: change plan, update the card, cancel
+export async function createPortalSession(salonId: string) {
+  const subscription = await loadSubscription(salonId);
+  if (!subscription?.stripe_customer_id) throw new HttpError(409, 'O salão ainda não tem uma assinatura', 'not_subscribed');
+  const session = await billingStripe().billingPortal.sessions.create({
+    customer: subscription.stripe_customer_id,
+    return_url: `${APP_URL}/?billing=portal`,
+  });
+  return { url: session.url };
+}
+
+const STATUS_MAP: Record<Stripe.Subscription.Status, SubscriptionStatus> = {
+  trialing: 'trialing',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'unpaid',
+  canceled: 'canceled',
+  incomplete: 'incomplete',
+  incomplete_expired: 'canceled',
+  paused: 'unpaid',
+};
+
+const toIso = (seconds?: number | null) => seconds ? new Date(seconds * 1000).toISOString() : null;
+
+// Mirrors the subscription as Stripe has it now, so retried or out-of-order events settle on the same state
+export async function syncSubscription(subscriptionId: string) {
+  const remote = await billingStripe().subscriptions.retrieve(subscriptionId);
+  const salonId = remote.metadata.salon_id;
+  if (!salonId) return;
+
+  const previous = await loadSubscription(salonId);
+  // A salon has one subscription; events about an older, replaced one are ignored
+  if (previous?.stripe_subscription_id && previous.stripe_subscription_id !== remote.id && remote.status === 'canceled') return;
+
+  const status = STATUS_MAP[remote.status];
+  const item = remote.items.data[0];
+  // Plan changes made in the portal only show up as a new price
+  const plan = (Object.keys(PLANS) as PlanId[]).find(id => stripePrice(id) === item?.price.id)
+    || (remote.metadata.plan as PlanId | undefined) || null;
+  const overdue = status === 'past_due' || status === 'unpaid';
+
+  const next: SalonSubscription = {
+    salon_id: salonId,
+    plan,
+    status,
+    trial_ends_at: toIso(remote.trial_end) || previous?.trial_ends_at || null,
+    current_period_end: toIso(item?.current_period_end),
+    past_due_since: overdue ? previous?.past_due_since || new Date().toISOString() : null,
+    cancel_at_period_end: remote.cancel_at_period_end,
+    stripe_customer_id: typeof remote.customer === 'string' ? remote.customer : remote.customer.id,
+    stripe_subscription_id: remote.id,
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await supabaseAdmin.from('salon_subscriptions').upsert(next);
+  if (error) throw error;
+
+  if (overdue && !previous?.past_due_since) {
+    const salon = await salonOwner(salonId);
+    const owner = salon?.profiles;
+    if (owner?.email) {
+      await sendEmail({ to: owner.email, ...subscriptionPastDueEmail(owner.full_name || 'parceiro', salon!.name, accessEndsAt(next)!) })
+        .catch(error => console.error('Error sending past due email:', error));
+    }
+  }
+  await enforceAccess(next);
+}
+
+export function parseBillingWebhook(rawBody: Buffer, signature: string | undefined) {
+  const stripe = billingStripe();
+  try {
+    return stripe.webhooks.constructEvent(
+      rawBody,
+      signature || '',
+      process.env.STRIPE_BILLING_WEBHOOK_SECRET || process.env.STRIPE_WEBHOOK_SECRET || ''
+    );
+  } catch (error: any) {
+    throw new HttpError(400, `Assinatura do webhook inválida: ${error.message}`);
+  }
+}
+
+export async function handleBillingEvent(event: Stripe.Event) {
+  // Stripe delivers at least once; the first delivery of an event wins
+  const { error: seenError } = await supabaseAdmin.from('billing_events').insert({ id: event.id, type: event.type });
+  if (seenError?.code === '23505') return;
+  if (seenError) throw seenError;
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        if (session.mode === 'subscription' && session.subscription) {
+          await syncSubscription(typeof session.subscription === 'string' ? session.subscription : session.subscription.id);
+        }
+        break;
+      }
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await syncSubscription((event.data.object as Stripe.Subscription).id);
+        break;
+      case 'invoice.paid':
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        const subscription = invoice.parent?.subscription_details?.subscription;
+        if (subscription) await syncSubscription(typeof subscription === 'string' ? subscription : subscription.id);
+        break;
+      }
+    }
+  } catch (error) {
+    // Let Stripe retry an event we could not apply
+    await supabaseAdmin.from('billing_events').delete().eq('id', event.id);
+    throw error;
+  }
+}
+
+// Deactivates salons whose access ran out and reactivates the ones billing suspended once they pay.
+// Salons switched off by the platform team stay off.
+async function enforceAccess(subscription: SalonSubscription, now = new Date()) {
+  const salon = await salonOwner(subscription.salon_id);
+  if (!salon) return;
+
+  if (hasAccess(subscription, now)) {
+    if (!salon.is_active && salon.billing_suspended_at) {
+      const { error } = await supabaseAdmin
+        .from('salons')
+        .update({ is_active: true, billing_suspended_at: null })
+        .eq('id', salon.id);
+      if (error) throw error;
+    }
+    return;
+  }
+
+  if (salon.is_active) {
+    const { error } = await supabaseAdmin
+      .from('salons')
+      .update({ is_active: false, billing_suspended_at: now.toISOString() })
+      .eq('id', salon.id);
+    if (error) throw error;
+    const owner = salon.profiles;
+    if (owner?.email) {
+      await sendEmail({ to: owner.email, ...subscriptionSuspendedEmail(owner.full_name || 'parceiro', salon.name) })
+        .catch(error => console.error('Error sending suspension email:', error));
+    }
+  }
+}
+
+// Trials and grace periods end on their own, without a webhook
+export async function enforceSubscriptions(now = new Date()) {
+  const { data, error } = await supabaseAdmin
+    .from('salon_subscriptions')
+    .select('*, salons!inner(is_active, billing_suspended_at)')
+    .neq('status', 'active')
+    .overrideTypes<(SalonSubscription & { salons: Pick<SalonOwnerRow, 'is_active' | 'billing_suspended_at'> })[], { merge: false }>();
+  if (error) throw error;
+
+  for (const subscription of data || []) {
+    const expired = !hasAccess(subscription, now);
+    const salon = subscription.salons;
+    if ((expired && salon.is_active) || (!expired && !salon.is_active && salon.billing_suspended_at)) {
+      await enforceAccess(subscription, now);
+    }
+  }
+}
+
+export function startSubscriptionEnforcer() {
+  const run = () => enforceSubscriptions().catch(error => console.error('Error enforcing subscriptions:', error));
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { loadAvailabilityRequest } from './availability';
+import { AvailabilityRequest, ProfessionalPicker, SlotCheck, SlotUnavailableReason, checkSlot, computeAvailability, dayStart, toLocal } from '../src/lib/availability';
+import { pickProfessional } from '../src/lib/assignment';
+import { BookingPolicy, policyMessage } from '../src/lib/policy';
+import { reliabilityFlag } from './reliability';
+import { isReturningClient } from './confirmation';
+import { confirmationRulesOf, shouldAutoConfirm } from '../src/lib/confirmation';
+import { prepaymentFor } from '../src/lib/payments';
+
+const MAX_ALTERNATIVES = 6;
+
+// Builds the 409 returned when the requested slot is taken, with the nearest free slots of that day
+export function slotConflict(request: AvailabilityRequest, minutes: number, message: string) {
+  const alternatives = computeAvailability(request)
+    .filter(slot => slot.available)
+    .sort((a, b) => {
+      const distance = (time: string) => {
+        const [h, m] = time.split(':').map(Number);
+        return Math.abs(h * 60 + m - minutes);
+      };
+      return distance(a.time) - distance(b.time);
+    })
+    .slice(0, MAX_ALTERNATIVES)
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  return new HttpError(409, message, 'slot_conflict', { alternatives });
+}
+
+// Picks who performs each step of "Qualquer Profissional" bookings using the salon's strategy
+export async function buildPicker(
+  salon: { id: string; assignment_strategy?: any },
+  services: { name: string; category?: string | null }[],
+  professionals: { id: string; specialty?: string | null }[],
+  request: AvailabilityRequest
+): Promise<ProfessionalPicker> {
+  const base = dayStart(request.date, request.utcOffset);
+  const load = (id: string) => request.appointments
+    .filter(apt => apt.professional_id === id)
+    .filter(apt => {
+      const start = Date.parse(apt.start_time);
+      return start >= base && start < base + 86400000;
+    })
+    .reduce((acc, apt) => acc + apt.duration, 0);
+
+  const lastAssigned: Record<string, string> = {};
+  if (salon.assignment_strategy === 'round_robin' && professionals.length > 0) {
+    const { data } = await supabaseAdmin
+      .from('appointments')
+      .select('professional_id, created_at')
+      .eq('salon_id', salon.id)
+      .in('professional_id', professionals.map(p => p.id))
+      .order('created_at', { ascending: false })
+      .limit(200);
+    (data || []).forEach(row => {
+      if (!lastAssigned[row.professional_id]) lastAssigned[row.professional_id] = row.created_at;
+    });
+  }
+
+  return (step, freeIds, previous) => {
+    // Later services of the same visit stay with the same professional when possible
+    if (previous && freeIds.includes(previous)) return previous;
+    const candidates = professionals
+      .filter(p => freeIds.includes(p.id))
+      .map(p => ({ id: p.id, specialty: p.specialty, load: load(p.id), last_assigned_at: lastAssigned[p.id] || null }));
+    return pickProfessional(salon.assignment_strategy, candidates, services[step]);
+  };
+}
+
+// Salons switched off by the platform, for instance after their subscription lapsed
+export function salonInactive() {
+  return new HttpError(403, 'Este estabelecimento não está recebendo agendamentos no momento.', 'salon_inactive');
+}
+
+export function unavailableMessage(reason: SlotUnavailableReason | undefined, policy: BookingPolicy) {
+  return policyMessage(reason, policy) || (reason === 'busy'
+    ? 'Este horário não está mais disponível.'
+    : reason === 'past'
+      ? 'Não é possível agendar em um horário que já passou.'
+      : reason === 'off'
+        ? 'O profissional não atende neste horário.'
+        : 'O estabelecimento não atende neste horário.');
+}
+
+// Owners stepping outside the hours get the requested start with services back to back
+export function planSteps(check: SlotCheck, durations: number[], minutes: number, professionalId: string | null) {
+  if (check.available) return check.steps;
+  let offset = 0;
+  return durations.map(duration => {
+    const step = { start: minutes + offset, end: minutes + offset + duration, professional_id: professionalId };
+    offset += duration;
+    return step;
+  });
+}
+
+interface BookVisitParams {
+  userId: string; // who is making the request
+  salonId: string;
+  serviceIds: string[];
+  professionalId?: string | null;
+  start: Date;
+  utcOffset: number;
+  clientId?: string | null; // owners book on behalf of this client
+  notes?: string;
+  seriesId?: string | null; // occurrence of a recurring series
+  ignoreHorizon?: boolean;
+}
+
+// Validates the slot and inserts one appointment per service, linked by group_id when there are several
+export async function bookVisit({ userId, salonId, serviceIds, professionalId, start, utcOffset, clientId, notes, seriesId, ignoreHorizon }: BookVisitParams) {
+  const { date, minutes } = toLocal(start, utcOffset);
+  const forClient = clientId || userId;
+  const { salon, services, professionals, policy, request } = await loadAvailabilityRequest({
+    salonId,
+    serviceIds,
+    professionalId,
+    date,
+    utcOffset,
+    clientId: forClient,
+    ignoreHorizon,
+  });
+
+  if (salon.is_active === false) throw salonInactive();
+
+  // Salon owners book on behalf of clients and may step outside opening hours, never over another booking
+  const isOwner = salon.owner_id === userId;
+  if (forClient !== userId && !isOwner) throw new HttpError(403, 'Sem permissão para agendar para outro cliente');
+  // Clients above the salon's no-show limit are blocked or flagged; owners booking for them are not
+  const flag = isOwner ? null : await reliabilityFlag(salon, forClient);
+
+  const pick = await buildPicker(salon, services, professionals, request);
+  const check = checkSlot(request, minutes, pick);
+  if (!check.available && (!isOwner || check.reason === 'busy')) {
+    throw slotConflict(request, minutes, unavailableMessage(check.reason, policy));
+  }
+
+  const steps = planSteps(check, services.map(service => service.duration), minutes, professionalId || null);
+  const base = dayStart(request.date, request.utcOffset);
+  const groupId = services.length > 1 ? randomUUID() : null;
+
+  // Visits with something to pay online stay pending until the payment succeeds
+  const prepayment = isOwner ? null : prepaymentFor(services, flag === 'require_prepayment');
+
+  // Salons may confirm client requests on the spot instead of waiting for the scheduler
+  const rules = confirmationRulesOf(salon);
+  const confirmed = isOwner || (!prepayment && shouldAutoConfirm(rules, {
+    returning: rules.autoConfirm === 'returning' && await isReturningClient(salonId, forClient),
+    reliability_flag: flag,
+  }));
+
+  const { data, error } = await supabaseAdmin
+    .from('appointments')
+    .insert(services.map((service, i) => ({
+      client_id: forClient,
+      salon_id: salonId,
+      service_id: service.id,
+      professional_id: steps[i].professional_id,
+      start_time: new Date(base + steps[i].start * 60000).toISOString(),
+      end_time: new Date(base + steps[i].end * 60000).toISOString(),
+      status: confirmed ? 'confirmed' : 'pending',
+      notes: notes || '',
+      group_id: groupId,
+      series_id: seriesId || null,
+      reliability_flag: flag,
+      prepayment_status: prepayment ? 'awaiting' : null,
+    })))
+    .select('*, professionals(name)')
+    .order('start_time', { ascending: true });
+
+  // 23P01: the exclusion constraint caught a concurrent booking for the same professional
+  if (error?.code === '23P01') {
+    throw slotConflict(request, minutes, 'Este horário acabou de ser reservado por outra pessoa.');
+  }
+  if (error) throw error;
+
+  return { groupId, appointments: data || [], prepayment };
+}
@@ -0,0 +1,92 @@
+import { supabaseAdmin } from './supabase';
+import { SALON_UTC_OFFSET } from './availability';
+import { DeliveryKind, ReminderAudience } from '../src/lib/reminders';
+
+// Deliveries are worded in the salon's local time
+export const UTC_OFFSET = SALON_UTC_OFFSET;
+
+export interface ChannelMessage {
+  deliveryId: string;
+  recipientId: string;
+  appointmentId: string;
+  kind: DeliveryKind;
+  audience: ReminderAudience;
+  title: string;
+  body: string;
+  startTime: string;
+}
+
+// A way of reaching a user. Channels that depend on user settings say so through enabledFor,
+// and those that only suit some deliveries (no email every 90 seconds) through accepts
+export interface NotificationChannel {
+  name: string;
+  enabledFor?(recipientId: string): Promise<boolean>;
+  accepts?(kind: DeliveryKind, audience: ReminderAudience): boolean;
+  send(message: ChannelMessage): Promise<void>;
+}
+
+// Thrown by a channel when the delivery can never go out (e.g. the user opted out); it is not retried
+export class DeliverySkipped extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliverySkipped';
+  }
+}
+
+const channels = new Map<string, NotificationChannel>();
+
+export function registerChannel(channel: NotificationChannel) {
+  channels.set(channel.name, channel);
+}
+
+export function getChannel(name: string) {
+  return channels.get(name);
+}
+
+export function acceptedBy(channel: NotificationChannel, kind: DeliveryKind, audience: ReminderAudience) {
+  return !channel.accepts || channel.accepts(kind, audience);
+}
+
+export async function channelsFor(recipientId: string) {
+  const enabled: NotificationChannel[] = [];
+  for (const channel of channels.values()) {
+    if (!channel.enabledFor || await channel.enabledFor(recipientId)) enabled.push(channel);
+  }
+  return enabled;
+}
+
+const NOTIFICATION_TYPES: Partial<Record<DeliveryKind, 'success' | 'warning'>> = {
+  confirmed: 'success',
+  cancelled: 'warning',
+  urgent: 'warning',
+  expired: 'warning',
+};
+
+// Writes the delivery to the user's inbox; open apps pick it up over realtime
+registerChannel({
+  name: 'in_app',
+  async send(message) {
+    // Urgent reminders repeat, but the inbox keeps only the latest one per appointment
+    if (message.kind === 'urgent') {
+      await supabaseAdmin
+        .from('notifications')
+        .update({ archived_at: new Date().toISOString() })
+        .eq('user_id', message.recipientId)
+        .eq('appointment_id', message.appointmentId)
+        .eq('kind', 'urgent')
+        .is('archived_at', null);
+    }
+    const { error } = await supabaseAdmin
+      .from('notifications')
+      .upsert({
+        user_id: message.recipientId,
+        title: message.title,
+        message: message.body,
+        type: NOTIFICATION_TYPES[message.kind] || 'info',
+        kind: message.kind,
+        appointment_id: message.appointmentId,
+        delivery_id: message.deliveryId,
+      }, { onConflict: 'delivery_id', ignoreDuplicates: true });
+    if (error) throw error;
+  },
+});
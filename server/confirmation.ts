@@ -0,0 +1,75 @@
+import { supabaseAdmin } from './supabase';
+import { setAppointmentStatus } from './status';
+import { confirmationRulesOf, pendingExpiresAt, shouldAutoConfirm } from '../src/lib/confirmation';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// A returning client has at least one finished visit at the salon
+export async function isReturningClient(salonId: string, clientId: string) {
+  const { count, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id', { count: 'exact', head: true })
+    .eq('salon_id', salonId)
+    .eq('client_id', clientId)
+    .eq('status', 'completed');
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+// Confirms or expires the pending requests of every salon with a rule; visits are handled as a whole
+export async function applyConfirmationRules(now = new Date()) {
+  const { data: salons, error } = await supabaseAdmin
+    .from('salons')
+    .select('id, auto_confirm, pending_expiry_hours')
+    .or('auto_confirm.neq.off,pending_expiry_hours.not.is.null');
+  if (error) throw error;
+
+  for (const salon of salons || []) {
+    const rules = confirmationRulesOf(salon);
+    const { data: pending, error: pendingError } = await supabaseAdmin
+      .from('appointments')
+      .select('id, group_id, client_id, start_time, created_at, rescheduled_at, reliability_flag, prepayment_status')
+      .eq('salon_id', salon.id)
+      .eq('status', 'pending');
+    if (pendingError) throw pendingError;
+
+    const visits = new Map<string, typeof pending>();
+    for (const apt of pending || []) {
+      const key = apt.group_id || apt.id;
+      visits.set(key, [...(visits.get(key) || []), apt]);
+    }
+
+    const returning = new Map<string, boolean>();
+    for (const visit of visits.values()) {
+      const first = visit[0];
+      const ids = visit.map(apt => apt.id);
+      // Held for online payment; server/payments.ts confirms or releases these
+      if (visit.some(apt => apt.prepayment_status === 'awaiting')) continue;
+
+      if (rules.autoConfirm !== 'off' && Date.parse(first.start_time) > now.getTime()) {
+        if (rules.autoConfirm === 'returning' && !returning.has(first.client_id)) {
+          returning.set(first.client_id, await isReturningClient(salon.id, first.client_id));
+        }
+        const confirm = shouldAutoConfirm(rules, {
+          returning: returning.get(first.client_id) || false,
+          reliability_flag: visit.find(apt => apt.reliability_flag)?.reliability_flag,
+        });
+        if (confirm) {
+          await setAppointmentStatus(ids, 'confirmed', null);
+          continue;
+        }
+      }
+
+      const expiresAt = pendingExpiresAt(rules, first);
+      if (expiresAt && expiresAt <= now) {
+        await setAppointmentStatus(ids, 'cancelled', null);
+      }
+    }
+  }
+}
+
+export function startConfirmationScheduler() {
+  const run = () => applyConfirmationRules().catch(error => console.error('Error applying confirmation rules:', error));
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,179 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import { supabaseAdmin } from './supabase';
+import { NotificationChannel, UTC_OFFSET } from './channels';
+import {
+  RenderedEmail,
+  VisitDetails,
+  bookingCancelledEmail,
+  bookingConfirmedEmail,
+  bookingReceivedEmail,
+  reminderEmail,
+  reviewRequestEmail,
+  salonLocation,
+} from './emailTemplates';
+import { CalendarEvent, buildIcs, icsMethod } from '../src/lib/ics';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+export interface Email extends RenderedEmail {
+  to: string;
+  attachments?: EmailAttachment[];
+}
+
+// Where outgoing email goes: a real SMTP server, .eml files on disk or the server log
+export interface EmailTransport {
+  name: string;
+  send(email: Email): Promise<void>;
+}
+
+const FROM = process.env.EMAIL_FROM || 'GlowSchedule <nao-responda@glowschedule.app>';
+const FROM_ADDRESS = FROM.match(/<([^>]+)>/)?.[1] || FROM;
+
+export function smtpTransport(): EmailTransport {
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return {
+    name: 'smtp',
+    send: async (email) => {
+      await transporter.sendMail({ from: FROM, ...email });
+    },
+  };
+}
+
+// Writes each message as an .eml file that any mail client can open
+export function fileTransport(dir = process.env.EMAIL_OUTBOX_DIR || 'outbox'): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    name: 'file',
+    send: async (email) => {
+      const info = await transporter.sendMail({ from: FROM, ...email });
+      await fs.mkdir(dir, { recursive: true });
+      const slug = email.to.replace(/[^a-z0-9]+/gi, '_');
+      await fs.writeFile(path.join(dir, `${Date.now()}-${slug}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  send: async (email) => {
+    const attachments = (email.attachments || []).map(attachment => attachment.filename).join(', ');
+    console.log(`[email] Para: ${email.to}\n[email] Assunto: ${email.subject}${attachments ? `\n[email] Anexos: ${attachments}` : ''}\n${email.text}\n`);
+  },
+};
+
+function transportFromEnv(): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'smtp': return smtpTransport();
+    case 'file': return fileTransport();
+    default: return consoleTransport;
+  }
+}
+
+export const emailTransport = transportFromEnv();
+
+export function sendEmail(email: Email) {
+  return emailTransport.send(email);
+}
+
+async function recipientOf(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('email, full_name')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+const VISIT_COLUMNS = 'id, group_id, start_time, end_time, status, services(name), professionals(name), salons(name, address, city, phone), profiles(full_name, email)';
+
+// The whole visit: every service of a multi-service booking, from the first start to the last end
+async function loadVisit(appointmentId: string) {
+  const { data: apt, error } = await supabaseAdmin
+    .from('appointments')
+    .select(VISIT_COLUMNS)
+    .eq('id', appointmentId)
+    .single();
+  if (error) throw error;
+  if (!apt.group_id) return [apt];
+
+  const { data: group, error: groupError } = await supabaseAdmin
+    .from('appointments')
+    .select(VISIT_COLUMNS)
+    .eq('group_id', apt.group_id)
+    .order('start_time', { ascending: true });
+  if (groupError) throw groupError;
+  return group || [apt];
+}
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  // Salons hear about cancellations only; their day agenda is in the dashboard
+  accepts: (kind, audience) => audience === 'salon'
+    ? kind === 'cancelled'
+    : ['received', 'confirmed', 'cancelled', 'day', 'review_request'].includes(kind),
+  async enabledFor(recipientId) {
+    const recipient = await recipientOf(recipientId);
+    return Boolean(recipient?.email);
+  },
+  async send(message) {
+    const recipient = await recipientOf(message.recipientId);
+    if (!recipient?.email) throw new Error('Destinatário sem e-mail');
+
+    const appointments = (await loadVisit(message.appointmentId)) as any[];
+    const first = appointments[0];
+    const last = appointments[appointments.length - 1];
+    const visit: VisitDetails = {
+      recipientName: recipient.full_name || 'cliente',
+      clientName: first.profiles?.full_name || 'Cliente',
+      salon: first.salons || { name: 'Salão' },
+      services: appointments.map(apt => apt.services?.name).filter(Boolean),
+      professional: first.professionals?.name || null,
+      start: new Date(first.start_time),
+      utcOffset: UTC_OFFSET,
+    };
+
+    let rendered: RenderedEmail;
+    switch (message.kind) {
+      case 'received': rendered = bookingReceivedEmail(visit); break;
+      case 'confirmed': rendered = bookingConfirmedEmail(visit); break;
+      case 'cancelled': rendered = bookingCancelledEmail(visit, message.audience === 'salon'); break;
+      case 'day': rendered = reminderEmail(visit); break;
+      case 'review_request': rendered = reviewRequestEmail(visit); break;
+      default: throw new Error(`Sem modelo de e-mail para ${message.kind}`);
+    }
+
+    const event: CalendarEvent = {
+      uid: `${first.group_id || first.id}@glowschedule`,
+      start: visit.start,
+      end: new Date(last.end_time || last.start_time),
+      summary: `${visit.services.join(' + ')} - ${visit.salon.name}`,
+      description: visit.professional ? `Profissional: ${visit.professional}` : undefined,
+      location: salonLocation(visit.salon) || undefined,
+      organizer: { name: visit.salon.name, email: FROM_ADDRESS },
+      attendee: { name: visit.recipientName, email: recipient.email },
+      status: message.kind === 'cancelled' ? 'CANCELLED' : first.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE',
+      sequence: Math.floor(Date.now() / 1000),
+    };
+    // A review request is about a past visit, so it carries no calendar invite
+    const attachments: EmailAttachment[] = message.kind === 'review_request' ? [] : [{
+      filename: 'agendamento.ics',
+      contentType: `text/calendar; charset=utf-8; method=${icsMethod(event)}`,
+      content: buildIcs(event),
+    }];
+
+    await sendEmail({ to: recipient.email, ...rendered, attachments });
+  },
+};
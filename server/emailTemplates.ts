@@ -0,0 +1,160 @@
+import { formatTime, toLocal, weekdayOf } from '../src/lib/availability';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface VisitDetails {
+  recipientName: string;
+  clientName: string;
+  salon: { name: string; address?: string | null; city?: string | null; phone?: string | null };
+  services: string[];
+  professional?: string | null;
+  start: Date;
+  utcOffset: number;
+}
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function formatWhen(start: Date, utcOffset: number) {
+  const local = toLocal(start, utcOffset);
+  return `${weekdayOf(local.date)}, ${local.date.slice(8, 10)}/${local.date.slice(5, 7)} às ${formatTime(local.minutes)}`;
+}
+
+export function salonLocation(salon: VisitDetails['salon']) {
+  return [salon.address, salon.city].filter(Boolean).join(', ');
+}
+
+// Paragraphs become <p> in the html version and blank-line separated text in the plain one
+function layout(subject: string, greeting: string, paragraphs: string[], visit?: VisitDetails, action?: { label: string; url: string }): RenderedEmail {
+  const details = visit ? [
+    ['Serviço', visit.services.join(' + ')],
+    ['Quando', formatWhen(visit.start, visit.utcOffset)],
+    ...(visit.professional ? [['Profissional', visit.professional]] : []),
+    ['Onde', [visit.salon.name, salonLocation(visit.salon)].filter(Boolean).join(' - ')],
+    ...(visit.salon.phone ? [['Telefone', visit.salon.phone]] : []),
+  ] : [];
+
+  const text = [
+    greeting,
+    ...paragraphs,
+    details.map(([label, value]) => `${label}: ${value}`).join('\n'),
+    action ? `${action.label}: ${action.url}` : '',
+    'Equipe GlowSchedule',
+  ].filter(Boolean).join('\n\n');
+
+  const html = `<!doctype html>
+<html lang="pt-BR">
+<body style="margin:0;padding:24px;background:#f5f5f4;font-family:Helvetica,Arial,sans-serif;color:#1c1917">
+  <div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px">
+    <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(subject)}</h1>
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    ${details.length > 0 ? `<table style="width:100%;margin:16px 0;font-size:14px">
+      ${details.map(([label, value]) => `<tr><td style="color:#78716c;padding:4px 0;width:110px">${escapeHtml(label)}</td><td style="padding:4px 0"><strong>${escapeHtml(value)}</strong></td></tr>`).join('\n      ')}
+    </table>` : ''}
+    ${action ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#1c1917;color:#ffffff;padding:12px 20px;border-radius:12px;text-decoration:none;font-weight:bold">${escapeHtml(action.label)}</a></p>` : ''}
+    <p style="color:#a8a29e;font-size:12px;margin-top:32px">Equipe GlowSchedule</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function bookingReceivedEmail(visit: VisitDetails) {
+  return layout(
+    `Recebemos seu pedido - ${visit.salon.name}`,
+    `Olá, ${visit.recipientName}!`,
+    ['Seu pedido de agendamento foi enviado. Assim que o salão confirmar, avisaremos você.'],
+    visit,
+    { label: 'Ver meus agendamentos', url: APP_URL }
+  );
+}
+
+export function bookingConfirmedEmail(visit: VisitDetails) {
+  return layout(
+    `Agendamento confirmado - ${visit.salon.name}`,
+    `Olá, ${visit.recipientName}!`,
+    ['Seu horário está confirmado. O convite em anexo adiciona a visita à sua agenda.'],
+    visit,
+    { label: 'Ver meus agendamentos', url: APP_URL }
+  );
+}
+
+export function bookingCancelledEmail(visit: VisitDetails, byClient: boolean) {
+  return byClient
+    ? layout(
+      `Agendamento cancelado pelo cliente - ${visit.clientName}`,
+      `Olá, ${visit.recipientName}!`,
+      [`${visit.clientName} cancelou o agendamento abaixo. O horário voltou a ficar disponível.`],
+      visit
+    )
+    : layout(
+      `Agendamento cancelado - ${visit.salon.name}`,
+      `Olá, ${visit.recipientName}!`,
+      ['O agendamento abaixo foi cancelado. Se quiser, escolha um novo horário.'],
+      visit,
+      { label: 'Agendar novamente', url: APP_URL }
+    );
+}
+
+export function reminderEmail(visit: VisitDetails) {
+  return layout(
+    `Lembrete: seu horário é hoje - ${visit.salon.name}`,
+    `Olá, ${visit.recipientName}!`,
+    ['Passando para lembrar do seu agendamento de hoje. Se não puder ir, cancele pelo app para liberar o horário.'],
+    visit,
+    { label: 'Ver meus agendamentos', url: APP_URL }
+  );
+}
+
+export function reviewRequestEmail(visit: VisitDetails) {
+  return layout(
+    `Como foi seu atendimento em ${visit.salon.name}?`,
+    `Olá, ${visit.recipientName}!`,
+    [`Esperamos que tenha gostado de ${visit.services.join(' + ')}. Leva menos de um minuto avaliar e ajuda outros clientes a escolher.`],
+    undefined,
+    { label: 'Avaliar atendimento', url: APP_URL }
+  );
+}
+
+// Free-form message from the platform team to a salon owner
+export function platformMessageEmail(recipientName: string, subject: string, message: string) {
+  return layout(subject, `Olá, ${recipientName}!`, message.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean));
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+// Salon owner whose subscription charge failed; access ends when the grace period does
+export function subscriptionPastDueEmail(recipientName: string, salonName: string, accessEndsAt: Date) {
+  return layout(
+    'Não conseguimos cobrar sua assinatura',
+    `Olá, ${recipientName}!`,
+    [
+      `O pagamento da assinatura de ${salonName} não foi aprovado.`,
+      `Atualize a forma de pagamento até ${formatDate(accessEndsAt)} para que seu salão continue recebendo agendamentos.`,
+    ],
+    undefined,
+    { label: 'Atualizar pagamento', url: APP_URL }
+  );
+}
+
+export function subscriptionSuspendedEmail(recipientName: string, salonName: string) {
+  return layout(
+    'Seu salão foi desativado',
+    `Olá, ${recipientName}!`,
+    [
+      `Como a assinatura de ${salonName} não está em dia, o salão deixou de aparecer para os clientes e não recebe novos agendamentos.`,
+      'Assine um plano nas configurações do salão para reativá-lo na hora.',
+    ],
+    undefined,
+    { label: 'Escolher um plano', url: APP_URL }
+  );
+}
@@ -0,0 +1,23 @@
+import { Response } from 'express';
+
+export class HttpError extends Error {
+  status: number;
+  code?: string;
+  details?: Record<string, any>;
+
+  constructor(status: number, message: string, code?: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+  }
+  console.error(fallback, error);
+  res.status(500).json({ error: error?.message || fallback });
+}
@@ -0,0 +1,9 @@
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // exact bytes of a JSON body, kept for webhook signatures (server.ts)
+    }
+  }
+}
+
+export {};
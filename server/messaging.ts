@@ -0,0 +1,141 @@
+import { supabaseAdmin } from './supabase';
+import { DeliverySkipped, NotificationChannel } from './channels';
+import { MessageChannel } from '../src/lib/messaging';
+import { Profile } from '../src/types';
+
+// A service that delivers text messages on one channel. Returns the provider's message id
+export interface MessagingProvider {
+  name: string;
+  // params carries the same message as template parameters, for providers that send templates
+  send(to: string, text: string, params: string[]): Promise<{ id?: string }>;
+}
+
+// Template parameters may not hold line breaks, tabs or more than four spaces in a row
+function templateParam(text: string) {
+  return text.replace(/[\r\n\t]+/g, ' ').replace(/ {4,}/g, '   ').trim();
+}
+
+// WhatsApp Business Cloud API. Outside a 24h conversation WhatsApp only accepts approved templates,
+// so with WHATSAPP_TEMPLATE set the title and body go as the two body parameters of that template.
+export function whatsappCloudProvider(): MessagingProvider {
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  const token = process.env.WHATSAPP_TOKEN;
+  const template = process.env.WHATSAPP_TEMPLATE;
+  return {
+    name: 'whatsapp-cloud',
+    async send(to, text, params) {
+      const response = await fetch(`https://graph.facebook.com/v20.0/${phoneNumberId}/messages`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          to: to.replace(/^\+/, ''),
+          ...(template
+            ? {
+              type: 'template',
+              template: {
+                name: template,
+                language: { code: 'pt_BR' },
+                components: [{ type: 'body', parameters: params.map(param => ({ type: 'text', text: templateParam(param) })) }],
+              },
+            }
+            : { type: 'text', text: { body: text } }),
+        }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.error?.message || `WhatsApp respondeu ${response.status}`);
+      return { id: body?.messages?.[0]?.id };
+    },
+  };
+}
+
+// Twilio Programmable Messaging
+export function twilioSmsProvider(): MessagingProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM;
+  return {
+    name: 'twilio',
+    async send(to, text) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: from || '', Body: text }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || `Twilio respondeu ${response.status}`);
+      return { id: body?.sid };
+    },
+  };
+}
+
+export interface RecordedMessage {
+  channel: MessageChannel;
+  to: string;
+  text: string;
+  sentAt: string;
+}
+
+const recorded: RecordedMessage[] = [];
+
+// Keeps messages in memory and in the log instead of sending them, for development
+export function mockProvider(channel: MessageChannel): MessagingProvider {
+  return {
+    name: 'mock',
+    async send(to, text) {
+      recorded.push({ channel, to, text, sentAt: new Date().toISOString() });
+      console.log(`[${channel}] Para: ${to}\n${text}\n`);
+      return { id: `mock-${recorded.length}` };
+    },
+  };
+}
+
+export function recordedMessages() {
+  return [...recorded];
+}
+
+const providers: Record<MessageChannel, MessagingProvider> = {
+  whatsapp: process.env.WHATSAPP_PROVIDER === 'cloud' ? whatsappCloudProvider() : mockProvider('whatsapp'),
+  sms: process.env.SMS_PROVIDER === 'twilio' ? twilioSmsProvider() : mockProvider('sms'),
+};
+
+type MessagingProfileRow = Pick<Profile, 'message_channel' | 'message_opt_in_at'> & {
+  profile_contacts: { phone: string } | { phone: string }[] | null;
+};
+
+async function messagingContact(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('message_channel, message_opt_in_at, profile_contacts(phone)')
+    .eq('id', userId)
+    .single<MessagingProfileRow>();
+  if (error) throw error;
+  const contact = data.profile_contacts;
+  return { ...data, phone: (Array.isArray(contact) ? contact[0] : contact)?.phone };
+}
+
+// Only clients who chose this channel on their profile get messages, and only the ones worth a ping
+export function messagingChannel(channel: MessageChannel): NotificationChannel {
+  return {
+    name: channel,
+    accepts: (kind, audience) => audience === 'client' && ['day', '30min', 'confirmed', 'cancelled'].includes(kind),
+    async enabledFor(recipientId) {
+      const contact = await messagingContact(recipientId);
+      return Boolean(contact?.phone && contact.message_opt_in_at && contact.message_channel === channel);
+    },
+    async send(message) {
+      const contact = await messagingContact(message.recipientId);
+      // The client may have opted out after the message was queued; retrying would not change that
+      if (!contact?.phone || !contact.message_opt_in_at || contact.message_channel !== channel) {
+        throw new DeliverySkipped('Cliente não aceita mais mensagens por este canal');
+      }
+      const text = channel === 'whatsapp'
+        ? `*${message.title}*\n${message.body}`
+        : `GlowSchedule: ${message.body}`;
+      await providers[channel].send(contact.phone, text, [message.title, message.body]);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { supabaseAdmin } from './supabase';
+import { UTC_OFFSET, acceptedBy, channelsFor } from './channels';
+import { recordDeliveries } from './reminders';
+import { NoticeKind, ReminderAppointment, ReminderAudience, noticeMessage } from '../src/lib/reminders';
+import { Appointment, Salon } from '../src/types';
+
+interface AppointmentEventRow {
+  id: string;
+  appointment_id: string;
+  event_type: string;
+  to_status: string | null;
+  actor_id: string | null;
+}
+
+type NoticeAppointmentRow = ReminderAppointment & Pick<Appointment, 'id' | 'group_id' | 'client_id'> & {
+  salons: Pick<Salon, 'owner_id'> | null;
+};
+
+// Which notice an appointment event turns into, if any
+function noticeKindOf(event: AppointmentEventRow): NoticeKind | null {
+  if (event.event_type === 'created') return event.to_status === 'confirmed' ? 'confirmed' : 'received';
+  if (event.event_type !== 'status_changed') return null;
+  if (event.to_status === 'confirmed') return 'confirmed';
+  if (event.to_status === 'cancelled') return 'cancelled';
+  if (event.to_status === 'completed') return 'review_request';
+  return null;
+}
+
+// The salon hears about new bookings, requests waiting on it (a client's reschedule too) and cancellations
+function salonNoticeKindOf(event: AppointmentEventRow): NoticeKind | null {
+  if (event.event_type === 'created') return event.to_status === 'confirmed' ? 'confirmed' : 'received';
+  if (event.event_type !== 'status_changed') return null;
+  if (event.to_status === 'pending') return 'received';
+  if (event.to_status === 'cancelled') return 'cancelled';
+  return null;
+}
+
+// Tells the client and the salon about a new request, a confirmation, a cancellation or a finished visit
+export async function notifyAppointmentEvent(event: AppointmentEventRow) {
+  const clientKind = noticeKindOf(event);
+  const salonKind = salonNoticeKindOf(event);
+  if (!clientKind && !salonKind) return;
+
+  const { data: apt, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, group_id, client_id, start_time, services(name), profiles(full_name), salons(owner_id)')
+    .eq('id', event.appointment_id)
+    .single<NoticeAppointmentRow>();
+  if (error) throw error;
+
+  // A multi-service visit changes all its appointments at once; its first one speaks for it
+  if (apt.group_id) {
+    const { data: first } = await supabaseAdmin
+      .from('appointments')
+      .select('id')
+      .eq('group_id', apt.group_id)
+      .order('start_time', { ascending: true })
+      .limit(1)
+      .single();
+    if (first && first.id !== apt.id) return;
+  }
+
+  const notices: [string | undefined, ReminderAudience, NoticeKind | null][] = [
+    [apt.client_id, 'client', clientKind],
+    // Cancellations by the salon or the server are the salon's own business
+    [apt.salons?.owner_id, 'salon', salonKind === 'cancelled' && event.actor_id !== apt.client_id ? null : salonKind],
+  ];
+  for (const [recipientId, audience, kind] of notices) {
+    // Nobody is told about their own change, except the client about the booking they just made
+    if (!kind || !recipientId) continue;
+    if (recipientId === event.actor_id && !(audience === 'client' && event.event_type === 'created')) continue;
+
+    const { title, body } = noticeMessage(kind, audience, apt, UTC_OFFSET);
+    const channels = (await channelsFor(recipientId)).filter(channel => acceptedBy(channel, kind, audience));
+    await recordDeliveries(channels.map(channel => ({
+      appointment_id: apt.id,
+      recipient_id: recipientId,
+      audience,
+      kind,
+      dedupe_key: `${kind}:${event.id}`,
+      channel: channel.name,
+      title,
+      body,
+    })));
+  }
+}
+
+export function startNoticeWatcher() {
+  supabaseAdmin
+    .channel('appointment-notices')
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'appointment_events' },
+      (payload) => {
+        notifyAppointmentEvent(payload.new as AppointmentEventRow)
+          .catch(error => console.error('Error sending appointment notice:', error));
+      }
+    )
+    .subscribe();
+}
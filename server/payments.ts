@@ -0,0 +1,281 @@
+import Stripe from 'stripe';
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { setAppointmentStatus } from './status';
+import { stripeClient } from './stripe';
+import { refundDuplicatePayment, settleCancellation } from './refunds';
+import { PAYMENT_HOLD_MINUTES } from '../src/lib/payments';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+export const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+export interface CheckoutRequest {
+  paymentId: string;
+  amount: number; // BRL
+  description: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  url: string;
+  expiresAt: Date;
+}
+
+// What the salon's payment provider told us about a checkout, whatever the provider
+export interface PaymentEvent {
+  type: 'succeeded' | 'failed' | 'expired';
+  sessionId: string;
+  providerPaymentId?: string | null;
+}
+
+export interface RefundRequest {
+  providerPaymentId: string;
+  amount: number; // BRL
+  idempotencyKey: string;
+}
+
+export interface RefundResult {
+  refundId: string | null;
+  status: 'succeeded' | 'failed' | 'manual'; // manual: only the salon can send the money back
+}
+
+export interface PaymentGateway {
+  name: 'stripe' | 'fake';
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  parseWebhook(rawBody: Buffer, signature: string | undefined): PaymentEvent | null;
+  // Closes a checkout so it can no longer be paid; false when the client already paid it
+  expireCheckout(sessionId: string): Promise<boolean>;
+  // Repeating a request with the same idempotency key never moves money twice
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+// Stripe Checkout in payment mode
+export function stripeGateway(): PaymentGateway {
+  const stripe = stripeClient();
+
+  return {
+    name: 'stripe',
+    async createCheckout(request) {
+      // Stripe keeps a session open for at least 30 minutes
+      const expiresAt = new Date(Date.now() + Math.max(PAYMENT_HOLD_MINUTES, 30) * 60000 + 60000);
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        line_items: [{
+          quantity: 1,
+          price_data: {
+            currency: 'brl',
+            unit_amount: Math.round(request.amount * 100),
+            product_data: { name: request.description },
+          },
+        }],
+        customer_email: request.customerEmail,
+        client_reference_id: request.paymentId,
+        metadata: { payment_id: request.paymentId },
+        payment_intent_data: { metadata: { payment_id: request.paymentId } },
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        expires_at: Math.floor(expiresAt.getTime() / 1000),
+      });
+      return { sessionId: session.id, url: session.url || '', expiresAt };
+    },
+    async expireCheckout(sessionId) {
+      try {
+        await stripe.checkout.sessions.expire(sessionId);
+        return true;
+      } catch (error) {
+        // Only open sessions can be expired; one that expired on its own is just as closed
+        const session = await stripe.checkout.sessions.retrieve(sessionId);
+        if (session.status === 'open') throw error;
+        return session.status === 'expired';
+      }
+    },
+    parseWebhook(rawBody, signature) {
+      let event: Stripe.Event;
+      try {
+        event = stripe.webhooks.constructEvent(rawBody, signature || '', process.env.STRIPE_WEBHOOK_SECRET || '');
+      } catch (error: any) {
+        throw new HttpError(400, `Assinatura do webhook inválida: ${error.message}`);
+      }
+      if (!event.type.startsWith('checkout.session.')) return null;
+      const session = event.data.object as Stripe.Checkout.Session;
+      const providerPaymentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+
+      switch (event.type) {
+        case 'checkout.session.completed':
+          // Boleto and other delayed methods complete unpaid and report later
+          return session.payment_status === 'paid' ? { type: 'succeeded', sessionId: session.id, providerPaymentId } : null;
+        case 'checkout.session.async_payment_succeeded':
+          return { type: 'succeeded', sessionId: session.id, providerPaymentId };
+        case 'checkout.session.async_payment_failed':
+          return { type: 'failed', sessionId: session.id, providerPaymentId };
+        case 'checkout.session.expired':
+          return { type: 'expired', sessionId: session.id };
+        default:
+          return null;
+      }
+    },
+    async refund(request) {
+      const refund = await stripe.refunds.create(
+        { payment_intent: request.providerPaymentId, amount: Math.round(request.amount * 100) },
+        { idempotencyKey: request.idempotencyKey }
+      );
+      // A pending refund has been issued; the card network just takes a few days to show it
+      return { refundId: refund.id, status: refund.status === 'failed' || refund.status === 'canceled' ? 'failed' : 'succeeded' };
+    },
+  };
+}
+
+interface FakeSession extends CheckoutRequest {
+  expiresAt: Date;
+}
+
+const fakeSessions = new Map<string, FakeSession>();
+const fakeRefunds = new Map<string, string>();
+
+// Development stand-in for Stripe: a local checkout page (server/routes/payments.ts) pays or gives up
+export function fakeGateway(): PaymentGateway {
+  return {
+    name: 'fake',
+    async createCheckout(request) {
+      const sessionId = `fake_cs_${randomUUID()}`;
+      const expiresAt = new Date(Date.now() + PAYMENT_HOLD_MINUTES * 60000);
+      fakeSessions.set(sessionId, { ...request, expiresAt });
+      return { sessionId, url: `${APP_URL}/api/payments/fake-checkout/${sessionId}`, expiresAt };
+    },
+    async expireCheckout(sessionId) {
+      fakeSessions.delete(sessionId);
+      return true;
+    },
+    // Unsigned, so it only speaks for sessions this process created
+    parseWebhook(rawBody) {
+      let event: PaymentEvent;
+      try {
+        event = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        throw new HttpError(400, 'Notificação de pagamento inválida');
+      }
+      if (!event?.sessionId || !fakeSessions.has(event.sessionId)) throw new HttpError(404, 'Sessão de pagamento não encontrada');
+      return ['succeeded', 'failed', 'expired'].includes(event.type) ? event : null;
+    },
+    async refund(request) {
+      if (!fakeRefunds.has(request.idempotencyKey)) fakeRefunds.set(request.idempotencyKey, `fake_re_${randomUUID()}`);
+      return { refundId: fakeRefunds.get(request.idempotencyKey)!, status: 'succeeded' };
+    },
+  };
+}
+
+export function fakeSession(sessionId: string) {
+  return fakeSessions.get(sessionId);
+}
+
+// The fake gateway accepts unsigned "paid" webhooks, so it has to be asked for by name and never runs in production
+export function usesFakeGateway() {
+  return process.env.PAYMENT_GATEWAY === 'fake' && process.env.NODE_ENV !== 'production';
+}
+
+// Resolved per request, so a missing configuration fails online payments instead of the whole server
+export function paymentGateway(): PaymentGateway {
+  if (usesFakeGateway()) return fakeGateway();
+  if (process.env.PAYMENT_GATEWAY === 'fake' || !process.env.STRIPE_SECRET_KEY) {
+    throw new HttpError(503, 'Pagamento online indisponível no momento', 'payments_not_configured');
+  }
+  return stripeGateway();
+}
+
+// Every appointment of the visit a payment belongs to
+export async function visitIds(payment: { appointment_id: string; group_id?: string | null }) {
+  if (!payment.group_id) return [payment.appointment_id];
+  const { data, error } = await supabaseAdmin.from('appointments').select('id').eq('group_id', payment.group_id);
+  if (error) throw error;
+  return (data || []).map(apt => apt.id);
+}
+
+// Idempotent: providers retry webhooks, and only the first delivery changes anything
+export async function applyPaymentEvent(event: PaymentEvent) {
+  if (event.type !== 'succeeded') {
+    const { error } = await supabaseAdmin
+      .from('payments')
+      .update({ status: event.type, provider_payment_id: event.providerPaymentId || null })
+      .eq('provider_session_id', event.sessionId)
+      .eq('status', 'pending');
+    if (error) throw error;
+    return;
+  }
+
+  // A session we already gave up on may still be paid in its last seconds; the money counts
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .update({ status: 'succeeded', paid_at: new Date().toISOString(), provider_payment_id: event.providerPaymentId || null })
+    .eq('provider_session_id', event.sessionId)
+    .in('status', ['pending', 'expired'])
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!payment) return;
+
+  const ids = await visitIds(payment);
+  // Two tabs or a PIX paid after the card: the first payment to arrive pays the visit, the others go back
+  const { data: paid, error: paidError } = await supabaseAdmin
+    .from('payments')
+    .select('id, paid_at')
+    .in('appointment_id', ids)
+    .neq('id', payment.id)
+    .in('status', ['succeeded', 'partially_refunded', 'refunded']);
+  if (paidError) throw paidError;
+  if ((paid || []).some(other => other.paid_at < payment.paid_at || (other.paid_at === payment.paid_at && other.id < payment.id))) {
+    await refundDuplicatePayment(payment.id);
+    return;
+  }
+
+  const { data: appointments, error: updateError } = await supabaseAdmin
+    .from('appointments')
+    .update({ prepayment_status: 'paid' })
+    .in('id', ids)
+    .select('id, status');
+  if (updateError) throw updateError;
+
+  // Paid after the visit was released: the client gets everything back
+  if ((appointments || []).some(apt => apt.status === 'cancelled')) {
+    await settleCancellation(payment.appointment_id, { fullRefund: true });
+    return;
+  }
+  await setAppointmentStatus((appointments || []).filter(apt => apt.status === 'pending').map(apt => apt.id), 'confirmed', null);
+}
+
+// Unpaid bookings hold their slot only while the client can still pay
+export async function releaseUnpaidBookings(now = new Date()) {
+  const { data: awaiting, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, group_id, created_at, payments(status, expires_at)')
+    .eq('status', 'pending')
+    .eq('prepayment_status', 'awaiting');
+  if (error) throw error;
+
+  const visits = new Map<string, any[]>();
+  for (const apt of awaiting || []) {
+    const key = apt.group_id || apt.id;
+    visits.set(key, [...(visits.get(key) || []), apt]);
+  }
+
+  for (const visit of visits.values()) {
+    const payments = visit.flatMap(apt => apt.payments || []);
+    const open = payments.some((payment: any) => payment.status === 'pending' && Date.parse(payment.expires_at) > now.getTime());
+    const heldUntil = Date.parse(visit[0].created_at) + PAYMENT_HOLD_MINUTES * 60000;
+    if (open || heldUntil > now.getTime()) continue;
+
+    const ids = visit.map(apt => apt.id);
+    const { error: expireError } = await supabaseAdmin.from('payments').update({ status: 'expired' }).in('appointment_id', ids).eq('status', 'pending');
+    if (expireError) throw expireError;
+    await setAppointmentStatus(ids, 'cancelled', null);
+  }
+}
+
+export function startPaymentSweeper() {
+  const run = () => releaseUnpaidBookings().catch(error => console.error('Error releasing unpaid bookings:', error));
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS);
+}
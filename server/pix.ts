@@ -0,0 +1,126 @@
+import { timingSafeEqual } from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { RefundRequest, RefundResult, applyPaymentEvent } from './payments';
+import { PAYMENT_HOLD_MINUTES } from '../src/lib/payments';
+import { pixPayload, pixTxid } from '../src/lib/pix';
+import { Payment, Salon } from '../src/types';
+
+export interface PixChargeRequest {
+  paymentId: string;
+  amount: number; // BRL
+  key: string; // the salon's PIX key: the money goes straight to its account
+  merchantName: string;
+  merchantCity: string;
+  description: string;
+}
+
+export interface PixCharge {
+  txid: string;
+  payload: string; // BR Code shown as QR and as "copia e cola"
+  expiresAt: Date;
+}
+
+// A PIX received for one of our charges, as the salon's bank reported it
+export interface PixNotification {
+  txid: string;
+  endToEndId: string;
+  amount: number;
+}
+
+export interface PixProvider {
+  name: string;
+  createCharge(request: PixChargeRequest): Promise<PixCharge>;
+  parseWebhook(rawBody: Buffer, secret: string | undefined): PixNotification[];
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+function sameSecret(given: string | undefined, expected: string) {
+  const a = Buffer.from(given || '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// BR Codes built here from the salon's key, with a transaction id per charge. Banks and PSPs that
+// follow the Banco Central "API Pix" post received payments as { pix: [{ txid, endToEndId, valor }] }.
+export function bcbPixProvider(): PixProvider {
+  return {
+    name: 'bcb',
+    async createCharge(request) {
+      const txid = pixTxid(request.paymentId);
+      return {
+        txid,
+        payload: pixPayload({
+          key: request.key,
+          merchantName: request.merchantName,
+          merchantCity: request.merchantCity,
+          amount: request.amount,
+          txid,
+          description: request.description,
+        }),
+        expiresAt: new Date(Date.now() + PAYMENT_HOLD_MINUTES * 60000),
+      };
+    },
+    parseWebhook(rawBody, secret) {
+      const expected = process.env.PIX_WEBHOOK_SECRET;
+      if (!expected || !sameSecret(secret, expected)) throw new HttpError(401, 'Notificação PIX não autorizada');
+      let body: any;
+      try {
+        body = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        throw new HttpError(400, 'Notificação PIX inválida');
+      }
+      return (Array.isArray(body?.pix) ? body.pix : [])
+        .filter((pix: any) => pix?.txid && pix?.endToEndId)
+        .map((pix: any) => ({ txid: String(pix.txid), endToEndId: String(pix.endToEndId), amount: Number(pix.valor) }));
+    },
+    // The money sits in the salon's account, so the salon sends it back and then tells us
+    async refund() {
+      return { refundId: null, status: 'manual' };
+    },
+  };
+}
+
+export const pixProvider: PixProvider = bcbPixProvider();
+
+type PixPaymentRow = Pick<Payment, 'id' | 'provider' | 'status' | 'provider_session_id'> & {
+  salons: Pick<Salon, 'owner_id'> | null;
+};
+
+// Received PIX settle their payment like a card checkout does; repeated notifications change nothing
+export async function applyPixNotifications(notifications: PixNotification[]) {
+  for (const pix of notifications) {
+    const { data: payment, error } = await supabaseAdmin
+      .from('payments')
+      .select('id, amount')
+      .eq('provider', 'pix')
+      .eq('provider_session_id', pix.txid)
+      .maybeSingle();
+    if (error) throw error;
+    if (!payment) continue;
+    if (Math.round(pix.amount * 100) !== Math.round(Number(payment.amount) * 100)) {
+      console.warn(`PIX ${pix.endToEndId} paid ${pix.amount} for payment ${payment.id} of ${payment.amount}; left for the salon to check.`);
+      continue;
+    }
+    await applyPaymentEvent({ type: 'succeeded', sessionId: pix.txid, providerPaymentId: pix.endToEndId });
+  }
+}
+
+// Fallback when the salon's bank does not notify us: the owner saw the PIX arrive
+export async function markPixPaid(paymentId: string, userId: string) {
+  const { data: payment } = await supabaseAdmin
+    .from('payments')
+    .select('id, provider, status, provider_session_id, salons(owner_id)')
+    .eq('id', paymentId)
+    .single<PixPaymentRow>();
+  if (!payment) throw new HttpError(404, 'Pagamento não encontrado');
+  if (payment.salons?.owner_id !== userId) throw new HttpError(403, 'Sem permissão para confirmar este pagamento');
+  if (payment.provider !== 'pix') throw new HttpError(409, 'Só pagamentos por PIX são confirmados manualmente', 'not_pix');
+  if (payment.status !== 'pending' && payment.status !== 'expired') {
+    throw new HttpError(409, 'Este pagamento não está aguardando confirmação', 'not_awaiting_payment');
+  }
+
+  const { error } = await supabaseAdmin.from('payments').update({ confirmed_by: userId }).eq('id', payment.id);
+  if (error) throw error;
+  await applyPaymentEvent({ type: 'succeeded', sessionId: payment.provider_session_id!, providerPaymentId: null });
+}
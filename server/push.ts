@@ -0,0 +1,73 @@
+import webpush from 'web-push';
+import { supabaseAdmin } from './supabase';
+import { NotificationChannel } from './channels';
+
+const publicKey = process.env.VAPID_PUBLIC_KEY;
+const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+export const pushConfigured = Boolean(publicKey && privateKey);
+
+if (pushConfigured) {
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:contato@glowschedule.app', publicKey!, privateKey!);
+} else {
+  console.warn('VAPID keys missing, Web Push is disabled. Generate them with `npx web-push generate-vapid-keys`.');
+}
+
+export function vapidPublicKey() {
+  return publicKey || null;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+}
+
+// Sends to every device of the user; subscriptions the push service no longer knows are dropped
+export async function sendPush(userId: string, payload: PushPayload) {
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  let delivered = 0;
+  let lastError: unknown = null;
+  for (const subscription of subscriptions || []) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload)
+      );
+      delivered++;
+    } catch (error: any) {
+      if (error?.statusCode === 404 || error?.statusCode === 410) {
+        await supabaseAdmin.from('push_subscriptions').delete().eq('id', subscription.id);
+      } else {
+        lastError = error;
+      }
+    }
+  }
+  // One unreachable device does not fail the delivery, all of them do
+  if (delivered === 0 && lastError) throw lastError;
+}
+
+export const pushChannel: NotificationChannel = {
+  name: 'push',
+  // Whoever just booked does not need a push saying so; the salon does
+  accepts: (kind, audience) => kind !== 'received' || audience === 'salon',
+  async enabledFor(recipientId) {
+    if (!pushConfigured) return false;
+    const { count } = await supabaseAdmin
+      .from('push_subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', recipientId);
+    return (count || 0) > 0;
+  },
+  send: (message) => sendPush(message.recipientId, {
+    title: message.title,
+    body: message.body,
+    tag: `${message.appointmentId}:${message.kind}`,
+  }),
+};
@@ -0,0 +1,55 @@
+import Database from 'better-sqlite3';
+
+// Local job queue for outgoing deliveries. In memory unless DELIVERY_QUEUE_PATH points at a file;
+// either way the deliveries table stays the source of truth and lost jobs are re-queued from it.
+const db = new Database(process.env.DELIVERY_QUEUE_PATH || ':memory:');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    delivery_id TEXT NOT NULL UNIQUE,
+    channel TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    run_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS jobs_run_at_idx ON jobs (run_at);
+`);
+
+export interface Job<T = unknown> {
+  id: number;
+  deliveryId: string;
+  channel: string;
+  payload: T;
+  attempts: number;
+}
+
+const insertJob = db.prepare(
+  'INSERT OR IGNORE INTO jobs (delivery_id, channel, payload, run_at, attempts) VALUES (?, ?, ?, ?, ?)'
+);
+const selectDue = db.prepare('SELECT * FROM jobs WHERE run_at <= ? ORDER BY run_at LIMIT ?');
+const updateJob = db.prepare('UPDATE jobs SET run_at = ?, attempts = ? WHERE id = ?');
+const deleteJob = db.prepare('DELETE FROM jobs WHERE id = ?');
+
+// A delivery is queued at most once
+export function enqueue(deliveryId: string, channel: string, payload: unknown, attempts = 0, runAt = Date.now()) {
+  insertJob.run(deliveryId, channel, JSON.stringify(payload), runAt, attempts);
+}
+
+export function dueJobs<T>(now = Date.now(), limit = 50): Job<T>[] {
+  return selectDue.all(now, limit).map((row: any) => ({
+    id: row.id,
+    deliveryId: row.delivery_id,
+    channel: row.channel,
+    payload: JSON.parse(row.payload),
+    attempts: row.attempts,
+  }));
+}
+
+export function retryJob(id: number, attempts: number, runAt: number) {
+  updateJob.run(runAt, attempts, id);
+}
+
+export function completeJob(id: number) {
+  deleteJob.run(id);
+}
@@ -0,0 +1,277 @@
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { paymentGateway, visitIds } from './payments';
+import { pixProvider } from './pix';
+import { isLateCancel, rulesOf } from '../src/lib/reliability';
+import { CancellationSettlement, Settlement, refundRulesOf, settlementFor } from '../src/lib/refunds';
+import { Appointment, Payment, PaymentLedgerEntry, Salon } from '../src/types';
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Refunds the provider keeps rejecting are left for the salon to sort out by hand
+const MAX_REFUND_ATTEMPTS = 5;
+// Ledger reason of a payment made for a visit that was already paid
+const DUPLICATE_PAYMENT = 'duplicate_payment';
+
+// A cancelled appointment with the salon rules that decide what its payment gets back
+type CancelledAppointmentRow = Pick<Appointment, 'id' | 'group_id' | 'client_id' | 'start_time'> & {
+  salons: Pick<Salon, 'late_cancel_hours' | 'late_cancel_policy' | 'cancellation_fee_percent'> | null;
+};
+
+// Who cancelled the visit and when, as the event log recorded it
+async function cancellationOf(appointmentId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('appointment_events')
+    .select('actor_id, created_at')
+    .eq('appointment_id', appointmentId)
+    .eq('to_status', 'cancelled')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function issueRefund(entry: PaymentLedgerEntry, payment: { provider: string; provider_payment_id: string | null }) {
+  const pix = payment.provider === 'pix';
+  const providerPaymentId = payment.provider_payment_id;
+  let status: PaymentLedgerEntry['status'] = 'failed';
+  let refundId: string | null = null;
+  // PIX confirmed by hand have no bank id, and the salon sends those back itself anyway.
+  // A card payment without one cannot be refunded through the provider either, so it goes to the salon once.
+  if (!providerPaymentId && !pix) {
+    console.error(`Payment ${entry.payment_id} has no provider payment id; refund ${entry.id} left for the salon.`);
+    status = 'manual';
+  } else {
+    try {
+      const refunder = pix ? pixProvider : paymentGateway();
+      const result = await refunder.refund({ providerPaymentId: providerPaymentId || '', amount: Number(entry.amount), idempotencyKey: entry.idempotency_key });
+      status = result.status;
+      refundId = result.refundId;
+    } catch (error) {
+      console.error(`Error refunding payment ${entry.payment_id}:`, error);
+    }
+  }
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .update({ status, provider_refund_id: refundId, attempts: entry.attempts + 1, updated_at: new Date().toISOString() })
+    .eq('id', entry.id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as PaymentLedgerEntry;
+}
+
+// Issues the refunds of a payment that are still owed, until the provider has turned them down too often
+function retryRefunds(entries: PaymentLedgerEntry[], payment: { provider: string; provider_payment_id: string | null }) {
+  return Promise.all(entries.map(entry =>
+    entry.kind === 'refund' && (entry.status === 'pending' || entry.status === 'failed') && entry.attempts < MAX_REFUND_ATTEMPTS
+      ? issueRefund(entry, payment)
+      : entry
+  ));
+}
+
+// Refunds or retains what a cancelled visit paid online, following the salon's rules. The outcome
+// is decided once per payment and written to the ledger before any money moves, so calling this
+// again (from the route, the late payment webhook or the sweeper) only finishes what is left.
+export async function settleCancellation(
+  appointmentId: string,
+  options: { fullRefund?: boolean } = {}
+): Promise<CancellationSettlement | null> {
+  const { data: apt, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, group_id, client_id, start_time, salons(late_cancel_hours, late_cancel_policy, cancellation_fee_percent)')
+    .eq('id', appointmentId)
+    .single<CancelledAppointmentRow>();
+  if (error) throw error;
+
+  const ids = await visitIds({ appointment_id: apt.id, group_id: apt.group_id });
+  const { data: visit, error: visitError } = await supabaseAdmin
+    .from('appointments')
+    .select('id, status, start_time')
+    .in('id', ids)
+    .order('start_time', { ascending: true });
+  if (visitError) throw visitError;
+  // One payment covers the whole visit; nothing is settled while part of it still stands
+  if (!visit?.length || visit.some(a => a.status !== 'cancelled')) return null;
+
+  const { data: payments, error: paymentsError } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .in('appointment_id', ids)
+    .in('status', ['succeeded', 'partially_refunded', 'refunded']);
+  if (paymentsError) throw paymentsError;
+  if (!payments?.length) return null;
+
+  // Duplicates are refunded in full by refundDuplicatePayment; the visit's rules are not theirs
+  const { data: duplicates, error: duplicatesError } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('payment_id')
+    .in('payment_id', payments.map(payment => payment.id))
+    .eq('reason', DUPLICATE_PAYMENT);
+  if (duplicatesError) throw duplicatesError;
+  const settled = payments.filter(payment => !(duplicates || []).some(entry => entry.payment_id === payment.id));
+  if (!settled.length) return null;
+
+  const cancellation = options.fullRefund ? null : await cancellationOf(visit[0].id);
+  const byClient = !!cancellation && cancellation.actor_id === apt.client_id;
+  const late = !!cancellation && isLateCancel(visit[0].start_time, cancellation.created_at, rulesOf(apt.salons));
+  const rules = refundRulesOf(apt.salons);
+
+  const total: CancellationSettlement = { refund: 0, retained: 0, retainedAs: null, refundIssued: true };
+  for (const payment of settled) {
+    const settlement = settlementFor(payment, { byClient, late }, rules);
+    const decided = [
+      { kind: 'refund', amount: settlement.refund, key: `refund:${payment.id}` },
+      { kind: settlement.retainedAs, amount: settlement.retained, key: `retain:${payment.id}` },
+    ].filter(entry => entry.kind && entry.amount > 0);
+
+    const { error: ledgerError } = await supabaseAdmin.from('payment_ledger').upsert(
+      decided.map(entry => ({
+        payment_id: payment.id,
+        appointment_id: payment.appointment_id,
+        kind: entry.kind,
+        amount: entry.amount,
+        idempotency_key: entry.key,
+        reason: byClient ? (late ? 'late_client_cancel' : 'client_cancel') : 'salon_cancel',
+      })),
+      { onConflict: 'idempotency_key', ignoreDuplicates: true }
+    );
+    if (ledgerError) throw ledgerError;
+
+    // Whatever was decided first stands, even if this call would decide differently
+    const { data: ledger, error: readError } = await supabaseAdmin
+      .from('payment_ledger')
+      .select('*')
+      .eq('payment_id', payment.id);
+    if (readError) throw readError;
+
+    const entries = await retryRefunds((ledger || []) as PaymentLedgerEntry[], payment);
+
+    const refunded = entries.filter(e => e.kind === 'refund' && e.status === 'succeeded').reduce((sum, e) => sum + Number(e.amount), 0);
+    const retainedEntry = entries.find(e => e.kind !== 'refund');
+    const refundPending = entries.some(e => e.kind === 'refund' && e.status !== 'succeeded');
+    total.refund += entries.filter(e => e.kind === 'refund').reduce((sum, e) => sum + Number(e.amount), 0);
+    total.retained += Number(retainedEntry?.amount || 0);
+    total.retainedAs = total.retainedAs || (retainedEntry?.kind as Settlement['retainedAs']) || null;
+    total.refundIssued = total.refundIssued && !refundPending;
+    if (refundPending) continue;
+
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .update({
+        status: refunded <= 0 ? 'succeeded' : refunded >= Number(payment.amount) ? 'refunded' : 'partially_refunded',
+        refunded_amount: refunded,
+        retained_amount: Number(retainedEntry?.amount || 0),
+      })
+      .eq('id', payment.id);
+    if (paymentError) throw paymentError;
+  }
+
+  if (total.refundIssued) {
+    const prepaymentStatus = total.refund <= 0 ? 'forfeited' : total.retained > 0 ? 'partially_refunded' : 'refunded';
+    const { error: statusError } = await supabaseAdmin
+      .from('appointments')
+      .update({ prepayment_status: prepaymentStatus })
+      .in('id', ids);
+    if (statusError) throw statusError;
+  }
+  return total;
+}
+
+// The salon sent back by hand what the ledger says it owes (PIX devoluções); settling again
+// then updates the payment and the visit like a provider refund would
+export async function completeManualRefund(paymentId: string, userId: string) {
+  const { data: payment } = await supabaseAdmin
+    .from('payments')
+    .select('id, appointment_id, salons(owner_id)')
+    .eq('id', paymentId)
+    .single<Pick<Payment, 'id' | 'appointment_id'> & { salons: Pick<Salon, 'owner_id'> | null }>();
+  if (!payment) throw new HttpError(404, 'Pagamento não encontrado');
+  if (payment.salons?.owner_id !== userId) throw new HttpError(403, 'Sem permissão para alterar este pagamento');
+
+  const { data: completed, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .update({ status: 'succeeded', completed_by: userId, updated_at: new Date().toISOString() })
+    .eq('payment_id', payment.id)
+    .eq('kind', 'refund')
+    .eq('status', 'manual')
+    .select();
+  if (error) throw error;
+  if (!completed?.length) throw new HttpError(409, 'Não há devolução pendente para este pagamento', 'no_manual_refund');
+
+  if (completed.some(entry => entry.reason === DUPLICATE_PAYMENT)) return refundDuplicatePayment(payment.id);
+  return settleCancellation(payment.appointment_id);
+}
+
+// A visit paid twice keeps its first payment and gets every later one back in full, whatever
+// happens to the visit. Shares the refund key of settleCancellation, so the money moves only once.
+export async function refundDuplicatePayment(paymentId: string): Promise<CancellationSettlement> {
+  const { data: payment, error } = await supabaseAdmin.from('payments').select('*').eq('id', paymentId).single();
+  if (error) throw error;
+
+  const { error: ledgerError } = await supabaseAdmin.from('payment_ledger').upsert(
+    {
+      payment_id: payment.id,
+      appointment_id: payment.appointment_id,
+      kind: 'refund',
+      amount: payment.amount,
+      idempotency_key: `refund:${payment.id}`,
+      reason: DUPLICATE_PAYMENT,
+    },
+    { onConflict: 'idempotency_key', ignoreDuplicates: true }
+  );
+  if (ledgerError) throw ledgerError;
+
+  const { data: ledger, error: readError } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .eq('payment_id', payment.id)
+    .eq('kind', 'refund');
+  if (readError) throw readError;
+  const entries = await retryRefunds((ledger || []) as PaymentLedgerEntry[], payment);
+  const refundIssued = entries.every(entry => entry.status === 'succeeded');
+
+  if (refundIssued) {
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .update({ status: 'refunded', refunded_amount: payment.amount, retained_amount: 0 })
+      .eq('id', payment.id);
+    if (paymentError) throw paymentError;
+  }
+  return { refund: Number(payment.amount), retained: 0, retainedAs: null, refundIssued };
+}
+
+// Catches cancellations made outside the cancel route and retries refunds the provider turned down
+export async function settleCancelledPrepayments() {
+  const { data, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, group_id')
+    .eq('status', 'cancelled')
+    .eq('prepayment_status', 'paid');
+  if (error) throw error;
+
+  const seen = new Set<string>();
+  for (const apt of data || []) {
+    const key = apt.group_id || apt.id;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    await settleCancellation(apt.id).catch(error => console.error(`Error settling cancelled visit ${key}:`, error));
+  }
+
+  const { data: duplicates, error: duplicatesError } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('payment_id')
+    .eq('reason', DUPLICATE_PAYMENT)
+    .in('status', ['pending', 'failed'])
+    .lt('attempts', MAX_REFUND_ATTEMPTS);
+  if (duplicatesError) throw duplicatesError;
+  for (const { payment_id } of duplicates || []) {
+    await refundDuplicatePayment(payment_id).catch(error => console.error(`Error refunding duplicate payment ${payment_id}:`, error));
+  }
+}
+
+export function startRefundSweeper() {
+  const run = () => settleCancelledPrepayments().catch(error => console.error('Error settling cancelled prepayments:', error));
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS);
+}
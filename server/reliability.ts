@@ -0,0 +1,63 @@
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import {
+  ClientReliability,
+  NoShowAction,
+  ReliabilityRules,
+  isLateCancel,
+  reliabilityAction,
+  reliabilityMessage,
+  reliabilityScore,
+  rulesOf,
+  visitCount,
+} from '../src/lib/reliability';
+import { Appointment } from '../src/types';
+
+interface CancellationEventRow {
+  created_at: string;
+  appointments: Pick<Appointment, 'group_id' | 'start_time'>;
+}
+
+// Counts a client's finished, missed and late-cancelled visits at one salon
+export async function loadClientReliability(salonId: string, clientId: string, rules: ReliabilityRules): Promise<ClientReliability> {
+  const { data: finished, error } = await supabaseAdmin
+    .from('appointments')
+    .select('status, group_id, start_time')
+    .eq('salon_id', salonId)
+    .eq('client_id', clientId)
+    .in('status', ['completed', 'no_show'])
+    .overrideTypes<Pick<Appointment, 'status' | 'group_id' | 'start_time'>[], { merge: false }>();
+  if (error) throw error;
+
+  // Only cancellations made by the client themself count against them
+  const { data: cancellations, error: eventsError } = await supabaseAdmin
+    .from('appointment_events')
+    .select('created_at, appointments!inner(group_id, start_time, salon_id, client_id)')
+    .eq('to_status', 'cancelled')
+    .eq('actor_id', clientId)
+    .eq('appointments.salon_id', salonId)
+    .eq('appointments.client_id', clientId)
+    .overrideTypes<CancellationEventRow[], { merge: false }>();
+  if (eventsError) throw eventsError;
+
+  // Counted per visit, so missing a three-service visit is one no-show, not three
+  const completed = visitCount((finished || []).filter(apt => apt.status === 'completed'));
+  const noShows = visitCount((finished || []).filter(apt => apt.status === 'no_show'));
+  const lateCancels = visitCount((cancellations || [])
+    .filter(event => isLateCancel(event.appointments.start_time, event.created_at, rules))
+    .map(event => event.appointments));
+
+  return { completed, noShows, lateCancels, score: reliabilityScore(completed, noShows, lateCancels) };
+}
+
+// Applies the salon's no-show rule to a client's own booking: throws when blocked, otherwise returns the flag to store
+export async function reliabilityFlag(
+  salon: { id: string; no_show_limit?: number | null; no_show_action?: NoShowAction; late_cancel_hours?: number },
+  clientId: string
+) {
+  const rules = rulesOf(salon);
+  if (rules.noShowLimit === null) return null;
+  const action = reliabilityAction(rules, await loadClientReliability(salon.id, clientId, rules));
+  if (action === 'block') throw new HttpError(403, reliabilityMessage(action)!, 'reliability_blocked');
+  return action;
+}
@@ -0,0 +1,147 @@
+import { supabaseAdmin } from './supabase';
+import { ChannelMessage, DeliverySkipped, NotificationChannel, UTC_OFFSET, acceptedBy, channelsFor, getChannel } from './channels';
+import { completeJob, dueJobs, enqueue, retryJob } from './queue';
+import { ReminderAudience, dueReminders, reminderMessage } from '../src/lib/reminders';
+
+// Urgent reminders repeat every 90 seconds, so the sweep runs more often than the other schedulers
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const MAX_ATTEMPTS = 5;
+
+async function markDelivery(id: string, changes: Record<string, unknown>) {
+  const { error } = await supabaseAdmin.from('reminder_deliveries').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+// Records the reminders due for upcoming confirmed appointments and queues the new ones
+export async function scheduleReminders(now = new Date()) {
+  const { data: appointments, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, client_id, start_time, services(name), profiles(full_name), salons(owner_id)')
+    .eq('status', 'confirmed')
+    .gte('start_time', new Date(now.getTime() - 3600000).toISOString())
+    .lte('start_time', new Date(now.getTime() + 86400000).toISOString());
+  if (error) throw error;
+
+  const recipientChannels = new Map<string, NotificationChannel[]>();
+  const rows: Record<string, unknown>[] = [];
+  for (const apt of (appointments || []) as any[]) {
+    const recipients: [string, ReminderAudience][] = [[apt.client_id, 'client']];
+    if (apt.salons?.owner_id) recipients.push([apt.salons.owner_id, 'salon']);
+
+    for (const [recipientId, audience] of recipients) {
+      const due = dueReminders(apt, audience, now, UTC_OFFSET);
+      if (due.length === 0) continue;
+      if (!recipientChannels.has(recipientId)) {
+        recipientChannels.set(recipientId, await channelsFor(recipientId));
+      }
+      for (const reminder of due) {
+        const { title, body } = reminderMessage(reminder.kind, audience, apt, now, UTC_OFFSET);
+        for (const channel of recipientChannels.get(recipientId)!) {
+          if (!acceptedBy(channel, reminder.kind, audience)) continue;
+          rows.push({
+            appointment_id: apt.id,
+            recipient_id: recipientId,
+            audience,
+            kind: reminder.kind,
+            dedupe_key: reminder.key,
+            channel: channel.name,
+            title,
+            body,
+          });
+        }
+      }
+    }
+  }
+  await recordDeliveries(rows);
+}
+
+// Only rows that did not exist yet come back, so each delivery is queued once
+export async function recordDeliveries(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) return;
+  const { data: created, error } = await supabaseAdmin
+    .from('reminder_deliveries')
+    .upsert(rows, { onConflict: 'appointment_id,recipient_id,channel,dedupe_key', ignoreDuplicates: true })
+    .select('*, appointments(start_time)');
+  if (error) throw error;
+  for (const delivery of created || []) queueDelivery(delivery);
+}
+
+function queueDelivery(delivery: any) {
+  const message: ChannelMessage = {
+    deliveryId: delivery.id,
+    recipientId: delivery.recipient_id,
+    appointmentId: delivery.appointment_id,
+    kind: delivery.kind,
+    audience: delivery.audience,
+    title: delivery.title,
+    body: delivery.body,
+    startTime: delivery.appointments?.start_time,
+  };
+  enqueue(delivery.id, delivery.channel, message, delivery.attempts || 0);
+}
+
+// Jobs lost with the local queue (e.g. a restart with the in-memory queue) are rebuilt from the table
+export async function requeueDeliveries() {
+  const { data, error } = await supabaseAdmin
+    .from('reminder_deliveries')
+    .select('*, appointments(start_time)')
+    .eq('status', 'queued');
+  if (error) throw error;
+  for (const delivery of data || []) queueDelivery(delivery);
+}
+
+export async function dispatchDeliveries(now = Date.now()) {
+  for (const job of dueJobs<ChannelMessage>(now)) {
+    const message = job.payload;
+    // A reminder for a visit that already started is no longer useful
+    if (['day', '30min', 'urgent'].includes(message.kind) && Date.parse(message.startTime) <= now) {
+      await markDelivery(job.deliveryId, { status: 'failed', last_error: 'Horário já passou' });
+      completeJob(job.id);
+      continue;
+    }
+
+    const attempts = job.attempts + 1;
+    try {
+      const channel = getChannel(job.channel);
+      if (!channel) throw new Error(`Canal desconhecido: ${job.channel}`);
+      await channel.send(message);
+      await markDelivery(job.deliveryId, { status: 'sent', attempts, sent_at: new Date(now).toISOString(), last_error: null });
+      completeJob(job.id);
+    } catch (error: any) {
+      if (error instanceof DeliverySkipped) {
+        await markDelivery(job.deliveryId, { status: 'skipped', attempts, last_error: error.message });
+        completeJob(job.id);
+        continue;
+      }
+      const failed = attempts >= MAX_ATTEMPTS;
+      await markDelivery(job.deliveryId, {
+        status: failed ? 'failed' : 'queued',
+        attempts,
+        last_error: error?.message || String(error),
+      });
+      // Backs off 1, 2, 4, 8 minutes between attempts
+      if (failed) completeJob(job.id);
+      else retryJob(job.id, attempts, now + 2 ** (attempts - 1) * 60000);
+    }
+  }
+}
+
+export function startReminderScheduler() {
+  let running = false;
+  const run = async () => {
+    if (running) return; // a slow sweep must not overlap the next one
+    running = true;
+    try {
+      await scheduleReminders();
+      await dispatchDeliveries();
+    } catch (error) {
+      console.error('Error sending reminders:', error);
+    } finally {
+      running = false;
+    }
+  };
+  requeueDeliveries()
+    .catch(error => console.error('Error requeueing reminder deliveries:', error))
+    .finally(run);
+  setInterval(run, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { sendEmail } from '../email';
+import { platformMessageEmail } from '../emailTemplates';
+
+export const adminRouter = Router();
+
+async function requireSuperAdmin(userId: string) {
+  const { data: sender } = await supabaseAdmin.from('profiles').select('role').eq('id', userId).single();
+  if (sender?.role !== 'super_admin') throw new HttpError(403, 'Apenas a administração da plataforma pode fazer isso');
+}
+
+// Platform team writing to a salon owner from the SuperAdminDashboard
+adminRouter.post('/admin/salons/:id/email', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const subject = String(req.body?.subject || '').trim();
+  const message = String(req.body?.message || '').trim();
+
+  try {
+    await requireSuperAdmin(user.id);
+    if (!subject || !message) throw new HttpError(400, 'Informe o assunto e a mensagem');
+
+    const { data: salon } = await supabaseAdmin
+      .from('salons')
+      .select('id, profiles(full_name, email)')
+      .eq('id', req.params.id)
+      .single();
+    if (!salon) throw new HttpError(404, 'Salão não encontrado');
+    const owner = salon.profiles as any;
+    if (!owner?.email) throw new HttpError(422, 'O responsável pelo salão não tem e-mail cadastrado');
+
+    await sendEmail({ to: owner.email, ...platformMessageEmail(owner.full_name || 'parceiro', subject, message) });
+    res.status(201).json({ to: owner.email });
+  } catch (error) {
+    sendError(res, error, 'Erro ao enviar e-mail');
+  }
+});
+
+// Switching a salon on by hand also lifts a billing suspension; the enforcer suspends it again if still unpaid
+adminRouter.post('/admin/salons/:id/active', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const isActive = req.body?.is_active;
+
+  try {
+    await requireSuperAdmin(user.id);
+    if (typeof isActive !== 'boolean') throw new HttpError(400, 'Informe se o salão fica ativo');
+
+    const { data, error } = await supabaseAdmin
+      .from('salons')
+      .update({ is_active: isActive, billing_suspended_at: null })
+      .eq('id', req.params.id)
+      .select('id, is_active')
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new HttpError(404, 'Salão não encontrado');
+    res.json(data);
+  } catch (error) {
+    sendError(res, error, 'Erro ao alterar status do salão');
+  }
+});
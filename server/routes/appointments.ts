@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { SALON_UTC_OFFSET, loadAvailabilityRequest, parseIdList } from '../availability';
+import { bookVisit, buildPicker, planSteps, slotConflict, unavailableMessage } from '../booking';
+import { checkSlot, dayStart, toLocal } from '../../src/lib/availability';
+import { changeBlockedReason, policyOf } from '../../src/lib/policy';
+import { canTransition, transitionError } from '../../src/lib/status';
+import { setAppointmentStatus } from '../status';
+import { settleCancellation } from '../refunds';
+
+export const appointmentsRouter = Router();
+
+appointmentsRouter.post('/appointments', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const { salon_id, service_id, service_ids, professional_id, start_time, client_id, notes } = req.body || {};
+  const serviceIds = parseIdList(service_ids || service_id);
+  const utcOffset = SALON_UTC_OFFSET;
+  const start = new Date(start_time);
+
+  if (!salon_id || serviceIds.length === 0 || !start_time || Number.isNaN(start.getTime())) {
+    return res.status(400).json({ error: 'Dados do agendamento incompletos' });
+  }
+
+  try {
+    const { groupId, appointments } = await bookVisit({
+      userId: user.id,
+      salonId: salon_id,
+      serviceIds,
+      professionalId: professional_id,
+      start,
+      utcOffset,
+      clientId: client_id,
+      notes,
+    });
+
+    // Single bookings keep returning the appointment itself
+    res.status(201).json(groupId ? { group_id: groupId, appointments } : appointments[0]);
+  } catch (error) {
+    sendError(res, error, 'Erro ao criar agendamento');
+  }
+});
+
+// Moves a booking (or its whole multi-service visit) to a new start, keeping the previous times as history
+appointmentsRouter.post('/appointments/:id/reschedule', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const { start_time } = req.body || {};
+  const utcOffset = SALON_UTC_OFFSET;
+  const start = new Date(start_time);
+
+  if (!start_time || Number.isNaN(start.getTime())) {
+    return res.status(400).json({ error: 'Informe o novo horário do agendamento' });
+  }
+
+  try {
+    const { data: target } = await supabaseAdmin
+      .from('appointments')
+      .select('id, client_id, salon_id, group_id, status, start_time, salons(owner_id, cancel_notice_hours)')
+      .eq('id', req.params.id)
+      .single();
+    if (!target) throw new HttpError(404, 'Agendamento não encontrado');
+
+    const isOwner = (target.salons as any)?.owner_id === user.id;
+    if (target.client_id !== user.id && !isOwner) throw new HttpError(403, 'Sem permissão para remarcar este agendamento');
+    if (target.status !== 'pending' && target.status !== 'confirmed') {
+      throw new HttpError(409, 'Só é possível remarcar agendamentos pendentes ou confirmados.');
+    }
+    const blocked = !isOwner && changeBlockedReason(policyOf(target.salons as any), target);
+    if (blocked) throw new HttpError(409, blocked, 'policy_blocked');
+
+    let visitQuery = supabaseAdmin
+      .from('appointments')
+      .select('id, service_id, professional_id')
+      .neq('status', 'cancelled')
+      .order('start_time', { ascending: true });
+    visitQuery = target.group_id ? visitQuery.eq('group_id', target.group_id) : visitQuery.eq('id', target.id);
+    const { data: visit, error: visitError } = await visitQuery;
+    if (visitError) throw visitError;
+
+    // Keep the professional when the whole visit is with the same one, otherwise let the salon strategy decide
+    const assigned = Array.from(new Set((visit || []).map(apt => apt.professional_id)));
+    const professionalId = assigned.length === 1 ? assigned[0] : null;
+
+    const { date, minutes } = toLocal(start, utcOffset);
+    const { salon, services, professionals, policy, request } = await loadAvailabilityRequest({
+      salonId: target.salon_id,
+      serviceIds: (visit || []).map(apt => apt.service_id),
+      professionalId,
+      date,
+      utcOffset,
+      excludeAppointmentIds: (visit || []).map(apt => apt.id),
+      clientId: target.client_id,
+    });
+
+    const pick = await buildPicker(salon, services, professionals, request);
+    const check = checkSlot(request, minutes, pick);
+    if (!check.available && (!isOwner || check.reason === 'busy')) {
+      throw slotConflict(request, minutes, unavailableMessage(check.reason, policy));
+    }
+
+    const steps = planSteps(check, services.map(service => service.duration), minutes, professionalId);
+    const base = dayStart(request.date, request.utcOffset);
+
+    // Single transaction: history rows plus the move; clients' changes go back to the salon for confirmation
+    const { data, error } = await supabaseAdmin.rpc('reschedule_appointments', {
+      moves: (visit || []).map((apt, i) => ({
+        id: apt.id,
+        start_time: new Date(base + steps[i].start * 60000).toISOString(),
+        end_time: new Date(base + steps[i].end * 60000).toISOString(),
+        professional_id: steps[i].professional_id,
+      })),
+      actor: user.id,
+      new_status: isOwner ? null : 'pending',
+    });
+
+    if (error?.code === '23P01') {
+      throw slotConflict(request, minutes, 'Este horário acabou de ser reservado por outra pessoa.');
+    }
+    if (error) throw error;
+
+    res.json({ group_id: target.group_id, appointments: data });
+  } catch (error) {
+    sendError(res, error, 'Erro ao remarcar agendamento');
+  }
+});
+
+// Cancels a booking together with the rest of its visit, enforcing the salon's notice for clients,
+// and refunds what was paid online as the salon's cancellation rules say
+appointmentsRouter.post('/appointments/:id/cancel', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const { data: target } = await supabaseAdmin
+      .from('appointments')
+      .select('id, client_id, group_id, status, start_time, salons(owner_id, cancel_notice_hours)')
+      .eq('id', req.params.id)
+      .single();
+    if (!target) throw new HttpError(404, 'Agendamento não encontrado');
+
+    const isOwner = (target.salons as any)?.owner_id === user.id;
+    if (target.client_id !== user.id && !isOwner) throw new HttpError(403, 'Sem permissão para cancelar este agendamento');
+    if (target.status === 'cancelled' || !canTransition(target.status, 'cancelled')) {
+      throw new HttpError(409, transitionError(target.status, 'cancelled'), 'invalid_transition');
+    }
+    const blocked = !isOwner && changeBlockedReason(policyOf(target.salons as any), target);
+    if (blocked) throw new HttpError(409, blocked, 'policy_blocked');
+
+    let query = supabaseAdmin.from('appointments').select('id');
+    query = target.group_id ? query.eq('group_id', target.group_id) : query.eq('id', target.id);
+    const { data: visit, error } = await query.in('status', ['pending', 'confirmed']);
+    if (error) throw error;
+
+    const cancelled = await setAppointmentStatus((visit || []).map(apt => apt.id), 'cancelled', user.id);
+    // The cancellation stands even if the refund fails; the refund sweeper tries again
+    const settlement = await settleCancellation(target.id)
+      .catch(error => { console.error('Error settling cancellation:', error); return null; });
+    res.json({ group_id: target.group_id, appointments: cancelled, settlement });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cancelar agendamento');
+  }
+});
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { computeAvailability } from '../../src/lib/availability';
+import { SALON_UTC_OFFSET, loadAvailabilityRequest, parseIdList } from '../availability';
+import { sendError } from '../errors';
+
+export const availabilityRouter = Router();
+
+availabilityRouter.get('/salons/:id/availability', async (req, res) => {
+  const serviceIds = parseIdList(req.query.service);
+  const date = req.query.date as string | undefined;
+  const utcOffset = SALON_UTC_OFFSET;
+
+  if (serviceIds.length === 0 || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'Parâmetros inválidos: informe service e date (yyyy-MM-dd).' });
+  }
+
+  try {
+    const { request } = await loadAvailabilityRequest({
+      salonId: req.params.id,
+      serviceIds,
+      professionalId: req.query.professional as string | undefined,
+      date,
+      utcOffset,
+      // The client's own visit while rescheduling it
+      excludeAppointmentIds: parseIdList(req.query.exclude),
+    });
+
+    res.json({ date, duration: request.duration, utc_offset: utcOffset, slots: computeAvailability(request) });
+  } catch (error) {
+    sendError(res, error, 'Erro ao calcular disponibilidade');
+  }
+});
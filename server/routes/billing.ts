@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { createPortalSession, createSubscriptionCheckout, handleBillingEvent, parseBillingWebhook } from '../billing';
+
+export const billingRouter = Router();
+
+async function ownedSalonId(userId: string) {
+  const { data: salon } = await supabaseAdmin.from('salons').select('id').eq('owner_id', userId).maybeSingle();
+  if (!salon) throw new HttpError(404, 'Cadastre seu salão primeiro nas configurações');
+  return salon.id as string;
+}
+
+billingRouter.post('/billing/checkout', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const salonId = await ownedSalonId(user.id);
+    res.status(201).json(await createSubscriptionCheckout(salonId, req.body?.plan));
+  } catch (error) {
+    sendError(res, error, 'Erro ao iniciar a assinatura');
+  }
+});
+
+billingRouter.post('/billing/portal', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const salonId = await ownedSalonId(user.id);
+    res.status(201).json(await createPortalSession(salonId));
+  } catch (error) {
+    sendError(res, error, 'Erro ao abrir o portal de assinatura');
+  }
+});
+
+// Subscription events from Stripe; point a separate endpoint from the booking payments at this one
+billingRouter.post('/billing/webhook', async (req, res) => {
+  try {
+    const event = parseBillingWebhook(req.rawBody || Buffer.from(''), req.headers['stripe-signature'] as string | undefined);
+    await handleBillingEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao processar evento de assinatura');
+  }
+});
@@ -0,0 +1,238 @@
+import { Router } from 'express';
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { APP_URL, applyPaymentEvent, fakeSession, paymentGateway, usesFakeGateway } from '../payments';
+import { applyPixNotifications, markPixPaid, pixProvider } from '../pix';
+import { completeManualRefund } from '../refunds';
+import { PrepaymentService, formatBRL, prepaymentFor } from '../../src/lib/payments';
+import { Appointment, Salon, Service } from '../../src/types';
+
+export const paymentsRouter = Router();
+
+type AwaitingVisitRow = Pick<Appointment, 'id' | 'salon_id' | 'status' | 'prepayment_status' | 'reliability_flag' | 'start_time'> & {
+  services: PrepaymentService & Pick<Service, 'name'>;
+  salons: Pick<Salon, 'name' | 'city' | 'pix_key'> | null;
+};
+
+// The visit of a client's booking that is waiting for its online payment, and what it owes.
+// The amount is always computed here. Only the newest payment of a visit stays open.
+async function openPayment(appointmentId: string | undefined, userId: string, provider: string) {
+  if (!appointmentId) throw new HttpError(400, 'Informe o agendamento');
+  const { data: target } = await supabaseAdmin
+    .from('appointments')
+    .select('id, group_id, client_id')
+    .eq('id', appointmentId)
+    .single<Pick<Appointment, 'id' | 'group_id' | 'client_id'>>();
+  if (!target || target.client_id !== userId) throw new HttpError(404, 'Agendamento não encontrado');
+
+  let query = supabaseAdmin
+    .from('appointments')
+    .select('id, salon_id, status, prepayment_status, reliability_flag, start_time, services(name, price, prepayment_type, deposit_percent), salons(name, city, pix_key)')
+    .order('start_time', { ascending: true });
+  query = target.group_id ? query.eq('group_id', target.group_id) : query.eq('id', target.id);
+  const { data: visit, error } = await query.overrideTypes<AwaitingVisitRow[], { merge: false }>();
+  if (error) throw error;
+
+  const first = visit?.[0];
+  if (!first || first.status !== 'pending' || first.prepayment_status !== 'awaiting') {
+    throw new HttpError(409, 'Este agendamento não está aguardando pagamento', 'not_awaiting_payment');
+  }
+  const services = visit.map(apt => apt.services);
+  const prepayment = prepaymentFor(services, visit.some(apt => apt.reliability_flag === 'require_prepayment'));
+  if (!prepayment) throw new HttpError(409, 'Este agendamento não exige pagamento antecipado', 'not_awaiting_payment');
+  const salon = first.salons;
+  if (provider === 'pix' && !salon?.pix_key) throw new HttpError(409, 'Este salão não recebe por PIX', 'pix_unavailable');
+
+  const ids = visit.map(apt => apt.id);
+  const { data: open, error: openError } = await supabaseAdmin
+    .from('payments')
+    .select('id, provider, provider_session_id')
+    .in('appointment_id', ids)
+    .eq('status', 'pending');
+  if (openError) throw openError;
+  for (const old of open || []) {
+    // A PIX code cannot be withdrawn; if it is paid anyway, the duplicate is refunded
+    if (old.provider === 'pix' || !old.provider_session_id) continue;
+    if (!(await paymentGateway().expireCheckout(old.provider_session_id))) {
+      throw new HttpError(409, 'O pagamento deste agendamento já está sendo processado', 'payment_in_progress');
+    }
+  }
+  const { error: expireError } = await supabaseAdmin
+    .from('payments')
+    .update({ status: 'expired' })
+    .in('appointment_id', ids)
+    .eq('status', 'pending');
+  if (expireError) throw expireError;
+
+  const { data: payment, error: insertError } = await supabaseAdmin
+    .from('payments')
+    .insert({
+      appointment_id: first.id,
+      group_id: target.group_id,
+      salon_id: first.salon_id,
+      client_id: userId,
+      amount: prepayment.amount,
+      kind: prepayment.kind,
+      provider,
+    })
+    .select()
+    .single();
+  if (insertError) throw insertError;
+
+  const description = `${prepayment.kind === 'deposit' ? 'Sinal - ' : ''}${services.map(service => service.name).join(' + ')}`;
+  return { payment, prepayment, salon, description };
+}
+
+// Starts (or restarts) the card payment of a visit through the payment gateway
+paymentsRouter.post('/payments/checkout', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const gateway = paymentGateway();
+    const { payment, prepayment, salon, description } = await openPayment(req.body?.appointment_id, user.id, gateway.name);
+    const salonName = salon?.name || 'GlowSchedule';
+    let session;
+    try {
+      session = await gateway.createCheckout({
+        paymentId: payment.id,
+        amount: prepayment.amount,
+        description: `${description} (${salonName})`,
+        customerEmail: user.email,
+        successUrl: `${APP_URL}/?payment=success`,
+        cancelUrl: `${APP_URL}/?payment=cancelled`,
+      });
+    } catch (checkoutError) {
+      await supabaseAdmin.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+      throw checkoutError;
+    }
+
+    const { error: sessionError } = await supabaseAdmin
+      .from('payments')
+      .update({ provider_session_id: session.sessionId, expires_at: session.expiresAt.toISOString() })
+      .eq('id', payment.id);
+    if (sessionError) throw sessionError;
+
+    res.status(201).json({ payment_id: payment.id, amount: prepayment.amount, url: session.url });
+  } catch (error) {
+    sendError(res, error, 'Erro ao iniciar o pagamento');
+  }
+});
+
+// PIX charge of a visit: a BR Code paid straight into the salon's account
+paymentsRouter.post('/payments/pix', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const { payment, prepayment, salon, description } = await openPayment(req.body?.appointment_id, user.id, 'pix');
+    let charge;
+    try {
+      charge = await pixProvider.createCharge({
+        paymentId: payment.id,
+        amount: prepayment.amount,
+        key: salon!.pix_key!, // openPayment refuses salons without a key
+        merchantName: salon!.name,
+        merchantCity: salon!.city || '',
+        description,
+      });
+    } catch (chargeError) {
+      await supabaseAdmin.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+      throw chargeError;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('payments')
+      .update({ provider_session_id: charge.txid, pix_payload: charge.payload, expires_at: charge.expiresAt.toISOString() })
+      .eq('id', payment.id);
+    if (error) throw error;
+
+    res.status(201).json({ payment_id: payment.id, amount: prepayment.amount, payload: charge.payload, expires_at: charge.expiresAt });
+  } catch (error) {
+    sendError(res, error, 'Erro ao gerar o PIX');
+  }
+});
+
+// Received PIX from the salon's bank; API Pix appends /pix to the registered URL
+paymentsRouter.post(['/payments/pix/webhook', '/payments/pix/webhook/pix'], async (req, res) => {
+  try {
+    const secret = (req.headers['x-webhook-secret'] as string | undefined) || (req.query.secret as string | undefined);
+    await applyPixNotifications(pixProvider.parseWebhook(req.rawBody || Buffer.from(''), secret));
+    res.json({ received: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao processar notificação PIX');
+  }
+});
+
+// The salon confirms by hand a PIX it received
+paymentsRouter.post('/payments/:id/mark-paid', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    await markPixPaid(req.params.id, user.id);
+    res.json({ ok: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao confirmar o pagamento');
+  }
+});
+
+// The salon sent a PIX back to the client from its bank app
+paymentsRouter.post('/payments/:id/refund-done', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const settlement = await completeManualRefund(req.params.id, user.id);
+    res.json({ settlement });
+  } catch (error) {
+    sendError(res, error, 'Erro ao registrar a devolução');
+  }
+});
+
+// Provider notifications; the signature is checked against the raw body captured in server.ts
+paymentsRouter.post('/payments/webhook', async (req, res) => {
+  try {
+    const event = paymentGateway().parseWebhook(req.rawBody || Buffer.from(''), req.headers['stripe-signature'] as string | undefined);
+    if (event) await applyPaymentEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao processar notificação de pagamento');
+  }
+});
+
+// Local checkout page of the fake gateway, so the whole flow can be exercised without Stripe
+paymentsRouter.get('/payments/fake-checkout/:sessionId', (req, res) => {
+  const session = usesFakeGateway() ? fakeSession(req.params.sessionId) : undefined;
+  if (!session) return res.status(404).send('Sessão de pagamento não encontrada');
+
+  const action = `/api/payments/fake-checkout/${encodeURIComponent(req.params.sessionId)}`;
+  res.send(`<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Pagamento de teste</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 48px auto; padding: 0 16px; color: #292524;">
+  <h1 style="font-size: 20px;">Pagamento de teste</h1>
+  <p>${session.description.replace(/[<>&"]/g, '')}</p>
+  <p style="font-size: 28px; font-weight: bold;">${formatBRL(session.amount)}</p>
+  <form method="post" action="${action}/pay"><button style="width: 100%; padding: 12px; margin-bottom: 8px;">Pagar</button></form>
+  <form method="post" action="${action}/cancel"><button style="width: 100%; padding: 12px;">Voltar sem pagar</button></form>
+</body>
+</html>`);
+});
+
+paymentsRouter.post('/payments/fake-checkout/:sessionId/pay', async (req, res) => {
+  const session = usesFakeGateway() ? fakeSession(req.params.sessionId) : undefined;
+  if (!session) return res.status(404).send('Sessão de pagamento não encontrada');
+
+  try {
+    await applyPaymentEvent({ type: 'succeeded', sessionId: req.params.sessionId, providerPaymentId: `fake_pi_${randomUUID()}` });
+    res.redirect(303, session.successUrl);
+  } catch (error) {
+    sendError(res, error, 'Erro ao registrar pagamento');
+  }
+});
+
+// Like Stripe, leaving the page keeps the session open until it expires
+paymentsRouter.post('/payments/fake-checkout/:sessionId/cancel', (req, res) => {
+  const session = usesFakeGateway() ? fakeSession(req.params.sessionId) : undefined;
+  if (!session) return res.status(404).send('Sessão de pagamento não encontrada');
+  res.redirect(303, session.cancelUrl);
+});
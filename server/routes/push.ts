@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { vapidPublicKey } from '../push';
+
+export const pushRouter = Router();
+
+pushRouter.get('/push/public-key', (req, res) => {
+  res.json({ public_key: vapidPublicKey() });
+});
+
+// A device belongs to whoever subscribed from it last
+pushRouter.post('/push/subscriptions', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const subscription = req.body?.subscription;
+
+  try {
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new HttpError(400, 'Inscrição de notificação inválida');
+    }
+    const { data, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .upsert({
+        user_id: user.id,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: req.headers['user-agent'] || null,
+      }, { onConflict: 'endpoint' })
+      .select('id, endpoint, created_at')
+      .single();
+    if (error) throw error;
+    res.status(201).json(data);
+  } catch (error) {
+    sendError(res, error, 'Erro ao ativar notificações');
+  }
+});
+
+pushRouter.delete('/push/subscriptions', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    if (!req.body?.endpoint) throw new HttpError(400, 'Informe a inscrição a remover');
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('endpoint', req.body.endpoint);
+    if (error) throw error;
+    res.json({ endpoint: req.body.endpoint });
+  } catch (error) {
+    sendError(res, error, 'Erro ao desativar notificações');
+  }
+});
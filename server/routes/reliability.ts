@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { loadClientReliability } from '../reliability';
+import { reliabilityAction, rulesOf } from '../../src/lib/reliability';
+
+export const reliabilityRouter = Router();
+
+// No-show and late-cancel history of a client at a salon; clients only see their own
+reliabilityRouter.get('/salons/:id/reliability', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const clientId = (req.query.client as string | undefined) || user.id;
+
+  try {
+    const { data: salon } = await supabaseAdmin
+      .from('salons')
+      .select('id, owner_id, no_show_limit, no_show_action, late_cancel_hours')
+      .eq('id', req.params.id)
+      .single();
+    if (!salon) throw new HttpError(404, 'Salão não encontrado');
+    if (clientId !== user.id && salon.owner_id !== user.id) throw new HttpError(403, 'Sem permissão para ver este cliente');
+
+    const rules = rulesOf(salon);
+    const reliability = await loadClientReliability(salon.id, clientId, rules);
+    res.json({ ...reliability, action: reliabilityAction(rules, reliability) });
+  } catch (error) {
+    sendError(res, error, 'Erro ao carregar histórico do cliente');
+  }
+});
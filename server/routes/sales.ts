@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { requireUser } from '../auth';
+import { sendError } from '../errors';
+import { checkoutVisit, parseSaleInput } from '../sales';
+
+export const salesRouter = Router();
+
+// Point-of-sale checkout of a finished visit by the salon: items, discount, tip and payment methods
+salesRouter.post('/appointments/:id/checkout', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const result = await checkoutVisit(user.id, req.params.id, parseSaleInput(req.body));
+    res.status(201).json(result);
+  } catch (error) {
+    sendError(res, error, 'Erro ao fechar o atendimento');
+  }
+});
@@ -0,0 +1,299 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { SALON_UTC_OFFSET, loadAvailabilityRequest } from '../availability';
+import { bookVisit, buildPicker, planSteps, salonInactive, unavailableMessage } from '../booking';
+import { checkSlot, dayStart, toLocal } from '../../src/lib/availability';
+import { changeBlockedReason, policyOf } from '../../src/lib/policy';
+import { RecurrenceRule, occurrenceDates, validateRule } from '../../src/lib/recurrence';
+import { setAppointmentStatus } from '../status';
+import { reliabilityFlag } from '../reliability';
+import { prepaymentFor } from '../../src/lib/payments';
+
+export const seriesRouter = Router();
+
+interface OccurrenceParams {
+  salonId: string;
+  serviceId: string;
+  professionalId?: string | null;
+  start: Date;
+  utcOffset: number;
+  clientId: string;
+  isOwner: boolean;
+  excludeAppointmentIds?: string[];
+  first: boolean;
+}
+
+// Checks one occurrence the same way a single booking is checked; owners may step outside the hours.
+// Only the first occurrence has to fall within the booking horizon, or a weekly series would stop after a week.
+async function checkOccurrence({ salonId, serviceId, professionalId, start, utcOffset, clientId, isOwner, excludeAppointmentIds, first }: OccurrenceParams) {
+  const { date, minutes } = toLocal(start, utcOffset);
+  const { salon, services, professionals, policy, request } = await loadAvailabilityRequest({
+    salonId,
+    serviceIds: [serviceId],
+    professionalId,
+    date,
+    utcOffset,
+    excludeAppointmentIds,
+    clientId,
+    ignoreHorizon: !first,
+  });
+
+  const pick = await buildPicker(salon, services, professionals, request);
+  const check = checkSlot(request, minutes, pick);
+  const available = check.available || (isOwner && check.reason !== 'busy');
+  const [step] = planSteps(check, [services[0].duration], minutes, professionalId || null);
+  const base = dayStart(request.date, request.utcOffset);
+
+  return {
+    start_time: start.toISOString(),
+    available,
+    message: available ? null : unavailableMessage(check.reason, policy),
+    move: {
+      start_time: new Date(base + step.start * 60000).toISOString(),
+      end_time: new Date(base + step.end * 60000).toISOString(),
+      professional_id: step.professional_id,
+    },
+  };
+}
+
+async function loadSeries(id: string) {
+  const { data: series } = await supabaseAdmin
+    .from('appointment_series')
+    .select('*, salons(owner_id, cancel_notice_hours)')
+    .eq('id', id)
+    .single();
+  if (!series) throw new HttpError(404, 'Série não encontrada');
+  return series;
+}
+
+// Active occurrences from the given one onwards, or every upcoming one
+async function loadOccurrences(seriesId: string, fromAppointmentId?: string) {
+  let from = new Date().toISOString();
+  if (fromAppointmentId) {
+    const { data: target } = await supabaseAdmin
+      .from('appointments')
+      .select('start_time, series_id')
+      .eq('id', fromAppointmentId)
+      .single();
+    if (!target || target.series_id !== seriesId) throw new HttpError(404, 'Agendamento não encontrado nesta série');
+    from = target.start_time;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('appointments')
+    .select('id, client_id, service_id, professional_id, start_time, status')
+    .eq('series_id', seriesId)
+    .in('status', ['pending', 'confirmed'])
+    .gte('start_time', from)
+    .order('start_time', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+// Creates a recurring series; with dry_run only reports which occurrences are free
+seriesRouter.post('/appointment-series', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const { salon_id, service_id, professional_id, start_time, client_id, notes, frequency, count, until, dry_run } = req.body || {};
+  const utcOffset = SALON_UTC_OFFSET;
+  const start = new Date(start_time);
+  const rule: RecurrenceRule = { frequency, count: count ? Number(count) : null, until: until || null };
+
+  if (!salon_id || !service_id || !start_time || Number.isNaN(start.getTime())) {
+    return res.status(400).json({ error: 'Dados do agendamento incompletos' });
+  }
+  const invalid = validateRule(rule);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const { data: salon } = await supabaseAdmin
+      .from('salons')
+      .select('id, owner_id, no_show_limit, no_show_action, late_cancel_hours, is_active')
+      .eq('id', salon_id)
+      .single();
+    if (!salon) throw new HttpError(404, 'Salão não encontrado');
+    if (salon.is_active === false) throw salonInactive();
+    const isOwner = salon.owner_id === user.id;
+    const forClient = client_id || user.id;
+    if (forClient !== user.id && !isOwner) throw new HttpError(403, 'Sem permissão para agendar para outro cliente');
+    if (!isOwner) {
+      const flag = await reliabilityFlag(salon, forClient);
+      // Each occurrence would need its own checkout; prepaid services are booked one visit at a time
+      const { data: service } = await supabaseAdmin
+        .from('services')
+        .select('price, prepayment_type, deposit_percent')
+        .eq('id', service_id)
+        .single();
+      if (service && prepaymentFor([service], flag === 'require_prepayment')) {
+        throw new HttpError(422, 'Este serviço exige pagamento antecipado e não pode ser agendado de forma recorrente.', 'prepayment_required');
+      }
+    }
+
+    const { date, minutes } = toLocal(start, utcOffset);
+    const occurrences = [];
+    for (const [i, day] of occurrenceDates(date, rule).entries()) {
+      occurrences.push(await checkOccurrence({
+        salonId: salon_id,
+        serviceId: service_id,
+        professionalId: professional_id,
+        start: new Date(dayStart(day, utcOffset) + minutes * 60000),
+        utcOffset,
+        clientId: forClient,
+        isOwner,
+        first: i === 0,
+      }));
+    }
+
+    if (dry_run) {
+      return res.json({ occurrences: occurrences.map(({ move, ...occurrence }) => occurrence) });
+    }
+    if (!occurrences.some(occurrence => occurrence.available)) {
+      throw new HttpError(409, 'Nenhum dos horários da série está disponível.', 'series_conflict', { occurrences });
+    }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from('appointment_series')
+      .insert({
+        salon_id,
+        client_id: forClient,
+        service_id,
+        professional_id: professional_id || null,
+        frequency: rule.frequency,
+        start_time: start.toISOString(),
+        occurrences: rule.count,
+        until: rule.until,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    if (seriesError) throw seriesError;
+
+    // Occurrences are booked one by one; a conflict on one date does not block the others
+    const appointments = [];
+    const skipped = [];
+    for (const [i, occurrence] of occurrences.entries()) {
+      if (!occurrence.available) {
+        skipped.push({ start_time: occurrence.start_time, message: occurrence.message });
+        continue;
+      }
+      try {
+        const booked = await bookVisit({
+          userId: user.id,
+          salonId: salon_id,
+          serviceIds: [service_id],
+          professionalId: professional_id,
+          start: new Date(occurrence.start_time),
+          utcOffset,
+          clientId: forClient,
+          notes,
+          seriesId: series.id,
+          ignoreHorizon: i > 0,
+        });
+        appointments.push(...booked.appointments);
+      } catch (error: any) {
+        if (!(error instanceof HttpError)) throw error;
+        skipped.push({ start_time: occurrence.start_time, message: error.message });
+      }
+    }
+
+    res.status(201).json({ series, appointments, skipped });
+  } catch (error) {
+    sendError(res, error, 'Erro ao criar agendamento recorrente');
+  }
+});
+
+// Moves one occurrence and every later one by the same offset; all of them must fit or nothing moves
+seriesRouter.post('/appointment-series/:id/reschedule', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const { from_appointment_id, start_time } = req.body || {};
+  const utcOffset = SALON_UTC_OFFSET;
+  const start = new Date(start_time);
+
+  if (!from_appointment_id || !start_time || Number.isNaN(start.getTime())) {
+    return res.status(400).json({ error: 'Informe o novo horário do agendamento' });
+  }
+
+  try {
+    const series = await loadSeries(req.params.id);
+    const isOwner = (series.salons as any)?.owner_id === user.id;
+    if (series.client_id !== user.id && !isOwner) throw new HttpError(403, 'Sem permissão para remarcar esta série');
+
+    const occurrences = await loadOccurrences(series.id, from_appointment_id);
+    if (occurrences.length === 0 || occurrences[0].id !== from_appointment_id) {
+      throw new HttpError(409, 'Só é possível remarcar agendamentos pendentes ou confirmados.');
+    }
+    const policy = policyOf(series.salons as any);
+    const blocked = !isOwner && occurrences.map(apt => changeBlockedReason(policy, apt)).find(Boolean);
+    if (blocked) throw new HttpError(409, blocked, 'policy_blocked');
+
+    const offset = start.getTime() - Date.parse(occurrences[0].start_time);
+    const exclude = occurrences.map(apt => apt.id);
+    const checks = [];
+    for (const [i, apt] of occurrences.entries()) {
+      checks.push(await checkOccurrence({
+        salonId: series.salon_id,
+        serviceId: apt.service_id,
+        professionalId: apt.professional_id,
+        start: new Date(Date.parse(apt.start_time) + offset),
+        utcOffset,
+        clientId: series.client_id,
+        isOwner,
+        excludeAppointmentIds: exclude,
+        first: i === 0,
+      }));
+    }
+
+    const conflicts = checks.filter(check => !check.available).map(({ start_time, message }) => ({ start_time, message }));
+    if (conflicts.length > 0) {
+      throw new HttpError(409, 'Alguns horários da série não estão disponíveis.', 'series_conflict', { conflicts });
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('reschedule_appointments', {
+      moves: occurrences.map((apt, i) => ({ id: apt.id, ...checks[i].move })),
+      actor: user.id,
+      new_status: isOwner ? null : 'pending',
+    });
+    if (error?.code === '23P01') {
+      throw new HttpError(409, 'Um dos horários acabou de ser reservado por outra pessoa.', 'series_conflict', { conflicts: [] });
+    }
+    if (error) throw error;
+
+    res.json({ series_id: series.id, appointments: data });
+  } catch (error) {
+    sendError(res, error, 'Erro ao remarcar série');
+  }
+});
+
+// Cancels one occurrence onwards, or every upcoming one; clients skip those inside the notice period
+seriesRouter.post('/appointment-series/:id/cancel', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const { from_appointment_id } = req.body || {};
+
+  try {
+    const series = await loadSeries(req.params.id);
+    const isOwner = (series.salons as any)?.owner_id === user.id;
+    if (series.client_id !== user.id && !isOwner) throw new HttpError(403, 'Sem permissão para cancelar esta série');
+
+    const policy = policyOf(series.salons as any);
+    const occurrences = await loadOccurrences(series.id, from_appointment_id);
+    const skipped = isOwner ? [] : occurrences.filter(apt => changeBlockedReason(policy, apt));
+    const ids = occurrences.filter(apt => !skipped.includes(apt)).map(apt => apt.id);
+
+    const cancelled = await setAppointmentStatus(ids, 'cancelled', user.id);
+
+    // Nothing is left to happen: the series as a whole is over
+    if (!from_appointment_id && skipped.length === 0) {
+      const { error } = await supabaseAdmin.from('appointment_series').update({ status: 'cancelled' }).eq('id', series.id);
+      if (error) throw error;
+    }
+
+    res.json({
+      series_id: series.id,
+      appointments: cancelled,
+      skipped: skipped.map(apt => ({ id: apt.id, start_time: apt.start_time, message: changeBlockedReason(policy, apt) })),
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cancelar série');
+  }
+});
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { supabaseAdmin } from '../supabase';
+import { requireUser } from '../auth';
+import { HttpError, sendError } from '../errors';
+import { SALON_UTC_OFFSET } from '../availability';
+import { bookVisit } from '../booking';
+import { passOffer } from '../waitlist';
+
+export const waitlistRouter = Router();
+
+async function loadEntry(id: string) {
+  const { data: entry } = await supabaseAdmin
+    .from('waitlist_entries')
+    .select('*, salons(owner_id)')
+    .eq('id', id)
+    .single();
+  if (!entry) throw new HttpError(404, 'Entrada da lista de espera não encontrada');
+  return entry;
+}
+
+// Books the slot offered to a waitlisted client while the claim is still valid
+waitlistRouter.post('/waitlist/:id/claim', requireUser, async (req, res) => {
+  const user = res.locals.user;
+  const utcOffset = SALON_UTC_OFFSET;
+
+  try {
+    const entry = await loadEntry(req.params.id);
+    if (entry.client_id !== user.id) throw new HttpError(403, 'Esta oferta pertence a outro cliente');
+    if (entry.status !== 'offered' || Date.parse(entry.offer_expires_at) <= Date.now()) {
+      throw new HttpError(409, 'Esta oferta expirou ou já foi usada.', 'offer_expired');
+    }
+
+    const { appointments } = await bookVisit({
+      userId: user.id,
+      salonId: entry.salon_id,
+      serviceIds: [entry.service_id],
+      professionalId: entry.offered_professional_id || entry.professional_id,
+      start: new Date(entry.offered_start_time),
+      utcOffset,
+    });
+
+    await supabaseAdmin
+      .from('waitlist_entries')
+      .update({ status: 'booked', appointment_id: appointments[0].id })
+      .eq('id', entry.id);
+
+    res.status(201).json(appointments[0]);
+  } catch (error) {
+    sendError(res, error, 'Erro ao confirmar vaga da lista de espera');
+  }
+});
+
+// The client (or the salon, skipping someone) passes the offer to the next in line
+waitlistRouter.post('/waitlist/:id/decline', requireUser, async (req, res) => {
+  const user = res.locals.user;
+
+  try {
+    const entry = await loadEntry(req.params.id);
+    if (entry.client_id !== user.id && (entry.salons as any)?.owner_id !== user.id) {
+      throw new HttpError(403, 'Sem permissão para alterar esta entrada');
+    }
+    if (entry.status !== 'offered') throw new HttpError(409, 'Não há oferta ativa para esta entrada.');
+
+    const next = await passOffer(entry.id, 'declined');
+    res.json({ next_entry_id: next?.id || null });
+  } catch (error) {
+    sendError(res, error, 'Erro ao recusar oferta');
+  }
+});
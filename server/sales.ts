@@ -0,0 +1,115 @@
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { setAppointmentStatus } from './status';
+import { canTransition, transitionError } from '../src/lib/status';
+import { PAYMENT_METHODS, SaleInput, saleError, saleTotals } from '../src/lib/sales';
+import { Appointment, Salon } from '../src/types';
+
+const toCents = (value: unknown) => Math.round(Number(value) * 100) / 100;
+
+type CheckoutTargetRow = Pick<Appointment, 'id' | 'salon_id' | 'client_id' | 'group_id' | 'status'> & {
+  salons: Pick<Salon, 'owner_id'> | null;
+};
+
+// Keeps only the fields a checkout may set, with amounts in cents
+export function parseSaleInput(body: any): SaleInput {
+  return {
+    items: (Array.isArray(body?.items) ? body.items : []).map((item: any) => ({
+      kind: item?.kind === 'product' ? 'product' : 'service',
+      description: String(item?.description || '').trim(),
+      service_id: item?.service_id || null,
+      quantity: Math.floor(Number(item?.quantity)),
+      unit_price: toCents(item?.unit_price),
+    })),
+    discount: toCents(body?.discount || 0),
+    tip: toCents(body?.tip || 0),
+    payments: (Array.isArray(body?.payments) ? body.payments : []).map((payment: any) => ({
+      method: payment?.method in PAYMENT_METHODS ? payment.method : null,
+      amount: toCents(payment?.amount),
+    })),
+    notes: body?.notes ? String(body.notes).slice(0, 500) : undefined,
+  };
+}
+
+// Closes a visit at the counter: records what was charged and how, then marks it completed.
+// A visit is checked out once; the sale is removed again if completing it fails.
+export async function checkoutVisit(userId: string, appointmentId: string, input: SaleInput) {
+  const { data: target } = await supabaseAdmin
+    .from('appointments')
+    .select('id, salon_id, client_id, group_id, status, salons(owner_id)')
+    .eq('id', appointmentId)
+    .single<CheckoutTargetRow>();
+  if (!target) throw new HttpError(404, 'Agendamento não encontrado');
+  if (target.salons?.owner_id !== userId) throw new HttpError(403, 'Sem permissão para fechar este atendimento');
+  // A visit already marked completed can still be checked out afterwards
+  if (!canTransition(target.status, 'completed')) {
+    throw new HttpError(409, transitionError(target.status, 'completed'), 'invalid_transition');
+  }
+
+  const invalid = saleError(input);
+  if (invalid) throw new HttpError(400, invalid, 'invalid_sale');
+
+  let query = supabaseAdmin.from('appointments').select('id, status').order('start_time', { ascending: true });
+  query = target.group_id ? query.eq('group_id', target.group_id) : query.eq('id', target.id);
+  const { data: visit, error: visitError } = await query;
+  if (visitError) throw visitError;
+  const ids = (visit || []).map(apt => apt.id);
+
+  // "Pago online" can only account for money the salon actually kept from the prepayment
+  const online = toCents(input.payments.filter(p => p.method === 'online').reduce((sum, p) => sum + p.amount, 0));
+  if (online > 0) {
+    const { data: payments, error } = await supabaseAdmin
+      .from('payments')
+      .select('amount, refunded_amount')
+      .in('appointment_id', ids)
+      .in('status', ['succeeded', 'partially_refunded']);
+    if (error) throw error;
+    const kept = (payments || []).reduce((sum, p) => sum + Number(p.amount) - Number(p.refunded_amount || 0), 0);
+    if (online > toCents(kept)) throw new HttpError(400, 'O valor pago online é maior que o pagamento antecipado recebido', 'invalid_sale');
+  }
+
+  const { subtotal, total } = saleTotals(input);
+  const { data: sale, error: saleInsertError } = await supabaseAdmin
+    .from('sales')
+    .insert({
+      salon_id: target.salon_id,
+      appointment_id: ids[0],
+      group_id: target.group_id,
+      client_id: target.client_id,
+      subtotal,
+      discount: input.discount,
+      tip: input.tip,
+      total,
+      notes: input.notes || null,
+      created_by: userId,
+    })
+    .select()
+    .single();
+  if (saleInsertError?.code === '23505') throw new HttpError(409, 'Este atendimento já foi fechado no caixa', 'already_checked_out');
+  if (saleInsertError) throw saleInsertError;
+
+  try {
+    const { error: itemsError } = await supabaseAdmin.from('sale_items').insert(input.items.map(item => ({
+      sale_id: sale.id,
+      ...item,
+      total: toCents(item.quantity * item.unit_price),
+    })));
+    if (itemsError) throw itemsError;
+
+    const { error: paymentsError } = await supabaseAdmin.from('sale_payments').insert(input.payments.map(payment => ({
+      sale_id: sale.id,
+      ...payment,
+    })));
+    if (paymentsError) throw paymentsError;
+
+    const completed = await setAppointmentStatus(
+      (visit || []).filter(apt => apt.status === 'confirmed').map(apt => apt.id),
+      'completed',
+      userId
+    );
+    return { sale, appointments: completed };
+  } catch (error) {
+    await supabaseAdmin.from('sales').delete().eq('id', sale.id);
+    throw error;
+  }
+}
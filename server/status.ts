@@ -0,0 +1,13 @@
+import { supabaseAdmin } from './supabase';
+import { HttpError } from './errors';
+import { AppointmentStatus } from '../src/types';
+
+// Status changes made by the server go through the database so the event log records the actor
+export async function setAppointmentStatus(ids: string[], status: AppointmentStatus, actor: string | null) {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabaseAdmin.rpc('set_appointment_status', { ids, new_status: status, actor });
+  // 23514: the transition trigger rejected the change
+  if (error?.code === '23514') throw new HttpError(409, error.message, 'invalid_transition');
+  if (error) throw error;
+  return data || [];
+}
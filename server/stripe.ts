@@ -0,0 +1,12 @@
+import Stripe from 'stripe';
+
+// STRIPE_API_HOST/STRIPE_API_PORT point the client at stripe-mock for local runs
+export function stripeClient() {
+  return new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+    ...(process.env.STRIPE_API_HOST ? {
+      host: process.env.STRIPE_API_HOST,
+      port: Number(process.env.STRIPE_API_PORT || 12111),
+      protocol: 'http' as const,
+    } : {}),
+  });
+}
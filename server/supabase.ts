@@ -0,0 +1,15 @@
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.warn('Supabase service credentials missing. Please check your .env file.');
+}
+
+// Service-role client: bypasses RLS, so it must never be exposed to the browser
+export const supabaseAdmin = createClient(
+  supabaseUrl || 'https://placeholder.supabase.co',
+  serviceRoleKey || 'placeholder',
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
@@ -0,0 +1,106 @@
+import { supabaseAdmin } from './supabase';
+
+// How long a waitlisted client has to claim a freed slot before it passes to the next one
+export const WAITLIST_CLAIM_MINUTES = 30;
+const SWEEP_INTERVAL_MS = 60000;
+
+interface FreedSlot {
+  salon_id: string;
+  service_id: string;
+  professional_id?: string | null;
+  start_time: string;
+}
+
+// Offers a freed slot to the oldest matching waitlist entry, skipping clients who already passed on it
+export async function offerSlot(slot: FreedSlot, skipClientIds: string[] = []) {
+  if (Date.parse(slot.start_time) <= Date.now()) return null;
+
+  let query = supabaseAdmin
+    .from('waitlist_entries')
+    .select('id, client_id')
+    .eq('salon_id', slot.salon_id)
+    .eq('service_id', slot.service_id)
+    .eq('status', 'waiting')
+    .lte('window_start', slot.start_time)
+    .gt('window_end', slot.start_time)
+    .order('created_at', { ascending: true })
+    .limit(20);
+  // Entries tied to a professional only match that professional's slots
+  query = slot.professional_id
+    ? query.or(`professional_id.is.null,professional_id.eq.${slot.professional_id}`)
+    : query.is('professional_id', null);
+
+  const { data: entries, error } = await query;
+  if (error) throw error;
+
+  for (const entry of entries || []) {
+    if (skipClientIds.includes(entry.client_id)) continue;
+    const { data: offered } = await supabaseAdmin
+      .from('waitlist_entries')
+      .update({
+        status: 'offered',
+        offered_start_time: slot.start_time,
+        offered_professional_id: slot.professional_id || null,
+        offer_expires_at: new Date(Date.now() + WAITLIST_CLAIM_MINUTES * 60000).toISOString(),
+      })
+      .eq('id', entry.id)
+      .eq('status', 'waiting') // another worker may have taken it
+      .select()
+      .maybeSingle();
+    if (offered) return offered;
+  }
+  return null;
+}
+
+// Passes a declined or expired offer on to the next client in line
+export async function passOffer(entryId: string, status: 'declined' | 'expired') {
+  const { data: entry } = await supabaseAdmin
+    .from('waitlist_entries')
+    .update({ status })
+    .eq('id', entryId)
+    .eq('status', 'offered')
+    .select()
+    .maybeSingle();
+  if (!entry) return null;
+
+  return offerSlot({
+    salon_id: entry.salon_id,
+    service_id: entry.service_id,
+    professional_id: entry.offered_professional_id,
+    start_time: entry.offered_start_time,
+  }, [entry.client_id]);
+}
+
+export async function expireOffers() {
+  const { data, error } = await supabaseAdmin
+    .from('waitlist_entries')
+    .select('id')
+    .eq('status', 'offered')
+    .lt('offer_expires_at', new Date().toISOString());
+  if (error) throw error;
+  for (const entry of data || []) {
+    await passOffer(entry.id, 'expired');
+  }
+}
+
+// Listens for cancellations (the same UPDATE events the Dashboard receives) and expires stale offers
+export function startWaitlistWatcher() {
+  supabaseAdmin
+    .channel('waitlist-cancellations')
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'appointments' },
+      (payload) => {
+        const newApt = payload.new as any;
+        const oldApt = payload.old as any;
+        if (newApt.status === 'cancelled' && oldApt?.status !== 'cancelled') {
+          offerSlot(newApt, [newApt.client_id]).catch(error => console.error('Error offering waitlist slot:', error));
+        }
+      }
+    )
+    .subscribe();
+
+  setInterval(() => {
+    expireOffers().catch(error => console.error('Error expiring waitlist offers:', error));
+  }, SWEEP_INTERVAL_MS);
+}
@@ -17,7 +17,8 @@ import ResetPassword from './components/ResetPassword';
 
 import SuperAdminDashboard from './components/SuperAdminDashboard';
 import NotificationManager from './components/NotificationManager';
-import NotificationCenter, { AppNotification } from './components/NotificationCenter';
+import { disablePush } from './lib/push';
+import NotificationCenter from './components/NotificationCenter';
 
 export default function App() {
   const [session, setSession] = useState<any>(null);
@@ -25,9 +26,10 @@ export default function App() {
   const [view, setView] = useState<'login' | 'dashboard' | 'booking' | 'client_appointments' | 'profile_settings' | 'discovery' | 'salon_detail' | 'super_admin_dashboard' | 'reset_password'>('discovery');
   const [selectedSalonId, setSelectedSalonId] = useState<string | null>(null);
   const [selectedService, setSelectedService] = useState<any>(null);
+  const [reschedulingApt, setReschedulingApt] = useState<Appointment | null>(null);
+  const [rescheduleScope, setRescheduleScope] = useState<'one' | 'series'>('one');
   const [dashboardTab, setDashboardTab] = useState<'overview' | 'services' | 'settings' | 'analytics' | 'reviews' | 'finances'>('overview');
   const [discoveryTab, setDiscoveryTab] = useState<'salons' | 'services'>('salons');
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
@@ -60,6 +62,35 @@ export default function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Back from the payment page: Stripe redirects here with the outcome in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const payment = params.get('payment');
+    if (!payment) return;
+
+    if (payment === 'success') {
+      toast.success('Pagamento recebido! Seu agendamento será confirmado em instantes.');
+    } else {
+      toast.error('Pagamento não concluído. Você pode pagar em Meus Agendamentos antes que a reserva expire.');
+    }
+    setView('client_appointments');
+    params.delete('payment');
+    window.history.replaceState(null, '', `${window.location.pathname}${params.toString() ? `?${params}` : ''}`);
+  }, []);
+
+  // Back from Stripe's subscription checkout or customer portal
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const billing = params.get('billing');
+    if (!billing) return;
+
+    if (billing === 'success') toast.success('Assinatura confirmada! Obrigado por escolher o GlowSchedule.');
+    setView('dashboard');
+    setDashboardTab('settings');
+    params.delete('billing');
+    window.history.replaceState(null, '', `${window.location.pathname}${params.toString() ? `?${params}` : ''}`);
+  }, []);
+
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
       .from('profiles')
@@ -89,6 +120,8 @@ export default function App() {
   };
 
   const handleLogout = async () => {
+    // This device should stop receiving the signed-out user's notifications
+    await disablePush().catch(error => console.error('Error disabling push:', error));
     await supabase.auth.signOut();
     setView('discovery');
     toast.success('Deslogado com sucesso', { duration: 3000 });
@@ -109,35 +142,29 @@ export default function App() {
     setIsMenuOpen(false);
   };
 
+  // A visit that already started can no longer be moved or cancelled, so the client is offered a new booking
   const handleAppointmentExpired = (apt: any) => {
     toast((t) => (
       <div className="flex flex-col space-y-3">
         <p className="font-bold text-sm">Seu agendamento para {apt.services?.name} expirou!</p>
-        <p className="text-xs">Deseja realizar um novo agendamento agora?</p>
+        <p className="text-xs">Deseja agendar novamente em um novo horário?</p>
         <div className="flex space-x-2">
           <button
-            onClick={async () => {
+            onClick={() => {
               toast.dismiss(t.id);
-              // Cancel previous
-              await supabase.from('appointments').update({ status: 'cancelled' }).eq('id', apt.id);
-              // Redirect to discovery
-              setView('discovery');
-              toast.success('Agendamento anterior cancelado. Escolha um novo horário!');
+              setReschedulingApt(null);
+              setSelectedService(apt.services);
+              setView('booking');
             }}
             className="bg-brand-primary text-white px-3 py-1.5 rounded-lg text-xs font-bold"
           >
-            Sim, novo agendamento
+            Agendar novamente
           </button>
           <button
-            onClick={async () => {
-              toast.dismiss(t.id);
-              // Just cancel
-              await supabase.from('appointments').update({ status: 'cancelled' }).eq('id', apt.id);
-              toast.success('Agendamento cancelado.');
-            }}
+            onClick={() => toast.dismiss(t.id)}
             className="bg-stone-200 dark:bg-stone-700 text-stone-700 dark:text-stone-200 px-3 py-1.5 rounded-lg text-xs font-bold"
           >
-            Não, apenas cancelar
+            Agora não
           </button>
         </div>
       </div>
@@ -189,8 +216,6 @@ export default function App() {
       </Toaster>
       <NotificationManager 
         userId={profile?.id} 
-        role={profile?.role} 
-        onNewNotification={(n) => setNotifications(prev => [n, ...prev])}
         onAppointmentExpired={handleAppointmentExpired}
       />
       
@@ -215,11 +240,7 @@ export default function App() {
 
               {/* Notification Center */}
               {session && (
-                <NotificationCenter 
-                  notifications={notifications}
-                  onClear={() => setNotifications([])}
-                  onMarkAsRead={(id) => setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n))}
-                />
+                <NotificationCenter userId={session.user.id} />
               )}
 
               {/* Mobile Menu Button - Now the only menu */}
@@ -525,13 +546,19 @@ export default function App() {
             >
               <Booking 
                 initialService={selectedService} 
+                rescheduling={reschedulingApt}
+                rescheduleScope={rescheduleScope}
                 onSuccess={() => { 
                   setSelectedService(null); 
+                  setReschedulingApt(null);
                   setView('client_appointments');
                 }}
                 onBack={() => { 
                   setSelectedService(null); 
-                  if (selectedSalonId) {
+                  if (reschedulingApt) {
+                    setReschedulingApt(null);
+                    setView('client_appointments');
+                  } else if (selectedSalonId) {
                     setView('salon_detail');
                   } else {
                     setView('discovery');
@@ -547,7 +574,14 @@ export default function App() {
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
             >
-              <ClientAppointments profile={profile} />
+              <ClientAppointments
+                profile={profile}
+                onReschedule={(apt, scope = 'one') => {
+                  setReschedulingApt(apt);
+                  setRescheduleScope(scope);
+                  setView('booking');
+                }}
+              />
             </motion.div>
           )}
           {session && view === 'profile_settings' && (
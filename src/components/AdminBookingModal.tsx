@@ -2,9 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Service, Profile, Professional } from '../types';
 import { X, Calendar as CalendarIcon, Clock, User, Scissors, Search, Briefcase } from 'lucide-react';
-import { format, setHours, setMinutes } from 'date-fns';
+import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
+import { apiFetch, isSlotConflict } from '../lib/api';
+import { AvailabilitySlot, fromLocal } from '../lib/availability';
+import { RecurrenceRule } from '../lib/recurrence';
+import RecurrencePicker, { OccurrencePreview } from './RecurrencePicker';
 
 interface AdminBookingModalProps {
   isOpen: boolean;
@@ -27,6 +31,11 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
   const [selectedProfessionalId, setSelectedProfessionalId] = useState('');
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [time, setTime] = useState('09:00');
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [salonUtcOffset, setSalonUtcOffset] = useState(() => new Date().getTimezoneOffset()); // slots are in the salon's time
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesPreview, setSeriesPreview] = useState<OccurrencePreview[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -34,6 +43,14 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (isOpen && selectedServiceId && date) {
+      fetchAvailability();
+    } else {
+      setSlots([]);
+    }
+  }, [isOpen, selectedServiceId, selectedProfessionalId, date]);
+
   const fetchData = async () => {
     if (!salonId) return;
     try {
@@ -64,6 +81,60 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
     }
   };
 
+  const fetchAvailability = async () => {
+    if (!salonId) return;
+    const params = new URLSearchParams({
+      service: selectedServiceId,
+      date,
+    });
+    if (selectedProfessionalId) params.set('professional', selectedProfessionalId);
+
+    try {
+      const data = await apiFetch<{ slots: AvailabilitySlot[]; utc_offset: number }>(`/api/salons/${salonId}/availability?${params}`);
+      setSalonUtcOffset(data.utc_offset);
+      setSlots(data.slots);
+    } catch (error) {
+      console.error('Error fetching availability for admin booking:', error);
+      setSlots([]);
+    }
+  };
+
+  useEffect(() => {
+    if (recurrence && selectedServiceId && salonId) {
+      fetchSeriesPreview();
+    } else {
+      setSeriesPreview([]);
+    }
+  }, [recurrence, selectedServiceId, selectedProfessionalId, selectedClientId, date, time]);
+
+  const startTimeOf = () => fromLocal(date, time, salonUtcOffset);
+
+  const fetchSeriesPreview = async () => {
+    const startTime = startTimeOf();
+    if (Number.isNaN(startTime.getTime())) return;
+
+    setLoadingPreview(true);
+    try {
+      const data = await apiFetch<{ occurrences: OccurrencePreview[] }>('/api/appointment-series', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...recurrence,
+          dry_run: true,
+          client_id: selectedClientId || null,
+          service_id: selectedServiceId,
+          professional_id: selectedProfessionalId || null,
+          start_time: startTime.toISOString(),
+          salon_id: salonId
+        })
+      });
+      setSeriesPreview(data.occurrences);
+    } catch (error: any) {
+      setSeriesPreview([]);
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedClientId || !selectedServiceId || !date || !time) {
@@ -78,26 +149,55 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
 
     setLoading(true);
     try {
-      const [hours, minutes] = time.split(':');
-      const startTime = setMinutes(setHours(new Date(date + 'T00:00:00'), parseInt(hours)), parseInt(minutes));
-
-      const { error } = await supabase.from('appointments').insert({
-        client_id: selectedClientId,
-        service_id: selectedServiceId,
-        professional_id: selectedProfessionalId || null,
-        start_time: startTime.toISOString(),
-        status: 'confirmed', // Admins usually confirm immediately
-        salon_id: salonId
-      });
+      const startTime = startTimeOf();
 
-      if (error) throw error;
+      if (recurrence) {
+        const result = await apiFetch('/api/appointment-series', {
+          method: 'POST',
+          body: JSON.stringify({
+            ...recurrence,
+            client_id: selectedClientId,
+            service_id: selectedServiceId,
+            professional_id: selectedProfessionalId || null,
+            start_time: startTime.toISOString(),
+            salon_id: salonId
+          })
+        });
+
+        // Dates without a free slot are left out of the series and listed for the admin
+        const skipped = result.skipped.map((occurrence: { start_time: string }) => format(new Date(occurrence.start_time), 'dd/MM')).join(', ');
+        toast.success(skipped
+          ? `${result.appointments.length} horários agendados. Sem vaga em: ${skipped}`
+          : `Série de ${result.appointments.length} horários agendada com sucesso!`);
+        onSuccess();
+        onClose();
+        resetForm();
+        return;
+      }
+
+      await apiFetch('/api/appointments', {
+        method: 'POST',
+        body: JSON.stringify({
+          client_id: selectedClientId,
+          service_id: selectedServiceId,
+          professional_id: selectedProfessionalId || null,
+          start_time: startTime.toISOString(),
+          salon_id: salonId
+        })
+      });
 
       toast.success('Agendamento realizado com sucesso!');
       onSuccess();
       onClose();
       resetForm();
     } catch (error: any) {
-      toast.error(error.message);
+      if (isSlotConflict(error)) {
+        const suggestions = error.details.alternatives.map(slot => slot.time).join(', ');
+        toast.error(suggestions ? `${error.message} Livres: ${suggestions}` : error.message);
+        fetchAvailability();
+      } else {
+        toast.error(error.message);
+      }
     } finally {
       setLoading(false);
     }
@@ -109,6 +209,8 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
     setSelectedProfessionalId('');
     setDate(format(new Date(), 'yyyy-MM-dd'));
     setTime('09:00');
+    setSlots([]);
+    setRecurrence(null);
   };
 
   const filteredClients = clients.filter(c => 
@@ -229,6 +331,37 @@ export default function AdminBookingModal({ isOpen, onClose, onSuccess, profile,
             </div>
           </div>
 
+          {selectedServiceId && (
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-wider">Horários disponíveis</p>
+              {slots.some(slot => slot.available) ? (
+                <div className="flex flex-wrap gap-2">
+                  {slots.filter(slot => slot.available).map(slot => (
+                    <button
+                      key={slot.time}
+                      type="button"
+                      onClick={() => setTime(slot.time)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        time === slot.time
+                          ? 'bg-brand-primary text-white'
+                          : 'bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'
+                      }`}
+                    >
+                      {slot.time}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-stone-400 dark:text-stone-500 italic">Nenhum horário livre nesta data.</p>
+              )}
+              {slots.length > 0 && !slots.some(slot => slot.available && slot.time === time) && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">O horário escolhido está fora da disponibilidade calculada.</p>
+              )}
+            </div>
+          )}
+
+          <RecurrencePicker value={recurrence} onChange={setRecurrence} preview={seriesPreview} loadingPreview={loadingPreview} />
+
           <div className="pt-4 flex gap-3">
             <button
               type="button"
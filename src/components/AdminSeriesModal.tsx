@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Repeat, CalendarClock, Trash2 } from 'lucide-react';
+import { format, setHours, setMinutes } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { apiFetch, isSeriesConflict, isSlotConflict } from '../lib/api';
+
+interface AdminSeriesModalProps {
+  appointment: any | null; // occurrence of a recurring series
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function AdminSeriesModal({ appointment, onClose, onSuccess }: AdminSeriesModalProps) {
+  const [scope, setScope] = useState<'one' | 'series'>('one');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  if (!appointment) return null;
+
+  const currentDate = format(new Date(appointment.start_time), 'yyyy-MM-dd');
+  const currentTime = format(new Date(appointment.start_time), 'HH:mm');
+
+  const close = () => {
+    setScope('one');
+    setDate('');
+    setTime('');
+    onClose();
+  };
+
+  const handleReschedule = async () => {
+    const [hours, minutes] = (time || currentTime).split(':');
+    const startTime = setMinutes(setHours(new Date((date || currentDate) + 'T00:00:00'), parseInt(hours)), parseInt(minutes));
+    const body = { start_time: startTime.toISOString() };
+
+    setLoading(true);
+    try {
+      if (scope === 'series') {
+        const result = await apiFetch(`/api/appointment-series/${appointment.series_id}/reschedule`, {
+          method: 'POST',
+          body: JSON.stringify({ ...body, from_appointment_id: appointment.id })
+        });
+        toast.success(`${result.appointments.length} horários da série remarcados!`);
+      } else {
+        await apiFetch(`/api/appointments/${appointment.id}/reschedule`, { method: 'POST', body: JSON.stringify(body) });
+        toast.success('Horário remarcado!');
+      }
+      onSuccess();
+      close();
+    } catch (error: any) {
+      if (isSeriesConflict(error) && error.details.conflicts?.length) {
+        const dates = error.details.conflicts.map(conflict => format(new Date(conflict.start_time), 'dd/MM')).join(', ');
+        toast.error(`${error.message} ${dates}`);
+      } else if (isSlotConflict(error)) {
+        const suggestions = error.details.alternatives.map(slot => slot.time).join(', ');
+        toast.error(suggestions ? `${error.message} Livres: ${suggestions}` : error.message);
+      } else {
+        toast.error(error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setLoading(true);
+    try {
+      if (scope === 'series') {
+        const result = await apiFetch(`/api/appointment-series/${appointment.series_id}/cancel`, {
+          method: 'POST',
+          body: JSON.stringify({ from_appointment_id: appointment.id })
+        });
+        toast.success(`${result.appointments.length} horários da série cancelados`);
+      } else {
+        await apiFetch(`/api/appointments/${appointment.id}/cancel`, { method: 'POST' });
+        toast.success('Horário cancelado');
+      }
+      onSuccess();
+      close();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 dark:bg-black/80 backdrop-blur-sm transition-colors duration-300">
+      <div className="bg-white dark:bg-stone-900 rounded-[32px] w-full max-w-md shadow-2xl overflow-hidden border border-stone-100 dark:border-stone-800">
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center text-stone-800 dark:text-stone-100">
+            <Repeat className="mr-2 h-5 w-5 text-brand-primary" /> Série Recorrente
+          </h2>
+          <button onClick={close} className="p-2 hover:bg-stone-100 dark:hover:bg-stone-800 rounded-full transition-colors">
+            <X className="h-5 w-5 text-stone-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-stone-500 dark:text-stone-400">
+            {appointment.profiles?.full_name || 'Cliente'} • {appointment.services?.name} •{' '}
+            {format(new Date(appointment.start_time), "dd 'de' MMM, HH:mm", { locale: ptBR })}
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            {([['one', 'Só este horário'], ['series', 'Este e os próximos']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScope(value)}
+                className={`px-3 py-2 rounded-xl text-sm font-bold transition-all ${
+                  scope === value
+                    ? 'bg-brand-primary text-white'
+                    : 'bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <input
+              type="date"
+              value={date || currentDate}
+              onChange={e => setDate(e.target.value)}
+              className="w-full px-4 py-2 rounded-xl border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-800 text-stone-800 dark:text-stone-100 focus:ring-2 focus:ring-brand-primary outline-none"
+            />
+            <input
+              type="time"
+              value={time || currentTime}
+              onChange={e => setTime(e.target.value)}
+              className="w-full px-4 py-2 rounded-xl border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-800 text-stone-800 dark:text-stone-100 focus:ring-2 focus:ring-brand-primary outline-none"
+            />
+          </div>
+          {scope === 'series' && (
+            <p className="text-xs text-stone-400 dark:text-stone-500 italic">
+              Os próximos horários da série serão deslocados na mesma medida.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              disabled={loading}
+              onClick={handleCancel}
+              className="flex-1 flex items-center justify-center px-4 py-3 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 font-semibold rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-all disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2" /> Cancelar
+            </button>
+            <button
+              disabled={loading}
+              onClick={handleReschedule}
+              className="flex-1 flex items-center justify-center bg-brand-primary text-white px-4 py-3 rounded-xl font-semibold shadow-lg shadow-brand-primary/20 hover:bg-opacity-90 transition-all disabled:opacity-50"
+            >
+              <CalendarClock className="h-4 w-4 mr-2" /> Remarcar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,9 +7,13 @@ import { Appointment, Service } from '../types';
 import { format, subDays, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { TrendingUp, Users, DollarSign, Calendar } from 'lucide-react';
+import { revenueLines, revenueOf } from '../lib/sales';
+
+// Appointments as the dashboard loads them, with their service and checkout joined in
+type AnalyticsAppointment = Appointment & { services?: Service | null };
 
 interface AnalyticsViewProps {
-  appointments: Appointment[];
+  appointments: AnalyticsAppointment[];
   services: Service[];
   theme?: 'light' | 'dark';
 }
@@ -45,25 +49,25 @@ export default function AnalyticsView({ appointments, services, theme }: Analyti
     return days;
   }, [appointments]);
 
-  // 2. Revenue by Service
+  // Visits that bring in money, with their service for the list price of those not checked out yet
+  const billable = useMemo(() => appointments
+    .filter(apt => apt.status !== 'cancelled' && apt.status !== 'no_show')
+    .map(apt => ({ ...apt, services: apt.services || services.find(s => s.id === apt.service_id) })),
+  [appointments, services]);
+
+  // 2. Revenue by Service: what was charged at checkout
   const revenueByServiceData = useMemo(() => {
     const serviceMap = new Map<string, number>();
-    
-    appointments.forEach(apt => {
-      if (apt.status === 'cancelled') return;
-      
-      const service = services.find(s => s.id === apt.service_id);
-      if (service) {
-        const current = serviceMap.get(service.name) || 0;
-        serviceMap.set(service.name, current + service.price);
-      }
+
+    revenueLines(billable).forEach(line => {
+      serviceMap.set(line.name, (serviceMap.get(line.name) || 0) + line.amount);
     });
 
     return Array.from(serviceMap.entries()).map(([name, value]) => ({
       name,
       value
     })).sort((a, b) => b.value - a.value);
-  }, [appointments, services]);
+  }, [billable]);
 
   // 3. Appointment Status Distribution
   const statusData = useMemo(() => {
@@ -71,7 +75,8 @@ export default function AnalyticsView({ appointments, services, theme }: Analyti
       pending: { name: 'Pendente', value: 0 },
       confirmed: { name: 'Confirmado', value: 0 },
       cancelled: { name: 'Cancelado', value: 0 },
-      completed: { name: 'Concluído', value: 0 }
+      completed: { name: 'Concluído', value: 0 },
+      no_show: { name: 'Não compareceu', value: 0 }
     };
 
     appointments.forEach(apt => {
@@ -84,13 +89,8 @@ export default function AnalyticsView({ appointments, services, theme }: Analyti
   }, [appointments]);
 
   const totalRevenue = useMemo(() => {
-    return appointments
-      .filter(apt => apt.status !== 'cancelled')
-      .reduce((acc, apt) => {
-        const service = services.find(s => s.id === apt.service_id);
-        return acc + (service?.price || 0);
-      }, 0);
-  }, [appointments, services]);
+    return revenueOf(billable);
+  }, [billable]);
 
   return (
     <div className="space-y-8 animate-in fade-in duration-500 transition-colors duration-300">
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { AppointmentEvent } from '../types';
+import { STATUS_LABELS } from '../lib/status';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface AppointmentTimelineProps {
+  appointmentId: string;
+}
+
+function describe(event: AppointmentEvent) {
+  if (event.event_type === 'created') {
+    return `Agendamento criado${event.to_status ? ` (${STATUS_LABELS[event.to_status]})` : ''}`;
+  }
+  if (event.event_type === 'rescheduled' && event.data?.start_time) {
+    const from = event.data.previous_start_time ? format(parseISO(event.data.previous_start_time), "dd/MM 'às' HH:mm") : '';
+    return `Remarcado${from ? ` de ${from}` : ''} para ${format(parseISO(event.data.start_time), "dd/MM 'às' HH:mm")}`;
+  }
+  return `${event.from_status ? STATUS_LABELS[event.from_status] : '—'} → ${event.to_status ? STATUS_LABELS[event.to_status] : '—'}`;
+}
+
+export default function AppointmentTimeline({ appointmentId }: AppointmentTimelineProps) {
+  const [events, setEvents] = useState<AppointmentEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEvents();
+
+    const channel = supabase
+      .channel(`appointment-${appointmentId}-events`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'appointment_events',
+          filter: `appointment_id=eq.${appointmentId}`
+        },
+        () => fetchEvents()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [appointmentId]);
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from('appointment_events')
+      .select('*, profiles(full_name)')
+      .eq('appointment_id', appointmentId)
+      .order('created_at', { ascending: true });
+    if (error) console.error('Error fetching appointment events:', error);
+    setEvents(data || []);
+    setLoading(false);
+  };
+
+  if (loading) return <p className="text-xs text-stone-400 dark:text-stone-500 italic">Carregando histórico...</p>;
+  if (events.length === 0) return <p className="text-xs text-stone-400 dark:text-stone-500 italic">Nenhum registro ainda.</p>;
+
+  return (
+    <ol className="relative border-l border-stone-200 dark:border-stone-700 ml-2 space-y-3">
+      {events.map(event => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-brand-primary/30 border-2 border-white dark:border-stone-900" />
+          <p className="text-sm text-stone-700 dark:text-stone-200">{describe(event)}</p>
+          <p className="text-[10px] text-stone-400 dark:text-stone-500">
+            {format(parseISO(event.created_at), "dd 'de' MMM 'às' HH:mm", { locale: ptBR })}
+            {' • '}
+            {event.profiles?.full_name || 'Sistema'}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,60 +1,100 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Service, Salon, Professional } from '../types';
+import { Service, Professional, SalonSpecialDate, Appointment } from '../types';
 import { Calendar as CalendarIcon, Clock, Scissors, Check, ChevronRight, MapPin, User } from 'lucide-react';
-import { format, addDays, startOfToday, setHours, setMinutes, isBefore, isSameDay, parseISO } from 'date-fns';
+import { format, addDays, startOfDay, startOfToday } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
+import { apiFetch, isSeriesConflict, isSlotConflict } from '../lib/api';
+import { AvailabilitySlot, fromLocal } from '../lib/availability';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY, formatDuration, policyOf } from '../lib/policy';
+import { RecurrenceRule } from '../lib/recurrence';
+import { NoShowAction, reliabilityMessage } from '../lib/reliability';
+import { ConfirmationRules, DEFAULT_CONFIRMATION_RULES, confirmationMessage, confirmationRulesOf } from '../lib/confirmation';
+import { prepaymentFor, prepaymentMessage } from '../lib/payments';
+import RecurrencePicker, { OccurrencePreview } from './RecurrencePicker';
+import PixQrCode from './PixQrCode';
 
 interface BookingProps {
   initialService?: any;
+  rescheduling?: Appointment | null; // moves this appointment (and its visit) instead of creating a new one
+  rescheduleScope?: 'one' | 'series'; // 'series' also moves the later occurrences of a recurring series
   onSuccess?: () => void;
   onBack?: () => void;
 }
 
-export default function Booking({ initialService, onSuccess, onBack }: BookingProps) {
-  const [step, setStep] = useState(initialService ? 2 : 1);
+export default function Booking({ initialService, rescheduling, rescheduleScope = 'one', onSuccess, onBack }: BookingProps) {
+  const [step, setStep] = useState(rescheduling ? 3 : initialService ? 2 : 1);
+  const [visitIds, setVisitIds] = useState<string[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [professionals, setProfessionals] = useState<Professional[]>([]);
-  const [salon, setSalon] = useState<Salon | null>(null);
-  const [bookedAppointments, setBookedAppointments] = useState<any[]>([]);
+  const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([]);
+  const [salonUtcOffset, setSalonUtcOffset] = useState(() => new Date().getTimezoneOffset()); // slots are in the salon's time
+  const [specialDates, setSpecialDates] = useState<SalonSpecialDate[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('Todos');
-  const [selectedService, setSelectedService] = useState<Service | null>(initialService || null);
+  const [basket, setBasket] = useState<Service[]>(initialService ? [initialService] : []);
   const [selectedProfessional, setSelectedProfessional] = useState<Professional | null>(null);
   const [selectedDate, setSelectedDate] = useState(startOfToday());
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [customTime, setCustomTime] = useState('');
-  const [customDuration, setCustomDuration] = useState<number>(initialService?.duration || 0);
   const [loading, setLoading] = useState(false);
+  const [alternatives, setAlternatives] = useState<AvailabilitySlot[]>([]);
+  const [policy, setPolicy] = useState<BookingPolicy>(DEFAULT_BOOKING_POLICY);
+  const [confirmationRules, setConfirmationRules] = useState<ConfirmationRules>(DEFAULT_CONFIRMATION_RULES);
+  const [waitlistDays, setWaitlistDays] = useState(0);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesPreview, setSeriesPreview] = useState<OccurrencePreview[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [reliabilityAction, setReliabilityAction] = useState<NoShowAction | null>(null);
+  const [acceptsPix, setAcceptsPix] = useState(false);
+  const [payWith, setPayWith] = useState<'card' | 'pix'>('card');
+  const [pixCharge, setPixCharge] = useState<{ appointmentId: string; payload: string; amount: number; expires_at: string } | null>(null);
+
+  // Every service of the basket belongs to the salon of the first one
+  const selectedService = basket[0] || null;
+  const salonId = selectedService?.salon_id;
+  const basketKey = basket.map(s => s.id).join(',');
+  const totalDuration = basket.reduce((acc, s) => acc + s.duration, 0);
+  const totalPrice = basket.reduce((acc, s) => acc + Number(s.price), 0);
+  // Mirrors what the server will charge; reschedules keep the payment the visit already has
+  const prepayment = rescheduling ? null : prepaymentFor(basket, reliabilityAction === 'require_prepayment');
 
   useEffect(() => {
-    if (!initialService) {
+    if (rescheduling) {
+      fetchVisit(rescheduling);
+    } else {
       fetchServices();
     }
-  }, [initialService]);
+  }, [rescheduling?.id]);
 
   useEffect(() => {
-    if (selectedService) {
-      setCustomDuration(selectedService.duration);
-      fetchProfessionals(selectedService.salon_id);
-      fetchSalon(selectedService.salon_id);
+    if (salonId) {
+      fetchProfessionals(salonId);
+      fetchPolicy(salonId);
+      fetchReliability(salonId);
     }
-  }, [selectedService]);
+  }, [salonId]);
 
-  const fetchSalon = async (salonId: string) => {
-    const { data } = await supabase
-      .from('salons')
-      .select('*')
-      .eq('id', salonId)
-      .single();
-    if (data) setSalon(data);
-  };
+  useEffect(() => {
+    if (salonId) {
+      fetchSpecialDates(salonId);
+    }
+  }, [salonId, policy.bookingHorizonDays]);
 
   useEffect(() => {
-    if (selectedService && selectedDate) {
-      fetchBookedAppointments();
+    if (basket.length > 0 && selectedDate) {
+      fetchAvailability();
     }
-  }, [selectedDate, selectedService, selectedProfessional]);
+  }, [selectedDate, basketKey, selectedProfessional, visitIds]);
+
+  useEffect(() => {
+    if (step === 4 && recurrence) {
+      fetchSeriesPreview();
+    } else {
+      setSeriesPreview([]);
+    }
+  }, [step, recurrence, selectedDate, selectedTime, customTime, selectedProfessional]);
 
   const fetchServices = async () => {
     const { data } = await supabase
@@ -64,6 +104,25 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
     if (data) setServices(data as any);
   };
 
+  // Reschedules reuse the services and professional of the whole visit
+  const fetchVisit = async (apt: Appointment) => {
+    let query = supabase
+      .from('appointments')
+      .select('id, professional_id, services(*, salons(name, address)), professionals(*)')
+      .neq('status', 'cancelled')
+      .order('start_time', { ascending: true });
+    query = apt.group_id ? query.eq('group_id', apt.group_id) : query.eq('id', apt.id);
+    const { data, error } = await query;
+    if (error || !data || data.length === 0) {
+      toast.error('Não foi possível carregar o agendamento');
+      return;
+    }
+    const professionalIds = new Set(data.map((row: any) => row.professional_id));
+    setVisitIds(data.map((row: any) => row.id));
+    setBasket(data.map((row: any) => row.services));
+    setSelectedProfessional(professionalIds.size === 1 ? (data[0] as any).professionals || null : null);
+  };
+
   const fetchProfessionals = async (salonId: string) => {
     const { data } = await supabase
       .from('professionals')
@@ -73,105 +132,109 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
     if (data) setProfessionals(data);
   };
 
-  const fetchBookedAppointments = async () => {
-    if (!selectedService?.salon_id) return;
-
-    const startOfDay = new Date(selectedDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(selectedDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    let query = supabase
-      .from('appointments')
-      .select('id, start_time, professional_id, services(duration)')
-      .eq('salon_id', selectedService.salon_id)
-      .neq('status', 'cancelled')
-      .gte('start_time', startOfDay.toISOString())
-      .lte('start_time', endOfDay.toISOString());
+  const fetchPolicy = async (salonId: string) => {
+    const { data } = await supabase
+      .from('salons')
+      .select('cancel_notice_hours, min_lead_minutes, booking_horizon_days, auto_confirm, pending_expiry_hours, pix_key')
+      .eq('id', salonId)
+      .single();
+    setPolicy(policyOf(data));
+    setConfirmationRules(confirmationRulesOf(data));
+    setAcceptsPix(!!data?.pix_key);
+  };
 
-    if (selectedProfessional) {
-      query = query.eq('professional_id', selectedProfessional.id);
+  // Clients above the salon's no-show limit see its rule before finishing
+  const fetchReliability = async (salonId: string) => {
+    try {
+      const data = await apiFetch<{ action: NoShowAction | null }>(`/api/salons/${salonId}/reliability`);
+      setReliabilityAction(data.action);
+    } catch (error) {
+      setReliabilityAction(null);
     }
+  };
 
-    const { data } = await query;
-    if (data) setBookedAppointments(data);
+  const fetchSpecialDates = async (salonId: string) => {
+    const { data } = await supabase
+      .from('salon_special_dates')
+      .select('*')
+      .eq('salon_id', salonId)
+      .gte('date', format(startOfToday(), 'yyyy-MM-dd'))
+      .lte('date', format(addDays(startOfToday(), policy.bookingHorizonDays), 'yyyy-MM-dd'));
+    if (data) setSpecialDates(data);
   };
 
-  const isSlotBusy = (time: string) => {
-    const [hours, minutes] = time.split(':').map(Number);
-    const now = new Date();
-    
-    const slotStart = new Date(selectedDate);
-    slotStart.setHours(hours, minutes, 0, 0);
-    
-    // Check if slot is in the past (only for today)
-    if (isSameDay(selectedDate, now)) {
-      if (isBefore(slotStart, now)) return true;
-    }
-    
-    // Check if this specific slot overlaps with any existing appointment
-    const busyAppointments = bookedAppointments.filter(apt => {
-      const aptStart = parseISO(apt.start_time);
-      const duration = apt.services?.duration || 60;
-      const aptEnd = new Date(aptStart.getTime() + duration * 60000);
-      
-      // Check for overlap: slotStart is within [aptStart, aptEnd)
-      return slotStart >= aptStart && slotStart < aptEnd;
+  const fetchAvailability = async () => {
+    if (!selectedService?.salon_id) return;
+
+    const params = new URLSearchParams({
+      service: basketKey,
+      date: format(selectedDate, 'yyyy-MM-dd'),
     });
+    if (selectedProfessional) params.set('professional', selectedProfessional.id);
+    if (visitIds.length > 0) params.set('exclude', visitIds.join(','));
 
-    if (selectedProfessional) {
-      // If a professional is selected, slot is busy if they have any appointment during this time
-      return busyAppointments.some(apt => apt.professional_id === selectedProfessional.id);
-    } else {
-      // If "Any Professional" is selected, slot is busy only if ALL active professionals are taken
-      const busyProfessionalIds = new Set(busyAppointments.map(apt => apt.professional_id).filter(Boolean));
-      return professionals.length > 0 && busyProfessionalIds.size >= professionals.length;
+    try {
+      const data = await apiFetch<{ slots: AvailabilitySlot[]; utc_offset: number }>(`/api/salons/${salonId}/availability?${params}`);
+      setSalonUtcOffset(data.utc_offset);
+      setTimeSlots(data.slots);
+    } catch (error: any) {
+      console.error('Error fetching availability:', error);
+      setTimeSlots([]);
     }
   };
 
-  const generateTimeSlots = () => {
-    if (!salon || !selectedService) return [];
-
-    const dayOfWeek = format(selectedDate, 'EEEE', { locale: ptBR });
-    // Map 'segunda-feira' to 'Segunda', etc.
-    const dayMap: Record<string, string> = {
-      'segunda-feira': 'Segunda',
-      'terça-feira': 'Terça',
-      'quarta-feira': 'Quarta',
-      'quinta-feira': 'Quinta',
-      'sexta-feira': 'Sexta',
-      'sábado': 'Sábado',
-      'domingo': 'Domingo'
-    };
-    
-    const capitalizedDay = dayMap[dayOfWeek.toLowerCase()] || dayOfWeek;
-    
-    const hoursStr = salon.opening_hours?.[capitalizedDay];
-    if (!hoursStr || hoursStr === 'Fechado') return [];
-
-    const [startStr, endStr] = hoursStr.split(' - ');
-    const [startH, startM] = startStr.split(':').map(Number);
-    const [endH, endM] = endStr.split(':').map(Number);
-
-    const slots = [];
-    let current = new Date(selectedDate);
-    current.setHours(startH, startM, 0, 0);
+  const startTimeOf = (time: string) => fromLocal(format(selectedDate, 'yyyy-MM-dd'), time, salonUtcOffset);
 
-    const end = new Date(selectedDate);
-    end.setHours(endH, endM, 0, 0);
-
-    // Use service duration or custom duration
-    const duration = customDuration || selectedService.duration || 60;
+  // Checks every occurrence of the series before the client commits to it
+  const fetchSeriesPreview = async () => {
+    const finalTime = customTime || selectedTime;
+    if (!selectedService || !finalTime || !recurrence) return;
+    const startTime = startTimeOf(finalTime);
 
-    while (isBefore(current, end)) {
-      slots.push(format(current, 'HH:mm'));
-      current = new Date(current.getTime() + duration * 60000);
+    setLoadingPreview(true);
+    try {
+      const data = await apiFetch<{ occurrences: OccurrencePreview[] }>('/api/appointment-series', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...recurrence,
+          dry_run: true,
+          salon_id: salonId,
+          service_id: selectedService.id,
+          professional_id: selectedProfessional?.id || null,
+          start_time: startTime.toISOString(),
+        })
+      });
+      setSeriesPreview(data.occurrences);
+    } catch (error: any) {
+      setSeriesPreview([]);
+      toast.error(error.message);
+    } finally {
+      setLoadingPreview(false);
     }
-
-    return slots;
   };
 
-  const timeSlots = generateTimeSlots();
+  // Registers interest in the selected service from the selected day onwards
+  const handleJoinWaitlist = async () => {
+    if (!selectedService) return;
+    setJoiningWaitlist(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('waitlist_entries').insert({
+        salon_id: selectedService.salon_id,
+        client_id: user?.id,
+        service_id: selectedService.id,
+        professional_id: selectedProfessional?.id || null,
+        window_start: startOfDay(selectedDate).toISOString(),
+        window_end: addDays(startOfDay(selectedDate), waitlistDays + 1).toISOString(),
+      });
+      if (error) throw error;
+      toast.success('Você entrou na lista de espera! Avisaremos quando um horário abrir.');
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
 
   const handleBooking = async () => {
     const finalTime = customTime || selectedTime;
@@ -179,44 +242,142 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
     
     setLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Usuário não autenticado');
-
-      const [hours, minutes] = finalTime.split(':');
-      const startTime = setMinutes(setHours(selectedDate, parseInt(hours)), parseInt(minutes));
-
-      const { error } = await supabase.from('appointments').insert({
-        client_id: user.id,
-        service_id: selectedService.id,
-        professional_id: selectedProfessional?.id || null,
-        start_time: startTime.toISOString(),
-        status: 'pending',
-        salon_id: selectedService.salon_id || 'default',
-        notes: customDuration !== selectedService.duration ? `Duração personalizada: ${customDuration} min` : ''
+      const startTime = startTimeOf(finalTime);
+
+      if (rescheduling && rescheduleScope === 'series' && rescheduling.series_id) {
+        const result = await apiFetch(`/api/appointment-series/${rescheduling.series_id}/reschedule`, {
+          method: 'POST',
+          body: JSON.stringify({ from_appointment_id: rescheduling.id, start_time: startTime.toISOString() })
+        });
+        toast.success(`${result.appointments.length} horários da série remarcados! O estabelecimento foi avisado.`);
+        if (onSuccess) onSuccess();
+        return;
+      }
+
+      if (rescheduling) {
+        await apiFetch(`/api/appointments/${rescheduling.id}/reschedule`, {
+          method: 'POST',
+          body: JSON.stringify({ start_time: startTime.toISOString() })
+        });
+        setAlternatives([]);
+        toast.success('Agendamento remarcado! O estabelecimento foi avisado.');
+        if (onSuccess) onSuccess();
+        return;
+      }
+
+      if (recurrence && selectedService) {
+        const result = await apiFetch('/api/appointment-series', {
+          method: 'POST',
+          body: JSON.stringify({
+            ...recurrence,
+            salon_id: salonId,
+            service_id: selectedService.id,
+            professional_id: selectedProfessional?.id || null,
+            start_time: startTime.toISOString(),
+              notes: ''
+          })
+        });
+        toast.success(result.skipped.length > 0
+          ? `${result.appointments.length} horários agendados; ${result.skipped.length} datas ficaram de fora por falta de vaga.`
+          : `${result.appointments.length} horários recorrentes solicitados com sucesso!`);
+        setStep(4);
+        if (onSuccess) onSuccess();
+        return;
+      }
+
+      const result = await apiFetch('/api/appointments', {
+        method: 'POST',
+        body: JSON.stringify({
+          service_ids: basket.map(s => s.id),
+          professional_id: selectedProfessional?.id || null,
+          start_time: startTime.toISOString(),
+          salon_id: salonId,
+          notes: ''
+        })
       });
-
-      if (error) throw error;
       
-      toast.success('Agendamento solicitado com sucesso!');
+      // Multi-service visits come back as a group of appointments
+      const appointment = result.appointments ? result.appointments[0] : result;
+      setAlternatives([]);
+
+      // The slot is held while the client pays; the webhook confirms it
+      if (appointment.prepayment_status === 'awaiting') {
+        try {
+          if (payWith === 'pix' && acceptsPix) {
+            const charge = await apiFetch<{ payload: string; amount: number; expires_at: string }>('/api/payments/pix', {
+              method: 'POST',
+              body: JSON.stringify({ appointment_id: appointment.id })
+            });
+            setPixCharge({ appointmentId: appointment.id, ...charge });
+            return;
+          }
+          const checkout = await apiFetch<{ url: string }>('/api/payments/checkout', {
+            method: 'POST',
+            body: JSON.stringify({ appointment_id: appointment.id })
+          });
+          window.location.assign(checkout.url);
+        } catch (error: any) {
+          // The booking exists; it can still be paid from "Meus Agendamentos"
+          toast.error(`Horário reservado, mas o pagamento não pôde ser iniciado: ${error.message}`);
+          if (onSuccess) onSuccess();
+        }
+        return;
+      }
+
+      toast.success(result.appointments
+        ? `Agendamento de ${result.appointments.length} serviços solicitado com sucesso!`
+        : appointment.status === 'confirmed'
+          ? `Agendamento confirmado${!selectedProfessional && appointment.professionals?.name ? ` com ${appointment.professionals.name}` : ''}!`
+          : !selectedProfessional && appointment.professionals?.name
+            ? `Agendamento solicitado com ${appointment.professionals.name}!`
+            : 'Agendamento solicitado com sucesso!');
       setStep(4);
       if (onSuccess) onSuccess();
     } catch (error: any) {
+      if (isSlotConflict(error)) {
+        setAlternatives(error.details.alternatives);
+        fetchAvailability();
+      }
+      if (isSeriesConflict(error) && error.details.conflicts?.length) {
+        toast.error(`${error.message} ${error.details.conflicts
+          .map(conflict => format(new Date(conflict.start_time), 'dd/MM'))
+          .join(', ')}`);
+        return;
+      }
       toast.error(error.message);
     } finally {
       setLoading(false);
     }
   };
 
+  const selectedSpecialDate = specialDates.find(special => special.date === format(selectedDate, 'yyyy-MM-dd'));
+  // The waitlist covers single services on days the salon is open but has no free slot
+  const canJoinWaitlist = !rescheduling && basket.length === 1 && selectedSpecialDate?.kind !== 'closed'
+    && timeSlots.length > 0 && !timeSlots.some(slot => slot.available);
+
+  // Series repeat a single service; reschedules keep the rule they already have
+  const canRepeat = !rescheduling && basket.length === 1 && !prepayment;
+
+  const salonServices = salonId ? services.filter(s => s.salon_id === salonId) : services;
+
   const filteredServices = selectedCategory === 'Todos' 
-    ? services 
-    : services.filter(s => s.category === selectedCategory);
+    ? salonServices 
+    : salonServices.filter(s => s.category === selectedCategory);
+
+  const categories = ['Todos', ...Array.from(new Set(salonServices.map(s => s.category).filter(Boolean) as string[]))];
 
-  const categories = ['Todos', ...Array.from(new Set(services.map(s => s.category).filter(Boolean) as string[]))];
+  const toggleService = (service: Service) => {
+    setBasket(prev => prev.some(s => s.id === service.id)
+      ? prev.filter(s => s.id !== service.id)
+      : [...prev, service]);
+    setSelectedTime(null);
+    setAlternatives([]);
+  };
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-12 sm:px-6 lg:px-8 transition-colors duration-300">
       <div className="text-center mb-12">
-        <h1 className="text-4xl serif mb-4 text-stone-900 dark:text-stone-100">Novo Agendamento</h1>
+        <h1 className="text-4xl serif mb-4 text-stone-900 dark:text-stone-100">{rescheduling ? 'Remarcar Agendamento' : 'Novo Agendamento'}</h1>
         <div className="flex justify-center items-center space-x-4">
           <StepIndicator current={step} step={1} label="Serviço" />
           <ChevronRight className="h-4 w-4 text-stone-300 dark:text-stone-600" />
@@ -231,7 +392,12 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
       <div className="bg-white dark:bg-stone-900 rounded-[40px] shadow-xl shadow-stone-200/50 dark:shadow-stone-950/50 border border-stone-100 dark:border-stone-800 overflow-hidden transition-colors duration-300">
         {step === 1 && (
           <div className="p-8 sm:p-12">
-            <h2 className="text-2xl serif mb-8 text-stone-900 dark:text-stone-100">Escolha o serviço desejado</h2>
+            <h2 className="text-2xl serif mb-2 text-stone-900 dark:text-stone-100">Escolha os serviços desejados</h2>
+            <p className="text-sm text-stone-500 dark:text-stone-400 mb-8">
+              {basket.length > 0
+                ? `Adicione outros serviços de ${(selectedService as any).salons?.name || 'deste salão'} para fazer tudo na mesma visita.`
+                : 'Você pode combinar vários serviços do mesmo salão em uma única visita.'}
+            </p>
             
             {/* Category Filter */}
             <div className="flex flex-wrap gap-2 mb-8">
@@ -254,12 +420,9 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
               {filteredServices.map(service => (
                 <button
                   key={service.id}
-                  onClick={() => {
-                    setSelectedService(service);
-                    setStep(2);
-                  }}
+                  onClick={() => toggleService(service)}
                   className={`flex items-center justify-between p-6 rounded-3xl border-2 transition-all text-left group ${
-                    selectedService?.id === service.id 
+                    basket.some(s => s.id === service.id) 
                       ? 'border-brand-primary bg-brand-primary/5 dark:bg-brand-primary/10' 
                       : 'border-stone-100 dark:border-stone-800 hover:border-brand-primary/30'
                   }`}
@@ -284,13 +447,20 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
               ))}
             </div>
 
-            <div className="flex justify-start">
+            <div className="flex justify-between items-center">
               <button 
                 onClick={onBack}
                 className="text-stone-400 dark:text-stone-500 font-medium hover:text-stone-600 dark:hover:text-stone-300 transition-colors"
               >
                 Voltar para a busca
               </button>
+              <button 
+                disabled={basket.length === 0}
+                onClick={() => setStep(2)}
+                className="bg-brand-primary text-white px-10 py-4 rounded-full font-bold shadow-lg shadow-brand-primary/20 disabled:opacity-50"
+              >
+                {basket.length > 1 ? `Continuar (${basket.length} serviços • ${totalDuration} min)` : 'Continuar'}
+              </button>
             </div>
           </div>
         )}
@@ -369,15 +539,17 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
 
         {step === 3 && (
           <div className="p-8 sm:p-12">
-            <h2 className="text-2xl serif mb-8 text-stone-900 dark:text-stone-100">Quando você quer vir?</h2>
+            <h2 className="text-2xl serif mb-8 text-stone-900 dark:text-stone-100">{rescheduling ? 'Para quando você quer remarcar?' : 'Quando você quer vir?'}</h2>
             
             <div className="grid md:grid-cols-2 gap-12">
               <div>
                 <p className="text-sm font-semibold text-stone-400 dark:text-stone-500 uppercase tracking-wider mb-4">Escolha a data</p>
-                <div className="grid grid-cols-4 gap-2">
-                  {[0, 1, 2, 3, 4, 5, 6, 7].map(i => {
+                <div className="grid grid-cols-4 gap-2 max-h-80 overflow-y-auto">
+                  {/* The salon decides how far ahead the agenda is open */}
+                  {Array.from({ length: policy.bookingHorizonDays + 1 }, (_, i) => i).map(i => {
                     const date = addDays(startOfToday(), i);
                     const isSelected = format(date, 'yyyy-MM-dd') === format(selectedDate, 'yyyy-MM-dd');
+                    const closed = specialDates.some(special => special.date === format(date, 'yyyy-MM-dd') && special.kind === 'closed');
                     return (
                       <button
                         key={i}
@@ -387,7 +559,8 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                         }`}
                       >
                         <span className="text-[10px] uppercase font-bold opacity-60">{format(date, 'EEE', { locale: ptBR })}</span>
-                        <span className="text-lg font-bold">{format(date, 'dd')}</span>
+                        <span className={`text-lg font-bold ${closed ? 'line-through opacity-50' : ''}`}>{format(date, 'dd')}</span>
+                        {closed && <span className="text-[8px] uppercase font-bold text-red-400">Fechado</span>}
                       </button>
                     );
                   })}
@@ -396,9 +569,47 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
 
               <div>
                 <p className="text-sm font-semibold text-stone-400 dark:text-stone-500 uppercase tracking-wider mb-4">Horários disponíveis</p>
+                {policy.minLeadMinutes > 0 && (
+                  <p className="text-xs text-stone-400 dark:text-stone-500 mb-4">
+                    Este estabelecimento aceita agendamentos com pelo menos {formatDuration(policy.minLeadMinutes)} de antecedência.
+                  </p>
+                )}
+                {timeSlots.length === 0 && (
+                  <p className="text-sm text-stone-400 dark:text-stone-500 italic mb-6">
+                    {selectedSpecialDate?.kind === 'closed'
+                      ? `Fechado nesta data${selectedSpecialDate.description ? ` (${selectedSpecialDate.description})` : ''}.`
+                      : 'Nenhum horário disponível nesta data.'}
+                  </p>
+                )}
+                {canJoinWaitlist && (
+                  <div className="bg-brand-primary/5 dark:bg-brand-primary/10 border border-brand-primary/20 rounded-2xl p-4 mb-6">
+                    <p className="text-sm font-bold text-stone-800 dark:text-stone-100 mb-1">Dia lotado</p>
+                    <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">
+                      Entre na lista de espera e receba uma oferta se alguém cancelar. Você terá um tempo limitado para aceitar.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <select
+                        value={waitlistDays}
+                        onChange={(e) => setWaitlistDays(Number(e.target.value))}
+                        className="flex-1 px-3 py-2 bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-xs dark:text-stone-100"
+                      >
+                        <option value={0}>Somente neste dia</option>
+                        <option value={2}>Este dia e os 2 seguintes</option>
+                        <option value={6}>Nos próximos 7 dias</option>
+                      </select>
+                      <button
+                        onClick={handleJoinWaitlist}
+                        disabled={joiningWaitlist}
+                        className="px-4 py-2 bg-brand-primary text-white rounded-xl text-xs font-bold disabled:opacity-50"
+                      >
+                        {joiningWaitlist ? 'Entrando...' : 'Entrar na lista de espera'}
+                      </button>
+                    </div>
+                  </div>
+                )}
                 <div className="grid grid-cols-3 gap-2 mb-6">
-                  {timeSlots.map(time => {
-                    const busy = isSlotBusy(time);
+                  {timeSlots.map(({ time, available }) => {
+                    const busy = !available;
                     return (
                       <button
                         key={time}
@@ -425,10 +636,10 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                 <div className="bg-stone-50 dark:bg-stone-800/50 p-4 rounded-2xl border border-stone-100 dark:border-stone-700">
                   <div className="flex items-center text-stone-500 dark:text-stone-400 mb-2">
                     <Clock className="h-4 w-4 mr-2" />
-                    <span className="text-xs font-bold uppercase tracking-wider">Duração do Serviço</span>
+                    <span className="text-xs font-bold uppercase tracking-wider">{basket.length > 1 ? 'Duração da Visita' : 'Duração do Serviço'}</span>
                   </div>
                   <p className="text-lg font-bold text-stone-800 dark:text-stone-100">
-                    {selectedService?.duration} minutos
+                    {totalDuration} minutos
                   </p>
                   <p className="text-[10px] text-stone-400 dark:text-stone-500 mt-1">
                     Tempo estimado definido pelo estabelecimento.
@@ -439,7 +650,7 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
 
             <div className="mt-12 flex justify-between">
               <button 
-                onClick={() => setStep(2)} 
+                onClick={() => rescheduling ? onBack?.() : setStep(2)} 
                 className="text-stone-400 dark:text-stone-500 font-medium hover:text-stone-600 dark:hover:text-stone-300 transition-colors"
               >
                 Voltar
@@ -477,8 +688,10 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                     />
                   </div>
                   <div>
-                    <p className="text-xs font-bold text-brand-primary uppercase tracking-widest mb-1">Serviço Selecionado</p>
-                    <h3 className="text-xl font-bold text-stone-800 dark:text-stone-100">{selectedService?.name}</h3>
+                    <p className="text-xs font-bold text-brand-primary uppercase tracking-widest mb-1">
+                      {basket.length > 1 ? `${basket.length} Serviços Selecionados` : 'Serviço Selecionado'}
+                    </p>
+                    <h3 className="text-xl font-bold text-stone-800 dark:text-stone-100">{basket.map(s => s.name).join(' + ')}</h3>
                     <p className="text-sm text-stone-500 dark:text-stone-400">{(selectedService as any).salons?.name}</p>
                   </div>
                 </div>
@@ -505,7 +718,7 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                     <div>
                       <p className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-wider mb-1">Duração</p>
                       <div className="text-stone-800 dark:text-stone-100 font-medium">
-                        {customDuration} minutos
+                        {totalDuration} minutos
                       </div>
                     </div>
                     <div>
@@ -520,7 +733,7 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                     <div>
                       <p className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-wider mb-1">Valor</p>
                       <div className="text-xl font-bold text-brand-primary">
-                        R$ {selectedService?.price.toFixed(2)}
+                        R$ {totalPrice.toFixed(2)}
                       </div>
                     </div>
                   </div>
@@ -528,18 +741,113 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
 
                 <div className="bg-stone-100/50 dark:bg-stone-800/50 p-4 text-center border-t border-stone-200 dark:border-stone-700">
                   <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">
-                    O pagamento será realizado diretamente no estabelecimento.
+                    {prepaymentMessage(prepayment, totalPrice)}
                   </p>
+                  {policy.cancelNoticeHours > 0 && (
+                    <p className="text-[10px] text-stone-400 dark:text-stone-500 italic mt-1">
+                      Cancelamentos e remarcações até {formatDuration(policy.cancelNoticeHours * 60)} antes do horário.
+                    </p>
+                  )}
+                  {confirmationMessage(confirmationRules) && (
+                    <p className="text-[10px] text-stone-400 dark:text-stone-500 italic mt-1">
+                      {confirmationMessage(confirmationRules)}
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {!rescheduling && reliabilityAction && (
+                <div className={`rounded-2xl p-4 mb-6 border text-sm ${
+                  reliabilityAction === 'block'
+                    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+                    : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200'
+                }`}>
+                  {reliabilityMessage(reliabilityAction)}
+                </div>
+              )}
+
+              {prepayment && acceptsPix && !recurrence && !pixCharge && (
+                <div className="grid grid-cols-2 gap-2 mb-6">
+                  {(['card', 'pix'] as const).map(method => (
+                    <button
+                      key={method}
+                      onClick={() => setPayWith(method)}
+                      className={`py-3 rounded-xl text-sm font-bold border transition-all ${
+                        payWith === method
+                          ? 'bg-brand-primary text-white border-brand-primary'
+                          : 'bg-white dark:bg-stone-800 text-stone-600 dark:text-stone-300 border-stone-200 dark:border-stone-700 hover:border-brand-primary'
+                      }`}
+                    >
+                      {method === 'pix' ? 'Pagar com PIX' : 'Pagar com Cartão'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {canRepeat && !pixCharge && (
+                <div className="mb-6">
+                  <RecurrencePicker value={recurrence} onChange={setRecurrence} preview={seriesPreview} loadingPreview={loadingPreview} />
+                </div>
+              )}
+
+              {alternatives.length > 0 && (
+                <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-2xl p-4 mb-6">
+                  <p className="text-sm font-bold text-amber-800 dark:text-amber-200 mb-3">
+                    Este horário não está mais disponível. Que tal um destes?
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {alternatives.map(slot => (
+                      <button
+                        key={slot.time}
+                        onClick={() => {
+                          setSelectedTime(slot.time);
+                          setCustomTime('');
+                          setAlternatives([]);
+                        }}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white dark:bg-stone-800 text-stone-700 dark:text-stone-200 border border-amber-200 dark:border-amber-800 hover:bg-brand-primary hover:text-white transition-all"
+                      >
+                        {slot.time}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {pixCharge ? (
+                <div className="flex flex-col gap-4">
+                  <div className="bg-stone-50 dark:bg-stone-800/50 rounded-[32px] border border-stone-200 dark:border-stone-700 p-6">
+                    <p className="text-sm text-center text-stone-600 dark:text-stone-300 mb-4">
+                      Horário reservado! Escaneie o QR Code no app do seu banco para confirmar.
+                    </p>
+                    <PixQrCode
+                      payload={pixCharge.payload}
+                      amount={pixCharge.amount}
+                      expiresAt={pixCharge.expires_at}
+                      appointmentId={pixCharge.appointmentId}
+                      onPaid={() => {
+                        toast.success('Pagamento PIX recebido! Agendamento confirmado.');
+                        setPixCharge(null);
+                        setStep(5);
+                      }}
+                    />
+                  </div>
+                  <button
+                    onClick={() => onSuccess?.()}
+                    className="w-full py-4 text-stone-400 dark:text-stone-500 font-medium hover:text-stone-600 dark:hover:text-stone-300 transition-colors"
+                  >
+                    Pagar depois em Meus Agendamentos
+                  </button>
+                </div>
+              ) : (
               <div className="flex flex-col gap-4">
                 <button 
                   onClick={handleBooking}
-                  disabled={loading}
+                  disabled={loading || (!rescheduling && reliabilityAction === 'block')}
                   className="w-full bg-brand-primary text-white py-5 rounded-2xl font-bold text-lg shadow-xl shadow-brand-primary/20 hover:bg-opacity-95 transition-all disabled:opacity-50"
                 >
-                  {loading ? 'Processando...' : 'Finalizar Agendamento'}
+                  {loading ? 'Processando...' : rescheduling
+                    ? rescheduleScope === 'series' ? 'Remarcar Este e os Próximos' : 'Confirmar Remarcação'
+                    : recurrence ? 'Agendar Série' : prepayment ? 'Agendar e Pagar' : 'Finalizar Agendamento'}
                 </button>
                 <button 
                   onClick={() => setStep(3)} 
@@ -548,6 +856,7 @@ export default function Booking({ initialService, onSuccess, onBack }: BookingPr
                   Voltar e Editar
                 </button>
               </div>
+              )}
             </div>
           </div>
         )}
@@ -14,14 +14,15 @@ import {
   parseISO
 } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
-import { Appointment } from '../types';
+import { ChevronLeft, ChevronRight, Clock, CalendarOff } from 'lucide-react';
+import { Appointment, SalonSpecialDate } from '../types';
 
 interface CalendarViewProps {
   appointments: any[];
+  specialDates?: SalonSpecialDate[];
 }
 
-export default function CalendarView({ appointments }: CalendarViewProps) {
+export default function CalendarView({ appointments, specialDates = [] }: CalendarViewProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
 
@@ -42,6 +43,15 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
     return appointments.filter(apt => isSameDay(parseISO(apt.start_time), day));
   };
 
+  const getSpecialDate = (day: Date) => {
+    return specialDates.find(special => special.date === format(day, 'yyyy-MM-dd'));
+  };
+
+  const describeSpecialDate = (special: SalonSpecialDate) => {
+    const hours = special.kind === 'closed' ? 'Fechado' : `${special.start_time?.slice(0, 5)} - ${special.end_time?.slice(0, 5)}`;
+    return special.description ? `${hours} • ${special.description}` : hours;
+  };
+
   const dayNames = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
 
   return (
@@ -90,6 +100,7 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
               const isSelected = isSameDay(day, selectedDate);
               const isCurrentMonth = isSameMonth(day, monthStart);
               const isToday = isSameDay(day, new Date());
+              const special = getSpecialDate(day);
 
               return (
                 <div 
@@ -97,7 +108,7 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
                   onClick={() => setSelectedDate(day)}
                   className={`min-h-[80px] sm:min-h-[120px] p-1 sm:p-2 border-r border-b border-stone-50 dark:border-stone-800 transition-all cursor-pointer group ${
                     !isCurrentMonth ? 'bg-stone-50/30 dark:bg-stone-800/30' : 'bg-white dark:bg-stone-900'
-                  } ${isSelected ? 'ring-2 ring-inset ring-brand-primary/20 bg-brand-primary/5 dark:bg-brand-primary/10' : 'hover:bg-stone-50 dark:hover:bg-stone-800'}`}
+                  } ${special?.kind === 'closed' ? 'bg-red-50/50 dark:bg-red-900/10' : ''} ${isSelected ? 'ring-2 ring-inset ring-brand-primary/20 bg-brand-primary/5 dark:bg-brand-primary/10' : 'hover:bg-stone-50 dark:hover:bg-stone-800'}`}
                 >
                   <div className="flex justify-between items-start mb-1 sm:mb-2">
                     <span className={`text-xs sm:text-sm font-medium w-6 h-6 sm:w-7 sm:h-7 flex items-center justify-center rounded-full transition-colors ${
@@ -114,6 +125,12 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
                     )}
                   </div>
 
+                  {special && (
+                    <div className={`text-[8px] sm:text-[10px] font-bold mb-1 truncate ${special.kind === 'closed' ? 'text-red-500 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                      {special.kind === 'closed' ? (special.description || 'Fechado') : `${special.start_time?.slice(0, 5)}-${special.end_time?.slice(0, 5)}`}
+                    </div>
+                  )}
+
                   <div className="space-y-1 overflow-hidden">
                     {dayAppointments.slice(0, 2).map((apt, aIdx) => (
                       <div 
@@ -122,6 +139,7 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
                           apt.status === 'confirmed' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-100 dark:border-emerald-800' :
                           apt.status === 'cancelled' ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800' :
                           apt.status === 'completed' ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-100 dark:border-blue-800' :
+                          apt.status === 'no_show' ? 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-400 border-stone-200 dark:border-stone-700' :
                           'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-100 dark:border-amber-800'
                         }`}
                       >
@@ -148,6 +166,12 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
             <Clock className="h-5 w-5 mr-2 text-brand-primary" />
             Agenda para {format(selectedDate, "dd 'de' MMMM", { locale: ptBR })}
           </h3>
+          {getSpecialDate(selectedDate) && (
+            <p className="mb-4 flex items-center text-sm font-medium text-red-500 dark:text-red-400">
+              <CalendarOff className="h-4 w-4 mr-2" />
+              {describeSpecialDate(getSpecialDate(selectedDate)!)}
+            </p>
+          )}
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {getAppointmentsForDay(selectedDate).length === 0 ? (
               <p className="text-stone-400 dark:text-stone-500 italic text-sm">Nenhum agendamento para este dia.</p>
@@ -164,11 +188,13 @@ export default function CalendarView({ appointments }: CalendarViewProps) {
                   <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${
                     apt.status === 'confirmed' ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-400' : 
                     apt.status === 'cancelled' ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400' : 
-                    apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-400' : 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400'
+                    apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-400' :
+                    apt.status === 'no_show' ? 'bg-stone-200 dark:bg-stone-700 text-stone-700 dark:text-stone-300' : 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400'
                   }`}>
                     {apt.status === 'confirmed' ? 'Conf.' : 
                      apt.status === 'cancelled' ? 'Canc.' : 
-                     apt.status === 'completed' ? 'Concl.' : 'Pend.'}
+                     apt.status === 'completed' ? 'Concl.' :
+                     apt.status === 'no_show' ? 'Faltou' : 'Pend.'}
                   </span>
                 </div>
               ))
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { X, Receipt, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { apiFetch } from '../lib/api';
+import { formatBRL } from '../lib/payments';
+import { PAYMENT_METHODS, PaymentMethod, SaleItemInput, SalePaymentInput, paidTotal, saleError, saleTotals } from '../lib/sales';
+import { pixPayload } from '../lib/pix';
+import { Salon } from '../types';
+import PixQrCode from './PixQrCode';
+
+interface CheckoutModalProps {
+  visit: any[]; // appointments of the visit being closed, with services, profiles and payments embedded
+  salon?: Salon | null; // its PIX key turns the PIX part of the bill into a QR code
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-xl border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-800 text-stone-800 dark:text-stone-100 focus:ring-2 focus:ring-brand-primary outline-none text-sm';
+
+// What the salon kept from the online prepayment of the visit, already in the till
+function prepaidOnline(visit: any[]) {
+  return visit
+    .flatMap(apt => apt.payments || [])
+    .filter((payment: any) => payment.status === 'succeeded' || payment.status === 'partially_refunded')
+    .reduce((sum: number, payment: any) => sum + Number(payment.amount) - Number(payment.refunded_amount || 0), 0);
+}
+
+export default function CheckoutModal({ visit, salon, onClose, onSuccess }: CheckoutModalProps) {
+  const [items, setItems] = useState<SaleItemInput[]>([]);
+  const [discount, setDiscount] = useState(0);
+  const [tip, setTip] = useState(0);
+  const [payments, setPayments] = useState<SalePaymentInput[]>([]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const first = visit[0];
+
+  useEffect(() => {
+    if (!first) return;
+    const visitItems: SaleItemInput[] = visit.map(apt => ({
+      kind: 'service',
+      description: apt.services?.name || 'Serviço',
+      service_id: apt.service_id,
+      quantity: 1,
+      unit_price: Number(apt.services?.price || 0),
+    }));
+    const { total } = saleTotals({ items: visitItems, discount: 0, tip: 0 });
+    const online = Math.min(prepaidOnline(visit), total);
+    setItems(visitItems);
+    setDiscount(0);
+    setTip(0);
+    setNotes('');
+    setPayments([
+      ...(online > 0 ? [{ method: 'online' as PaymentMethod, amount: online }] : []),
+      ...(total - online > 0 ? [{ method: 'pix' as PaymentMethod, amount: Math.round((total - online) * 100) / 100 }] : []),
+    ]);
+  }, [first?.id]);
+
+  if (!first) return null;
+
+  const { subtotal, total } = saleTotals({ items, discount, tip });
+  const remaining = Math.round((total - paidTotal(payments)) * 100) / 100;
+  const pixAmount = paidTotal(payments.filter(payment => payment.method === 'pix'));
+  const pixCode = salon?.pix_key && pixAmount > 0
+    ? pixPayload({ key: salon.pix_key, merchantName: salon.name, merchantCity: salon.city || '', amount: pixAmount, txid: first.id })
+    : null;
+
+  const updateItem = (index: number, changes: Partial<SaleItemInput>) =>
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  const updatePayment = (index: number, changes: Partial<SalePaymentInput>) =>
+    setPayments(prev => prev.map((payment, i) => i === index ? { ...payment, ...changes } : payment));
+
+  const handleSubmit = async () => {
+    const sale = { items, discount, tip, payments, notes: notes.trim() || undefined };
+    const invalid = saleError(sale);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await apiFetch(`/api/appointments/${first.id}/checkout`, { method: 'POST', body: JSON.stringify(sale) });
+      toast.success(`Atendimento concluído • ${formatBRL(total)}`);
+      onSuccess();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao fechar o atendimento');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 dark:bg-black/80 backdrop-blur-sm transition-colors duration-300">
+      <div className="bg-white dark:bg-stone-900 rounded-[32px] w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl overflow-hidden border border-stone-100 dark:border-stone-800">
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center text-stone-800 dark:text-stone-100">
+            <Receipt className="mr-2 h-5 w-5 text-brand-primary" /> Fechar Atendimento
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 dark:hover:bg-stone-800 rounded-full transition-colors">
+            <X className="h-5 w-5 text-stone-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-stone-500 dark:text-stone-400">{first.profiles?.full_name || 'Cliente'}</p>
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-stone-400 uppercase">Itens</span>
+            {items.map((item, index) => (
+              <div key={index} className="grid grid-cols-[1fr_4rem_6rem_auto] gap-2 items-center">
+                <input
+                  type="text"
+                  value={item.description}
+                  placeholder={item.kind === 'product' ? 'Produto' : 'Serviço'}
+                  onChange={e => updateItem(index, { description: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={item.quantity}
+                  onChange={e => updateItem(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unit_price}
+                  onChange={e => updateItem(index, { unit_price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-stone-400 hover:text-red-500 transition-colors"
+                  title="Remover"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setItems(prev => [...prev, { kind: 'product', description: '', quantity: 1, unit_price: 0 }])}
+              className="flex items-center text-xs font-bold text-brand-primary hover:underline"
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" /> Adicionar produto
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className="text-[10px] font-bold text-stone-400 uppercase">Desconto (R$)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={discount}
+                onChange={e => setDiscount(Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[10px] font-bold text-stone-400 uppercase">Gorjeta (R$)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tip}
+                onChange={e => setTip(Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="p-4 bg-stone-50 dark:bg-stone-800/50 rounded-2xl space-y-1 text-sm">
+            <div className="flex justify-between text-stone-500 dark:text-stone-400"><span>Subtotal</span><span>{formatBRL(subtotal)}</span></div>
+            {discount > 0 && <div className="flex justify-between text-stone-500 dark:text-stone-400"><span>Desconto</span><span>- {formatBRL(discount)}</span></div>}
+            {tip > 0 && <div className="flex justify-between text-stone-500 dark:text-stone-400"><span>Gorjeta</span><span>+ {formatBRL(tip)}</span></div>}
+            <div className="flex justify-between font-bold text-stone-800 dark:text-stone-100 pt-1"><span>Total</span><span>{formatBRL(total)}</span></div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-stone-400 uppercase">Pagamento</span>
+            {payments.map((payment, index) => (
+              <div key={index} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-center">
+                <select
+                  value={payment.method}
+                  onChange={e => updatePayment(index, { method: e.target.value as PaymentMethod })}
+                  className={inputClass}
+                >
+                  {(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).map(method => (
+                    <option key={method} value={method} className="dark:bg-stone-900">{PAYMENT_METHODS[method]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={payment.amount}
+                  onChange={e => updatePayment(index, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setPayments(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-stone-400 hover:text-red-500 transition-colors"
+                  title="Remover"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setPayments(prev => [...prev, { method: 'cash', amount: Math.max(0, remaining) }])}
+                className="flex items-center text-xs font-bold text-brand-primary hover:underline"
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" /> Dividir pagamento
+              </button>
+              {remaining !== 0 && (
+                <span className="text-xs font-bold text-amber-600 dark:text-amber-400">
+                  {remaining > 0 ? `Faltam ${formatBRL(remaining)}` : `Sobram ${formatBRL(-remaining)}`}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {pixCode && (
+            <div className="p-4 bg-stone-50 dark:bg-stone-800/50 rounded-2xl">
+              <span className="block text-[10px] font-bold text-stone-400 uppercase mb-3">Cobrança PIX</span>
+              <PixQrCode payload={pixCode} amount={pixAmount} />
+            </div>
+          )}
+
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Observações (opcional)"
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="p-6 border-t border-stone-100 dark:border-stone-800">
+          <button
+            disabled={saving}
+            onClick={handleSubmit}
+            className="w-full bg-brand-primary text-white py-3 rounded-xl font-semibold shadow-lg shadow-brand-primary/20 hover:bg-opacity-90 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Salvando...' : `Concluir e Registrar ${formatBRL(total)}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Appointment, Profile } from '../types';
-import { Calendar, Clock, Scissors, CheckCircle, XCircle, AlertCircle, Trash2, X, Star, User } from 'lucide-react';
+import { Calendar, CalendarClock, Clock, Scissors, CheckCircle, XCircle, AlertCircle, Trash2, X, Star, User, Repeat, History, UserX, CreditCard, QrCode } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
+import { apiFetch } from '../lib/api';
+import { changeBlockedReason, policyOf } from '../lib/policy';
+import { isLateCancel, rulesOf } from '../lib/reliability';
+import { CancellationSettlement, SETTLED_PREPAYMENT_LABELS, refundRulesOf, settlementFor, settlementMessage } from '../lib/refunds';
+import ClientWaitlist from './ClientWaitlist';
+import AppointmentTimeline from './AppointmentTimeline';
+import PixQrCode from './PixQrCode';
 
 interface ClientAppointmentsProps {
   profile: Profile | null;
+  onReschedule?: (apt: Appointment, scope?: 'one' | 'series') => void;
 }
 
-export default function ClientAppointments({ profile }: ClientAppointmentsProps) {
+export default function ClientAppointments({ profile, onReschedule }: ClientAppointmentsProps) {
   const [appointments, setAppointments] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [reviewingApt, setReviewingApt] = useState<any | null>(null);
+  const [reschedulingSeriesApt, setReschedulingSeriesApt] = useState<any | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [pixCharge, setPixCharge] = useState<{ appointmentId: string; payload: string; amount: number; expires_at: string } | null>(null);
   const [rating, setRating] = useState(5);
   const [comment, setComment] = useState('');
 
@@ -43,7 +54,8 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
               const statusMap: Record<string, string> = {
                 confirmed: 'confirmado',
                 cancelled: 'cancelado',
-                completed: 'concluído'
+                completed: 'concluído',
+                no_show: 'marcado como não comparecimento'
               };
               
               toast(`Seu agendamento foi ${statusMap[newApt.status] || newApt.status}!`, {
@@ -71,7 +83,7 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
     try {
       const { data, error } = await supabase
         .from('appointments')
-        .select('*, services(name, price, duration), professionals(name)')
+        .select('*, services(name, price, duration), professionals(name), salons(name, cancel_notice_hours, late_cancel_hours, late_cancel_policy, cancellation_fee_percent, pix_key), payments(amount, kind, status, refunded_amount, retained_amount)')
         .eq('client_id', profile?.id)
         .order('start_time', { ascending: false });
 
@@ -114,15 +126,11 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
     const toastId = toast.loading('Cancelando agendamento...');
     setIsProcessing(true);
     try {
-      const { error } = await supabase
-        .from('appointments')
-        .update({ status: 'cancelled' })
-        .eq('id', id)
-        .eq('client_id', profile?.id);
-
-      if (error) throw error;
+      const { settlement } = await apiFetch<{ settlement: CancellationSettlement | null }>(`/api/appointments/${id}/cancel`, { method: 'POST' });
 
-      toast.success('Agendamento cancelado com sucesso', { id: toastId });
+      toast.success(settlement
+        ? `Agendamento cancelado. ${settlementMessage(settlement)}${settlement.refundIssued ? '' : ' O reembolso será processado em breve.'}`
+        : 'Agendamento cancelado com sucesso', { id: toastId, duration: settlement ? 6000 : undefined });
       setCancellingId(null);
       await fetchAppointments(false);
     } catch (error: any) {
@@ -133,6 +141,78 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
     }
   };
 
+  // Opens a new checkout for a visit still holding its slot for online payment
+  const handlePay = async (id: string) => {
+    const toastId = toast.loading('Abrindo pagamento...');
+    setIsProcessing(true);
+    try {
+      const checkout = await apiFetch<{ url: string }>('/api/payments/checkout', {
+        method: 'POST',
+        body: JSON.stringify({ appointment_id: id })
+      });
+      window.location.assign(checkout.url);
+    } catch (error: any) {
+      console.error('Error starting payment:', error);
+      toast.error(error.message || 'Erro ao iniciar o pagamento', { id: toastId });
+      setIsProcessing(false);
+    }
+  };
+
+  // A fresh PIX charge for the visit; the previous QR code stops being valid
+  const handlePayPix = async (id: string) => {
+    const toastId = toast.loading('Gerando PIX...');
+    setIsProcessing(true);
+    try {
+      const charge = await apiFetch<{ payload: string; amount: number; expires_at: string }>('/api/payments/pix', {
+        method: 'POST',
+        body: JSON.stringify({ appointment_id: id })
+      });
+      setPixCharge({ appointmentId: id, ...charge });
+      toast.dismiss(toastId);
+    } catch (error: any) {
+      console.error('Error starting PIX payment:', error);
+      toast.error(error.message || 'Erro ao gerar o PIX', { id: toastId });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Cancels this occurrence and every later one of its recurring series
+  const handleCancelSeries = async (apt: Appointment) => {
+    const toastId = toast.loading('Cancelando série...');
+    setIsProcessing(true);
+    try {
+      const result = await apiFetch(`/api/appointment-series/${apt.series_id}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ from_appointment_id: apt.id })
+      });
+
+      toast.success(`${result.appointments.length} horários da série cancelados`, { id: toastId });
+      setCancellingId(null);
+      await fetchAppointments(false);
+    } catch (error: any) {
+      console.error('Error cancelling series:', error);
+      toast.error(error.message || 'Erro ao cancelar série', { id: toastId });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const cancellingApt = appointments.find(a => a.id === cancellingId);
+
+  // What cancelling now would do to the money already paid for the visit
+  const cancellingVisit = cancellingApt
+    ? appointments
+        .filter(a => a.id === cancellingApt.id || (!!cancellingApt.group_id && a.group_id === cancellingApt.group_id))
+        .sort((a, b) => a.start_time.localeCompare(b.start_time))
+    : [];
+  const cancellingPayment = cancellingVisit.flatMap(a => (a as any).payments || []).find((p: any) => p.status === 'succeeded');
+  const cancellingSettlement = cancellingApt && cancellingPayment ? settlementFor(
+    cancellingPayment,
+    { byClient: true, late: isLateCancel(cancellingVisit[0].start_time, new Date().toISOString(), rulesOf((cancellingApt as any).salons)) },
+    refundRulesOf((cancellingApt as any).salons)
+  ) : null;
+
   if (loading) return <div className="p-12 text-center">Carregando seus agendamentos...</div>;
 
   return (
@@ -142,6 +222,8 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
         <p className="text-stone-500 dark:text-stone-400 text-sm sm:text-base">Acompanhe o status dos seus pedidos de reserva.</p>
       </header>
 
+      {profile && <ClientWaitlist clientId={profile.id} onClaimed={() => fetchAppointments(false)} />}
+
       <div className="space-y-6">
         {appointments.length === 0 ? (
           <div className="bg-white dark:bg-stone-900 rounded-3xl p-12 text-center border border-dashed border-stone-200 dark:border-stone-700">
@@ -149,86 +231,175 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
             <p className="text-stone-400 dark:text-stone-500 italic">Você ainda não realizou nenhum agendamento.</p>
           </div>
         ) : (
-          appointments.map((apt) => (
-            <div key={apt.id} className="bg-white dark:bg-stone-900 rounded-3xl p-4 sm:p-6 shadow-sm border border-stone-100 dark:border-stone-800 flex flex-col md:flex-row md:items-center justify-between gap-6 hover:shadow-md transition-all">
-              <div className="flex items-center space-x-4 sm:space-x-6">
-                <div className="p-3 sm:p-4 bg-stone-50 dark:bg-stone-800 rounded-2xl shrink-0">
-                  <Scissors className="h-5 w-5 sm:h-6 sm:w-6 text-brand-primary" />
-                </div>
-                <div className="min-w-0">
-                  <h3 className="text-lg sm:text-xl font-bold text-stone-800 dark:text-stone-100 truncate">{apt.services?.name}</h3>
-                  <div className="flex flex-wrap gap-x-4 gap-y-2 mt-1">
-                    <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
-                      <Calendar className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
-                      {format(parseISO(apt.start_time), "dd 'de' MMMM", { locale: ptBR })}
-                    </div>
-                    <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
-                      <Clock className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
-                      {format(parseISO(apt.start_time), "HH:mm")} ({apt.services?.duration} min)
+          appointments.map((apt) => {
+            // Cancel and reschedule follow the salon's notice policy
+            const blockedReason = changeBlockedReason(policyOf(apt.salons), apt);
+            return (
+              <div key={apt.id} className="bg-white dark:bg-stone-900 rounded-3xl p-4 sm:p-6 shadow-sm border border-stone-100 dark:border-stone-800 hover:shadow-md transition-all">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                  <div className="flex items-center space-x-4 sm:space-x-6">
+                    <div className="p-3 sm:p-4 bg-stone-50 dark:bg-stone-800 rounded-2xl shrink-0">
+                      <Scissors className="h-5 w-5 sm:h-6 sm:w-6 text-brand-primary" />
                     </div>
-                    {apt.professionals?.name && (
-                      <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
-                        <User className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
-                        {apt.professionals.name}
+                    <div className="min-w-0">
+                      <h3 className="text-lg sm:text-xl font-bold text-stone-800 dark:text-stone-100 truncate">
+                        {apt.services?.name}
+                        {apt.group_id && <span className="ml-2 text-[10px] font-bold text-brand-primary uppercase align-middle">Combo</span>}
+                        {apt.series_id && (
+                          <span className="ml-2 inline-flex items-center text-[10px] font-bold text-brand-primary uppercase align-middle">
+                            <Repeat className="h-3 w-3 mr-0.5" /> Recorrente
+                          </span>
+                        )}
+                      </h3>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2 mt-1">
+                        <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
+                          <Calendar className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+                          {format(parseISO(apt.start_time), "dd 'de' MMMM", { locale: ptBR })}
+                        </div>
+                        <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
+                          <Clock className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+                          {format(parseISO(apt.start_time), "HH:mm")} ({apt.services?.duration} min)
+                        </div>
+                        {apt.professionals?.name && (
+                          <div className="flex items-center text-[10px] sm:text-sm text-stone-500 dark:text-stone-400">
+                            <User className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+                            {apt.professionals.name}
+                          </div>
+                        )}
                       </div>
-                    )}
+                    </div>
                   </div>
-                </div>
-              </div>
 
-              <div className="flex items-center justify-between md:justify-end md:space-x-8 border-t md:border-t-0 pt-4 md:pt-0 border-stone-100 dark:border-stone-800">
-                <div className="flex flex-col sm:flex-row gap-4 items-center">
-                  {apt.status === 'completed' && (
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        setReviewingApt(apt);
-                      }}
-                      className="flex items-center text-[10px] sm:text-xs font-bold text-brand-primary hover:text-brand-primary/80 transition-colors uppercase tracking-wider"
-                    >
-                      <Star className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Avaliar
-                    </button>
-                  )}
-                  {(apt.status === 'pending' || apt.status === 'confirmed') && (
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        setCancellingId(apt.id);
-                      }}
-                      className="flex items-center text-[10px] sm:text-xs font-bold text-red-500 hover:text-red-700 transition-colors uppercase tracking-wider"
-                    >
-                      <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Cancelar
-                    </button>
-                  )}
-                </div>
-                
-                <div className="text-right">
-                  <p className="text-[10px] text-stone-400 dark:text-stone-500 uppercase font-bold tracking-wider">Valor</p>
-                  <p className="text-base sm:text-lg font-bold text-brand-primary whitespace-nowrap">R$ {apt.services?.price.toFixed(2)}</p>
-                </div>
-                
-                <div className={`flex items-center px-3 sm:px-4 py-1.5 sm:py-2 rounded-full text-[10px] sm:text-sm font-bold whitespace-nowrap ${
-                  apt.status === 'confirmed' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 
-                  apt.status === 'cancelled' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400' : 
-                  apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
-                }`}>
-                  {apt.status === 'confirmed' ? (
-                    <><CheckCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Confirmado</>
-                  ) : apt.status === 'cancelled' ? (
-                    <><XCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Cancelado</>
-                  ) : apt.status === 'completed' ? (
-                    <><CheckCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Concluído</>
-                  ) : (
-                    <><AlertCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Pendente</>
-                  )}
+                  <div className="flex items-center justify-between md:justify-end md:space-x-8 border-t md:border-t-0 pt-4 md:pt-0 border-stone-100 dark:border-stone-800">
+                    <div className="flex flex-col sm:flex-row gap-4 items-center">
+                      <button
+                        type="button"
+                        onClick={() => setHistoryId(historyId === apt.id ? null : apt.id)}
+                        className="flex items-center text-[10px] sm:text-xs font-bold text-stone-400 dark:text-stone-500 hover:text-brand-primary transition-colors uppercase tracking-wider"
+                      >
+                        <History className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Histórico
+                      </button>
+                      {apt.status === 'completed' && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setReviewingApt(apt);
+                          }}
+                          className="flex items-center text-[10px] sm:text-xs font-bold text-brand-primary hover:text-brand-primary/80 transition-colors uppercase tracking-wider"
+                        >
+                          <Star className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Avaliar
+                        </button>
+                      )}
+                      {apt.status === 'pending' && apt.prepayment_status === 'awaiting' && (
+                        <button
+                          type="button"
+                          disabled={isProcessing}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handlePay(apt.id);
+                          }}
+                          className="flex items-center text-[10px] sm:text-xs font-bold text-brand-primary hover:text-brand-primary/80 transition-colors uppercase tracking-wider disabled:opacity-40"
+                        >
+                          <CreditCard className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Pagar agora
+                        </button>
+                      )}
+                      {apt.status === 'pending' && apt.prepayment_status === 'awaiting' && apt.salons?.pix_key && (
+                        <button
+                          type="button"
+                          disabled={isProcessing}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handlePayPix(apt.id);
+                          }}
+                          className="flex items-center text-[10px] sm:text-xs font-bold text-brand-primary hover:text-brand-primary/80 transition-colors uppercase tracking-wider disabled:opacity-40"
+                        >
+                          <QrCode className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Pagar com PIX
+                        </button>
+                      )}
+                      {(apt.status === 'pending' || apt.status === 'confirmed') && blockedReason && (
+                        <p className="text-[10px] text-stone-400 dark:text-stone-500 italic max-w-[200px] text-center sm:text-right">{blockedReason}</p>
+                      )}
+                      {(apt.status === 'pending' || apt.status === 'confirmed') && onReschedule && (
+                        <button
+                          type="button"
+                          disabled={!!blockedReason}
+                          title={blockedReason || undefined}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            if (apt.series_id) {
+                              setReschedulingSeriesApt(apt);
+                            } else {
+                              onReschedule(apt);
+                            }
+                          }}
+                          className="flex items-center text-[10px] sm:text-xs font-bold text-stone-500 dark:text-stone-400 hover:text-brand-primary transition-colors uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-stone-500"
+                        >
+                          <CalendarClock className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Remarcar
+                        </button>
+                      )}
+                      {(apt.status === 'pending' || apt.status === 'confirmed') && (
+                        <button
+                          type="button"
+                          disabled={!!blockedReason}
+                          title={blockedReason || undefined}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setCancellingId(apt.id);
+                          }}
+                          className="flex items-center text-[10px] sm:text-xs font-bold text-red-500 hover:text-red-700 transition-colors uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-red-500"
+                        >
+                          <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" /> Cancelar
+                        </button>
+                      )}
+                    </div>
+                  
+                    <div className="text-right">
+                      <p className="text-[10px] text-stone-400 dark:text-stone-500 uppercase font-bold tracking-wider">Valor</p>
+                      <p className="text-base sm:text-lg font-bold text-brand-primary whitespace-nowrap">R$ {apt.services?.price.toFixed(2)}</p>
+                      {apt.prepayment_status === 'paid' && (
+                        <p className="text-[10px] text-emerald-600 dark:text-emerald-400 font-bold">Pago online</p>
+                      )}
+                      {apt.prepayment_status && apt.prepayment_status !== 'paid' && apt.prepayment_status !== 'awaiting' && (
+                        <p className="text-[10px] text-stone-500 dark:text-stone-400 font-bold">{SETTLED_PREPAYMENT_LABELS[apt.prepayment_status]}</p>
+                      )}
+                    </div>
+                  
+                    <div className={`flex items-center px-3 sm:px-4 py-1.5 sm:py-2 rounded-full text-[10px] sm:text-sm font-bold whitespace-nowrap ${
+                      apt.status === 'confirmed' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 
+                      apt.status === 'cancelled' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400' : 
+                      apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400' :
+                      apt.status === 'no_show' ? 'bg-stone-200 dark:bg-stone-700 text-stone-700 dark:text-stone-300' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                    }`}>
+                      {apt.status === 'confirmed' ? (
+                        <><CheckCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Confirmado</>
+                      ) : apt.status === 'cancelled' ? (
+                        <><XCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Cancelado</>
+                      ) : apt.status === 'completed' ? (
+                        <><CheckCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Concluído</>
+                      ) : apt.status === 'no_show' ? (
+                        <><UserX className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Não compareceu</>
+                      ) : apt.prepayment_status === 'awaiting' ? (
+                        <><CreditCard className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Aguardando pagamento</>
+                      ) : (
+                        <><AlertCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" /> Pendente</>
+                      )}
+                    </div>
+                  </div>
                 </div>
+                {historyId === apt.id && (
+                  <div className="mt-4 pt-4 border-t border-stone-100 dark:border-stone-800">
+                    <AppointmentTimeline appointmentId={apt.id} />
+                  </div>
+                )}
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
       <AnimatePresence>
@@ -315,8 +486,26 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
               <h3 className="text-2xl serif text-stone-800 dark:text-stone-100 mb-2">Cancelar Agendamento?</h3>
               <p className="text-stone-500 dark:text-stone-400 mb-8">
                 Tem certeza que deseja cancelar este agendamento? Esta ação não pode ser desfeita.
+                {cancellingApt?.group_id && ' Todos os serviços desta visita serão cancelados juntos.'}
+                {cancellingApt?.series_id && ' Este horário faz parte de uma série recorrente.'}
               </p>
 
+              {cancellingSettlement && (
+                <p className={`-mt-4 mb-8 text-sm font-medium ${cancellingSettlement.retained > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                  {settlementMessage(cancellingSettlement)}
+                </p>
+              )}
+
+              {cancellingApt?.series_id && (
+                <button
+                  disabled={isProcessing}
+                  onClick={() => handleCancelSeries(cancellingApt)}
+                  className="w-full mb-3 px-6 py-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl font-bold hover:bg-red-100 dark:hover:bg-red-900/40 transition-all disabled:opacity-50"
+                >
+                  Cancelar este e os próximos da série
+                </button>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-3">
                 <button
                   disabled={isProcessing}
@@ -330,7 +519,89 @@ export default function ClientAppointments({ profile }: ClientAppointmentsProps)
                   onClick={() => handleCancel(cancellingId)}
                   className="flex-1 px-6 py-3 bg-red-500 text-white rounded-xl font-bold hover:bg-red-600 transition-all shadow-lg shadow-red-500/20 disabled:opacity-50"
                 >
-                  {isProcessing ? 'Cancelando...' : 'Sim, cancelar'}
+                  {isProcessing ? 'Cancelando...' : cancellingApt?.series_id ? 'Só este' : 'Sim, cancelar'}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {pixCharge && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/60 dark:bg-black/80 backdrop-blur-sm transition-colors duration-300">
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="bg-white dark:bg-stone-900 w-full max-w-md rounded-[32px] shadow-2xl overflow-hidden p-8 text-center border border-stone-100 dark:border-stone-800"
+            >
+              <h3 className="text-2xl serif text-stone-800 dark:text-stone-100 mb-2">Pagar com PIX</h3>
+              <p className="text-stone-500 dark:text-stone-400 mb-6">Escaneie o QR Code no app do seu banco ou copie o código.</p>
+              <PixQrCode
+                payload={pixCharge.payload}
+                amount={pixCharge.amount}
+                expiresAt={pixCharge.expires_at}
+                appointmentId={pixCharge.appointmentId}
+                onPaid={() => {
+                  toast.success('Pagamento PIX recebido! Agendamento confirmado.');
+                  setPixCharge(null);
+                  fetchAppointments(false);
+                }}
+              />
+              <button
+                onClick={() => setPixCharge(null)}
+                className="w-full mt-6 py-2 text-stone-400 dark:text-stone-500 font-medium hover:text-stone-600 dark:hover:text-stone-300 transition-colors"
+              >
+                Fechar
+              </button>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {reschedulingSeriesApt && onReschedule && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/60 dark:bg-black/80 backdrop-blur-sm transition-colors duration-300">
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="bg-white dark:bg-stone-900 w-full max-w-md rounded-[32px] shadow-2xl overflow-hidden p-8 text-center border border-stone-100 dark:border-stone-800"
+            >
+              <div className="bg-brand-primary/10 w-16 h-16 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                <Repeat className="h-8 w-8 text-brand-primary" />
+              </div>
+
+              <h3 className="text-2xl serif text-stone-800 dark:text-stone-100 mb-2">Remarcar Série</h3>
+              <p className="text-stone-500 dark:text-stone-400 mb-8">
+                Este horário faz parte de uma série recorrente. O que você quer remarcar?
+              </p>
+
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={() => {
+                    setReschedulingSeriesApt(null);
+                    onReschedule(reschedulingSeriesApt, 'one');
+                  }}
+                  className="w-full px-6 py-3 bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-200 rounded-xl font-bold hover:bg-stone-200 dark:hover:bg-stone-700 transition-all"
+                >
+                  Só este horário
+                </button>
+                <button
+                  onClick={() => {
+                    setReschedulingSeriesApt(null);
+                    onReschedule(reschedulingSeriesApt, 'series');
+                  }}
+                  className="w-full px-6 py-3 bg-brand-primary text-white rounded-xl font-bold hover:bg-opacity-90 transition-all shadow-lg shadow-brand-primary/20"
+                >
+                  Este e os próximos
+                </button>
+                <button
+                  onClick={() => setReschedulingSeriesApt(null)}
+                  className="w-full py-2 text-stone-400 dark:text-stone-500 font-medium hover:text-stone-600 dark:hover:text-stone-300 transition-colors"
+                >
+                  Voltar
                 </button>
               </div>
             </motion.div>
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+import { ClientReliability, NO_SHOW_ACTIONS, NoShowAction } from '../lib/reliability';
+import { CheckCircle, UserX, Clock } from 'lucide-react';
+
+interface ClientReliabilityCardProps {
+  salonId: string;
+  clientId: string;
+}
+
+export default function ClientReliabilityCard({ salonId, clientId }: ClientReliabilityCardProps) {
+  const [reliability, setReliability] = useState<(ClientReliability & { action: NoShowAction | null }) | null>(null);
+
+  useEffect(() => {
+    apiFetch<ClientReliability & { action: NoShowAction | null }>(`/api/salons/${salonId}/reliability?client=${clientId}`)
+      .then(setReliability)
+      .catch(error => console.error('Error fetching client reliability:', error));
+  }, [salonId, clientId]);
+
+  if (!reliability) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 text-xs">
+      <span className="flex items-center text-blue-600 dark:text-blue-400">
+        <CheckCircle className="h-3.5 w-3.5 mr-1" /> {reliability.completed} atendidos
+      </span>
+      <span className="flex items-center text-stone-600 dark:text-stone-300">
+        <UserX className="h-3.5 w-3.5 mr-1" /> {reliability.noShows} {reliability.noShows === 1 ? 'falta' : 'faltas'}
+      </span>
+      <span className="flex items-center text-amber-600 dark:text-amber-400">
+        <Clock className="h-3.5 w-3.5 mr-1" /> {reliability.lateCancels} {reliability.lateCancels === 1 ? 'cancelamento tardio' : 'cancelamentos tardios'}
+      </span>
+      {reliability.score !== null && (
+        <span className={`px-2 py-0.5 rounded-full font-bold ${
+          reliability.score >= 80 ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' :
+          reliability.score >= 50 ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' :
+          'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+        }`}>
+          Confiabilidade {reliability.score}%
+        </span>
+      )}
+      {reliability.action && (
+        <span className="text-red-600 dark:text-red-400 font-bold">{NO_SHOW_ACTIONS[reliability.action].label}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { apiFetch } from '../lib/api';
+import { WaitlistEntry } from '../types';
+import { Hourglass, Check, X } from 'lucide-react';
+import { format, parseISO, differenceInMinutes } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+
+interface ClientWaitlistProps {
+  clientId: string;
+  onClaimed?: () => void;
+}
+
+export default function ClientWaitlist({ clientId, onClaimed }: ClientWaitlistProps) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+
+    // Offers arrive when someone cancels; the server flips the entry to "offered"
+    const channel = supabase
+      .channel(`client-${clientId}-waitlist`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'waitlist_entries',
+          filter: `client_id=eq.${clientId}`
+        },
+        (payload) => {
+          const entry = payload.new as WaitlistEntry;
+          if (entry.status === 'offered') {
+            toast('Abriu uma vaga na lista de espera! Confirme antes que expire.', {
+              icon: '⏳',
+              duration: 8000,
+              style: {
+                borderRadius: '16px',
+                background: '#1c1917',
+                color: '#fff',
+              },
+            });
+          }
+          fetchEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clientId]);
+
+  const fetchEntries = async () => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('*, services(name, duration), professionals!waitlist_entries_professional_id_fkey(name)')
+      .eq('client_id', clientId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching waitlist:', error);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const handleClaim = async (entry: WaitlistEntry) => {
+    setProcessingId(entry.id);
+    try {
+      await apiFetch(`/api/waitlist/${entry.id}/claim`, {
+        method: 'POST'
+      });
+      toast.success('Horário garantido! Aguarde a confirmação do estabelecimento.');
+      fetchEntries();
+      onClaimed?.();
+    } catch (error: any) {
+      toast.error(error.message);
+      fetchEntries();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDecline = async (entry: WaitlistEntry) => {
+    setProcessingId(entry.id);
+    try {
+      await apiFetch(`/api/waitlist/${entry.id}/decline`, { method: 'POST' });
+      fetchEntries();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'cancelled' })
+      .eq('id', entry.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-8 space-y-3">
+      <h2 className="text-sm font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest flex items-center">
+        <Hourglass className="h-4 w-4 mr-2" /> Lista de Espera
+      </h2>
+      {entries.map(entry => (
+        <div
+          key={entry.id}
+          className={`rounded-2xl p-4 border flex flex-col sm:flex-row sm:items-center justify-between gap-3 ${
+            entry.status === 'offered'
+              ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800'
+              : 'bg-white dark:bg-stone-900 border-stone-100 dark:border-stone-800'
+          }`}
+        >
+          <div className="min-w-0">
+            <p className="font-bold text-stone-800 dark:text-stone-100 truncate">
+              {entry.services?.name}
+              {entry.professionals?.name && <span className="font-normal text-stone-500 dark:text-stone-400"> com {entry.professionals.name}</span>}
+            </p>
+            {entry.status === 'offered' && entry.offered_start_time ? (
+              <p className="text-xs text-emerald-700 dark:text-emerald-400">
+                Vaga disponível em {format(parseISO(entry.offered_start_time), "dd 'de' MMMM 'às' HH:mm", { locale: ptBR })}
+                {entry.offer_expires_at && ` • expira em ${Math.max(0, differenceInMinutes(parseISO(entry.offer_expires_at), new Date()))} min`}
+              </p>
+            ) : (
+              <p className="text-xs text-stone-500 dark:text-stone-400">
+                Aguardando vaga entre {format(parseISO(entry.window_start), 'dd/MM')} e {format(new Date(Date.parse(entry.window_end) - 1), 'dd/MM')}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {entry.status === 'offered' ? (
+              <>
+                <button
+                  disabled={processingId === entry.id}
+                  onClick={() => handleClaim(entry)}
+                  className="flex items-center px-3 py-1.5 rounded-lg text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all disabled:opacity-50"
+                >
+                  <Check className="h-3.5 w-3.5 mr-1" /> Aceitar
+                </button>
+                <button
+                  disabled={processingId === entry.id}
+                  onClick={() => handleDecline(entry)}
+                  className="flex items-center px-3 py-1.5 rounded-lg text-xs font-bold bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-200 dark:hover:bg-stone-700 transition-all disabled:opacity-50"
+                >
+                  <X className="h-3.5 w-3.5 mr-1" /> Recusar
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => handleLeave(entry)}
+                className="text-[10px] sm:text-xs font-bold text-stone-400 hover:text-red-500 transition-colors uppercase tracking-wider"
+              >
+                Sair da lista
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Profile, Service, Appointment, Salon } from '../types';
-import { Plus, Calendar as CalendarIcon, Users, Scissors, DollarSign, Clock, CheckCircle, XCircle, Settings, LayoutDashboard, ListChecks, CalendarDays, List, UserPlus, BarChart3, Star } from 'lucide-react';
+import { updateVisitStatus } from '../lib/appointments';
+import { apiFetch } from '../lib/api';
+import { CancellationSettlement, SETTLED_PREPAYMENT_LABELS, settlementMessage } from '../lib/refunds';
+import { Profile, Service, Appointment, Salon, SalonSpecialDate } from '../types';
+import { Plus, Calendar as CalendarIcon, Users, Scissors, DollarSign, Clock, CheckCircle, XCircle, Settings, LayoutDashboard, ListChecks, CalendarDays, List, UserPlus, BarChart3, Star, Repeat, History, UserX, Receipt, QrCode, Undo2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
@@ -13,6 +16,13 @@ import AnalyticsView from './AnalyticsView';
 import ReviewsView from './ReviewsView';
 import ProfessionalManagement from './ProfessionalManagement';
 import FinancialManagement from './FinancialManagement';
+import WaitlistQueue from './WaitlistQueue';
+import AdminSeriesModal from './AdminSeriesModal';
+import AppointmentTimeline from './AppointmentTimeline';
+import CheckoutModal from './CheckoutModal';
+import ClientReliabilityCard from './ClientReliabilityCard';
+import { STATUS_LABELS } from '../lib/status';
+import { revenueOf } from '../lib/sales';
 
 interface DashboardProps {
   profile: Profile | null;
@@ -28,9 +38,13 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
   }, [initialTab]);
   const [displayMode, setDisplayMode] = useState<'list' | 'calendar'>('calendar');
   const [showAdminBooking, setShowAdminBooking] = useState(false);
+  const [seriesApt, setSeriesApt] = useState<Appointment | null>(null);
+  const [checkoutApt, setCheckoutApt] = useState<Appointment | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [salon, setSalon] = useState<Salon | null>(null);
   const [services, setServices] = useState<Service[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [specialDates, setSpecialDates] = useState<SalonSpecialDate[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddService, setShowAddService] = useState(false);
   const [revenueFilter, setRevenueFilter] = useState<'day' | 'month' | 'year'>('day');
@@ -102,6 +116,18 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
               },
             });
             fetchData(false);
+          } else if (newApt.rescheduled_at && newApt.rescheduled_at !== oldApt?.rescheduled_at) {
+            toast(`Agendamento remarcado para ${format(new Date(newApt.start_time), "dd/MM 'às' HH:mm")}.`, {
+              id: `reschedule-${newApt.group_id || newApt.id}`, // one toast per visit
+              icon: '🔁',
+              duration: 6000,
+              style: {
+                borderRadius: '16px',
+                background: '#1c1917',
+                color: '#fff',
+              },
+            });
+            fetchData(false);
           }
         }
       )
@@ -136,11 +162,19 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
         // Fetch Appointments for this salon
         const { data: appointmentsData } = await supabase
           .from('appointments')
-          .select('*, profiles(full_name), services(name, price), professionals(name)')
+          .select('*, profiles(full_name), services(name, price), professionals(name), payments(id, amount, status, provider, refunded_amount, created_at, payment_ledger(kind, status, amount)), sales(subtotal, discount, tip, total, sale_items(kind, description, total))')
           .eq('salon_id', salonData.id)
           .order('start_time', { ascending: false });
 
         if (appointmentsData) setAppointments(appointmentsData as any);
+
+        // Fetch holidays and special hours for the calendar
+        const { data: specialDatesData } = await supabase
+          .from('salon_special_dates')
+          .select('*')
+          .eq('salon_id', salonData.id);
+
+        if (specialDatesData) setSpecialDates(specialDatesData);
       }
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
@@ -172,12 +206,16 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
     }
   };
 
-  const updateAppointmentStatus = async (id: string, status: string) => {
+  const updateAppointmentStatus = async (apt: Appointment, status: Appointment['status']) => {
     try {
-      const { error } = await supabase
-        .from('appointments')
-        .update({ status })
-        .eq('id', id);
+      // Cancelling goes through the server so online prepayments are refunded
+      if (status === 'cancelled') {
+        const { settlement } = await apiFetch<{ settlement: CancellationSettlement | null }>(`/api/appointments/${apt.id}/cancel`, { method: 'POST' });
+        toast.success(settlement ? `Agendamento cancelado. ${settlementMessage(settlement)}` : 'Status atualizado!');
+        fetchData(false);
+        return;
+      }
+      const { error } = await updateVisitStatus(apt, status);
 
       if (error) throw error;
       toast.success('Status atualizado!');
@@ -187,9 +225,51 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
     }
   };
 
+  // The PIX the client was shown last, for salons whose bank does not notify us
+  const openPixPayment = (apt: Appointment) => visitOf(apt)
+    .flatMap(a => (a as any).payments || [])
+    .filter((payment: any) => payment.provider === 'pix' && (payment.status === 'pending' || payment.status === 'expired'))
+    .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))[0] || null;
+
+  const confirmPix = async (apt: Appointment) => {
+    const payment = openPixPayment(apt);
+    if (!payment || !window.confirm(`Confirmar o recebimento do PIX de R$ ${Number(payment.amount).toFixed(2)}?`)) return;
+    try {
+      await apiFetch(`/api/payments/${payment.id}/mark-paid`, { method: 'POST' });
+      toast.success('PIX confirmado!');
+      fetchData(false);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  // Prepayments of a cancelled or twice-paid visit the salon still has to send back itself (PIX, or a card the provider could not refund)
+  const manualRefund = (apt: Appointment) => {
+    for (const payment of visitOf(apt).flatMap(a => (a as any).payments || [])) {
+      const amount = (payment.payment_ledger || [])
+        .filter((entry: any) => entry.kind === 'refund' && entry.status === 'manual')
+        .reduce((sum: number, entry: any) => sum + Number(entry.amount), 0);
+      if (amount > 0) return { payment, amount };
+    }
+    return null;
+  };
+
+  const confirmRefund = async (apt: Appointment) => {
+    const pending = manualRefund(apt);
+    if (!pending || !window.confirm(`Confirmar que a devolução de R$ ${pending.amount.toFixed(2)} foi feita ao cliente?`)) return;
+    try {
+      await apiFetch(`/api/payments/${pending.payment.id}/refund-done`, { method: 'POST' });
+      toast.success('Devolução registrada!');
+      fetchData(false);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  // What completed visits actually brought in; visits never checked out count at list price
   const calculateRevenue = () => {
     const now = new Date();
-    return appointments
+    return revenueOf(appointments
       .filter(apt => {
         if (apt.status !== 'completed') return false;
         const aptDate = new Date(apt.start_time);
@@ -201,10 +281,14 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
         } else {
           return format(aptDate, 'yyyy') === format(now, 'yyyy');
         }
-      })
-      .reduce((acc, curr: any) => acc + (curr.services?.price || 0), 0);
+      }));
   };
 
+  // Appointments closed together at the counter
+  const visitOf = (apt: Appointment) => appointments
+    .filter(a => a.id === apt.id || (!!apt.group_id && a.group_id === apt.group_id))
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
   if (loading) return <div className="p-12 text-center">Carregando painel...</div>;
 
   return (
@@ -295,7 +379,7 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
           </div>
 
           {displayMode === 'calendar' ? (
-            <CalendarView appointments={appointments} />
+            <CalendarView appointments={appointments} specialDates={specialDates} />
           ) : (
             <div className="lg:col-span-3 space-y-6">
               <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 transition-colors duration-300">
@@ -307,44 +391,96 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
                       {appointments
                         .slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE)
                         .map((apt: any) => (
-                          <div key={apt.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-4 bg-stone-50 dark:bg-stone-800/50 rounded-2xl border border-stone-100 dark:border-stone-800 hover:border-brand-primary/30 transition-all gap-4">
-                            <div className="flex items-center space-x-4">
-                              <div className="bg-white dark:bg-stone-800 p-3 rounded-xl shadow-sm shrink-0">
-                                <CalendarIcon className="h-5 w-5 text-brand-primary" />
-                              </div>
-                              <div className="min-w-0">
-                                <p className="font-semibold text-stone-800 dark:text-stone-100 truncate">{apt.profiles?.full_name || 'Cliente'}</p>
-                                <p className="text-sm text-stone-500 dark:text-stone-400 truncate">{apt.services?.name} • {format(new Date(apt.start_time), "dd 'de' MMM, HH:mm", { locale: ptBR })}</p>
+                          <div key={apt.id} className="p-4 bg-stone-50 dark:bg-stone-800/50 rounded-2xl border border-stone-100 dark:border-stone-800 hover:border-brand-primary/30 transition-all">
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                              <div className="flex items-center space-x-4">
+                                <div className="bg-white dark:bg-stone-800 p-3 rounded-xl shadow-sm shrink-0">
+                                  <CalendarIcon className="h-5 w-5 text-brand-primary" />
+                                </div>
+                                <div className="min-w-0">
+                                  <p className="font-semibold text-stone-800 dark:text-stone-100 truncate">{apt.profiles?.full_name || 'Cliente'}</p>
+                                  <p className="text-sm text-stone-500 dark:text-stone-400 truncate">
+                                    {apt.services?.name} • {format(new Date(apt.start_time), "dd 'de' MMM, HH:mm", { locale: ptBR })}
+                                    {apt.group_id && <span className="ml-2 text-[10px] font-bold text-brand-primary uppercase">Combo</span>}
+                                    {apt.series_id && <span className="ml-2 text-[10px] font-bold text-brand-primary uppercase">Recorrente</span>}
+                                    {apt.reliability_flag && (
+                                      <span className="ml-2 text-[10px] font-bold text-red-500 uppercase" title="Cliente acima do limite de faltas">
+                                        {apt.reliability_flag === 'require_prepayment' ? 'Pagamento antecipado' : 'Revisar'}
+                                      </span>
+                                    )}
+                                    {apt.prepayment_status === 'awaiting' && <span className="ml-2 text-[10px] font-bold text-amber-600 dark:text-amber-400 uppercase">Aguardando pagamento</span>}
+                                    {apt.prepayment_status === 'paid' && <span className="ml-2 text-[10px] font-bold text-emerald-600 dark:text-emerald-400 uppercase">Pago online</span>}
+                                    {manualRefund(apt) && <span className="ml-2 text-[10px] font-bold text-amber-600 dark:text-amber-400 uppercase">Devolver ao cliente</span>}
+                                    {apt.prepayment_status && apt.prepayment_status !== 'paid' && apt.prepayment_status !== 'awaiting' && (
+                                      <span className="ml-2 text-[10px] font-bold text-stone-500 dark:text-stone-400 uppercase">{SETTLED_PREPAYMENT_LABELS[apt.prepayment_status]}</span>
+                                    )}
+                                  </p>
+                                </div>
                               </div>
-                            </div>
-                            <div className="flex items-center justify-between sm:justify-end space-x-2">
-                              <div className="flex space-x-1">
-                                {apt.status === 'pending' && (
-                                  <>
-                                    <button onClick={() => updateAppointmentStatus(apt.id, 'confirmed')} className="p-2 text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg transition-colors" title="Confirmar">
+                              <div className="flex items-center justify-between sm:justify-end space-x-2">
+                                <div className="flex space-x-1">
+                                  <button onClick={() => setHistoryId(historyId === apt.id ? null : apt.id)} className="p-2 text-stone-500 hover:bg-stone-100 dark:hover:bg-stone-700 rounded-lg transition-colors" title="Histórico">
+                                    <History className="h-5 w-5" />
+                                  </button>
+                                  {apt.series_id && (apt.status === 'pending' || apt.status === 'confirmed') && (
+                                    <button onClick={() => setSeriesApt(apt)} className="p-2 text-brand-primary hover:bg-brand-primary/10 rounded-lg transition-colors" title="Remarcar ou cancelar série">
+                                      <Repeat className="h-5 w-5" />
+                                    </button>
+                                  )}
+                                  {manualRefund(apt) && (
+                                    <button onClick={() => confirmRefund(apt)} className="p-2 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition-colors" title={`Devolver R$ ${manualRefund(apt)!.amount.toFixed(2)} ao cliente e confirmar`}>
+                                      <Undo2 className="h-5 w-5" />
+                                    </button>
+                                  )}
+                                  {apt.status === 'pending' && apt.prepayment_status === 'awaiting' && openPixPayment(apt) && (
+                                    <button onClick={() => confirmPix(apt)} className="p-2 text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg transition-colors" title="Confirmar PIX recebido">
+                                      <QrCode className="h-5 w-5" />
+                                    </button>
+                                  )}
+                                  {apt.status === 'pending' && (
+                                    <>
+                                      <button onClick={() => updateAppointmentStatus(apt, 'confirmed')} className="p-2 text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg transition-colors" title="Confirmar">
+                                        <CheckCircle className="h-5 w-5" />
+                                      </button>
+                                      <button onClick={() => updateAppointmentStatus(apt, 'cancelled')} className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Cancelar">
+                                        <XCircle className="h-5 w-5" />
+                                      </button>
+                                    </>
+                                  )}
+                                  {apt.status === 'confirmed' && (
+                                    <button onClick={() => setCheckoutApt(apt)} className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Concluir Atendimento">
                                       <CheckCircle className="h-5 w-5" />
                                     </button>
-                                    <button onClick={() => updateAppointmentStatus(apt.id, 'cancelled')} className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Cancelar">
-                                      <XCircle className="h-5 w-5" />
+                                  )}
+                                  {/* Visits completed before the checkout existed can still be registered */}
+                                  {apt.status === 'completed' && !visitOf(apt).some(a => a.sales) && (
+                                    <button onClick={() => setCheckoutApt(apt)} className="p-2 text-stone-500 hover:bg-stone-100 dark:hover:bg-stone-700 rounded-lg transition-colors" title="Registrar no caixa">
+                                      <Receipt className="h-5 w-5" />
                                     </button>
-                                  </>
-                                )}
-                                {apt.status === 'confirmed' && (
-                                  <button onClick={() => updateAppointmentStatus(apt.id, 'completed')} className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors" title="Concluir Atendimento">
-                                    <CheckCircle className="h-5 w-5" />
-                                  </button>
-                                )}
+                                  )}
+                                  {/* A visit can only be missed once its time has come */}
+                                  {apt.status === 'confirmed' && new Date(apt.start_time) <= new Date() && (
+                                    <button onClick={() => updateAppointmentStatus(apt, 'no_show')} className="p-2 text-stone-500 hover:bg-stone-100 dark:hover:bg-stone-700 rounded-lg transition-colors" title="Não compareceu">
+                                      <UserX className="h-5 w-5" />
+                                    </button>
+                                  )}
+                                </div>
+                                <span className={`px-3 py-1 rounded-full text-[10px] sm:text-xs font-medium whitespace-nowrap ${
+                                  apt.status === 'confirmed' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 
+                                  apt.status === 'cancelled' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400' : 
+                                  apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400' :
+                                  apt.status === 'no_show' ? 'bg-stone-200 dark:bg-stone-700 text-stone-700 dark:text-stone-300' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                                }`}>
+                                  {STATUS_LABELS[apt.status as Appointment['status']] || apt.status}
+                                </span>
                               </div>
-                              <span className={`px-3 py-1 rounded-full text-[10px] sm:text-xs font-medium whitespace-nowrap ${
-                                apt.status === 'confirmed' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 
-                                apt.status === 'cancelled' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400' : 
-                                apt.status === 'completed' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400' : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
-                              }`}>
-                                {apt.status === 'confirmed' ? 'Confirmado' : 
-                                 apt.status === 'cancelled' ? 'Cancelado' : 
-                                 apt.status === 'completed' ? 'Concluído' : 'Pendente'}
-                              </span>
                             </div>
+                            {historyId === apt.id && (
+                              <div className="mt-4 pt-4 border-t border-stone-200 dark:border-stone-700">
+                                {salon && <ClientReliabilityCard salonId={salon.id} clientId={apt.client_id} />}
+                                <AppointmentTimeline appointmentId={apt.id} />
+                              </div>
+                            )}
                           </div>
                         ))}
                       
@@ -378,6 +514,8 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
               </div>
             </div>
           )}
+
+          {salon && <WaitlistQueue salonId={salon.id} />}
         </>
       )}
 
@@ -395,6 +533,21 @@ export default function Dashboard({ profile, initialTab = 'overview', theme }: D
         profile={profile}
         salonId={salon?.id}
       />
+
+      <AdminSeriesModal
+        appointment={seriesApt}
+        onClose={() => setSeriesApt(null)}
+        onSuccess={() => fetchData(false)}
+      />
+
+      {checkoutApt && (
+        <CheckoutModal
+          visit={visitOf(checkoutApt)}
+          salon={salon}
+          onClose={() => setCheckoutApt(null)}
+          onSuccess={() => fetchData(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Salon, Service } from '../types';
+import { Salon, Service, SalonSpecialDate } from '../types';
 import { MapPin, Phone, Star, Scissors, Clock, ArrowLeft, MessageSquare, ChevronRight, CheckCircle, Info, Send } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
+import { WEEK_ORDER, formatDayRanges, normalizeOpeningHours } from '../lib/openingHours';
 
 interface EstablishmentDetailProps {
   salonId: string;
@@ -17,6 +18,7 @@ export default function EstablishmentDetail({ salonId, onBack, onSelectService }
   const [salon, setSalon] = useState<any>(null);
   const [services, setServices] = useState<Service[]>([]);
   const [reviews, setReviews] = useState<any[]>([]);
+  const [specialDates, setSpecialDates] = useState<SalonSpecialDate[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'services' | 'reviews' | 'about'>('services');
   const [user, setUser] = useState<any>(null);
@@ -62,9 +64,18 @@ export default function EstablishmentDetail({ salonId, onBack, onSelectService }
         .eq('salon_id', salonId)
         .order('created_at', { ascending: false });
 
+      const { data: specialDatesData } = await supabase
+        .from('salon_special_dates')
+        .select('*')
+        .eq('salon_id', salonId)
+        .gte('date', format(new Date(), 'yyyy-MM-dd'))
+        .order('date', { ascending: true })
+        .limit(5);
+
       if (salonData) setSalon(salonData);
       if (servicesData) setServices(servicesData);
       if (reviewsData) setReviews(reviewsData);
+      if (specialDatesData) setSpecialDates(specialDatesData);
     } catch (error) {
       console.error('Error fetching salon detail:', error);
     } finally {
@@ -353,14 +364,17 @@ export default function EstablishmentDetail({ salonId, onBack, onSelectService }
                     <h4 className="text-base sm:text-lg font-bold text-stone-800 dark:text-stone-100 mb-4">Horário de Funcionamento</h4>
                     <ul className="space-y-3">
                       {salon.opening_hours ? (
-                        Object.entries(salon.opening_hours).map(([day, hours]) => (
-                          <li key={day} className="flex justify-between text-xs sm:text-sm">
-                            <span className="text-stone-500 dark:text-stone-400">{day}</span>
-                            <span className={`font-bold ${(hours as string).toLowerCase().includes('fechado') ? 'text-red-400' : 'text-stone-800 dark:text-stone-100'}`}>
-                              {hours as string}
-                            </span>
-                          </li>
-                        ))
+                        WEEK_ORDER.map(day => {
+                          const ranges = normalizeOpeningHours(salon.opening_hours)[day] || [];
+                          return (
+                            <li key={day} className="flex justify-between text-xs sm:text-sm">
+                              <span className="text-stone-500 dark:text-stone-400">{day}</span>
+                              <span className={`font-bold text-right ${ranges.length === 0 ? 'text-red-400' : 'text-stone-800 dark:text-stone-100'}`}>
+                                {formatDayRanges(ranges)}
+                              </span>
+                            </li>
+                          );
+                        })
                       ) : (
                         ['Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado', 'Domingo'].map(day => (
                           <li key={day} className="flex justify-between text-xs sm:text-sm">
@@ -370,6 +384,23 @@ export default function EstablishmentDetail({ salonId, onBack, onSelectService }
                         ))
                       )}
                     </ul>
+                    {specialDates.length > 0 && (
+                      <div className="mt-6 pt-4 border-t border-stone-100 dark:border-stone-800">
+                        <p className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-3">Datas Especiais</p>
+                        <ul className="space-y-2">
+                          {specialDates.map(special => (
+                            <li key={special.id} className="flex justify-between text-xs sm:text-sm">
+                              <span className="text-stone-500 dark:text-stone-400">
+                                {format(parseISO(special.date), 'dd/MM')}{special.description ? ` • ${special.description}` : ''}
+                              </span>
+                              <span className={`font-bold ${special.kind === 'closed' ? 'text-red-400' : 'text-stone-800 dark:text-stone-100'}`}>
+                                {special.kind === 'closed' ? 'Fechado' : `${special.start_time?.slice(0, 5)} - ${special.end_time?.slice(0, 5)}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                   <div className="p-6 sm:p-8 bg-white dark:bg-stone-900 rounded-[32px] border border-stone-100 dark:border-stone-800 shadow-sm">
                     <h4 className="text-base sm:text-lg font-bold text-stone-800 dark:text-stone-100 mb-4">Diferenciais</h4>
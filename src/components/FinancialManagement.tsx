@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { FinancialItem, Service } from '../types';
-import { DollarSign, Plus, Trash2, TrendingUp, TrendingDown, Calculator, Info, AlertCircle, Edit2, Check, X } from 'lucide-react';
+import { FinancialItem, Sale, Service } from '../types';
+import { DollarSign, Plus, Trash2, TrendingUp, TrendingDown, Calculator, Info, AlertCircle, Edit2, Check, X, Receipt } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { startOfMonth } from 'date-fns';
+import { PAYMENT_METHODS, PaymentMethod, saleRevenue } from '../lib/sales';
+import { formatBRL } from '../lib/payments';
 
 interface FinancialManagementProps {
   salonId: string;
@@ -11,6 +14,7 @@ interface FinancialManagementProps {
 export default function FinancialManagement({ salonId }: FinancialManagementProps) {
   const [items, setItems] = useState<FinancialItem[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -46,8 +50,16 @@ export default function FinancialManagement({ salonId }: FinancialManagementProp
         .select('*')
         .eq('salon_id', salonId);
 
+      // What the register took in this month
+      const { data: salesData } = await supabase
+        .from('sales')
+        .select('*, sale_payments(method, amount)')
+        .eq('salon_id', salonId)
+        .gte('created_at', startOfMonth(new Date()).toISOString());
+
       if (financialData) setItems(financialData);
       if (servicesData) setServices(servicesData);
+      if (salesData) setSales(salesData);
     } catch (error) {
       console.error('Error fetching financial data:', error);
     } finally {
@@ -144,6 +156,13 @@ export default function FinancialManagement({ salonId }: FinancialManagementProp
   const maxPrice = desiredProfitMargin < 100 ? minPrice / (1 - desiredProfitMargin / 100) : minPrice;
   const profitPerService = maxPrice - minPrice;
 
+  const monthRevenue = sales.reduce((acc, sale) => acc + saleRevenue(sale), 0);
+  const monthTips = sales.reduce((acc, sale) => acc + Number(sale.tip), 0);
+  const revenueByMethod = sales
+    .flatMap(sale => sale.sale_payments || [])
+    .reduce((acc, payment) => ({ ...acc, [payment.method]: (acc[payment.method] || 0) + Number(payment.amount) }), {} as Partial<Record<PaymentMethod, number>>);
+  const monthResult = monthRevenue - totalFixed - totalVariable;
+
   if (loading) return <div className="p-12 text-center">Carregando módulo financeiro...</div>;
 
   return (
@@ -162,6 +181,40 @@ export default function FinancialManagement({ salonId }: FinancialManagementProp
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8">
         {/* Form and List */}
         <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white dark:bg-stone-900 rounded-2xl sm:rounded-[32px] p-5 sm:p-8 border border-stone-100 dark:border-stone-800 shadow-sm">
+            <h3 className="text-lg sm:text-xl font-bold mb-6 flex items-center text-stone-800 dark:text-stone-100">
+              <Receipt className="h-5 w-5 mr-2 text-brand-primary" /> Caixa do Mês
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+              <div>
+                <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">Receita</p>
+                <p className="text-lg font-bold text-stone-800 dark:text-stone-100">{formatBRL(monthRevenue)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">Gorjetas</p>
+                <p className="text-lg font-bold text-stone-800 dark:text-stone-100">{formatBRL(monthTips)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">Atendimentos</p>
+                <p className="text-lg font-bold text-stone-800 dark:text-stone-100">{sales.length}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">Resultado</p>
+                <p className={`text-lg font-bold ${monthResult >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>{formatBRL(monthResult)}</p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).filter(method => revenueByMethod[method]).map(method => (
+                <span key={method} className="px-3 py-1 rounded-full bg-stone-100 dark:bg-stone-800 text-xs font-bold text-stone-600 dark:text-stone-300">
+                  {PAYMENT_METHODS[method]}: {formatBRL(revenueByMethod[method]!)}
+                </span>
+              ))}
+            </div>
+            <p className="text-[10px] text-stone-400 italic mt-4">
+              Valores registrados ao concluir cada atendimento no caixa. O resultado desconta os custos mensais cadastrados abaixo; gorjetas ficam fora da receita.
+            </p>
+          </div>
+
           <div className="bg-white dark:bg-stone-900 rounded-2xl sm:rounded-[32px] p-5 sm:p-8 border border-stone-100 dark:border-stone-800 shadow-sm">
             <h3 className="text-lg sm:text-xl font-bold mb-6 flex items-center text-stone-800 dark:text-stone-100">
               <Plus className="h-5 w-5 mr-2 text-brand-primary" /> Cadastrar Novo Item (Mensal)
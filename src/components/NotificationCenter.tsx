@@ -1,39 +1,70 @@
 import React, { useState, useEffect } from 'react';
 import { Bell, X, Calendar, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { format } from 'date-fns';
+import { format, isToday } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-
-export interface AppNotification {
-  id: string;
-  title: string;
-  message: string;
-  timestamp: Date;
-  type: 'info' | 'success' | 'warning';
-  read: boolean;
-}
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { archiveAll, archiveNotifications, fetchInbox, markAllAsRead, markAsRead } from '../lib/notifications';
+import { InboxNotification } from '../types';
 
 interface NotificationCenterProps {
-  notifications: AppNotification[];
-  onClear: () => void;
-  onMarkAsRead: (id: string) => void;
+  userId: string;
 }
 
-export default function NotificationCenter({ notifications, onClear, onMarkAsRead }: NotificationCenterProps) {
+export default function NotificationCenter({ userId }: NotificationCenterProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadInbox = async () => {
+    const { data, unread, error } = await fetchInbox(userId);
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data);
+    setUnreadCount(unread);
+  };
+
+  // Reads and archives made on another device arrive as UPDATE events
+  useEffect(() => {
+    loadInbox();
+    const channel = supabase
+      .channel(`inbox-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => loadInbox()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const runAction = async (action: PromiseLike<{ error: any }>, message: string) => {
+    const { error } = await action;
+    if (error) toast.error(message);
+    loadInbox();
+  };
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (!notification.read_at) runAction(markAsRead([notification.id]), 'Erro ao marcar notificação como lida');
+  };
 
   return (
     <div className="relative">
       <button
         onClick={() => setIsOpen(!isOpen)}
         className="p-3 bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400 rounded-2xl hover:bg-stone-200 dark:hover:bg-stone-700 transition-all shadow-sm relative"
-        title="Notificações do Dia"
+        title="Notificações"
       >
         <Bell className="h-5 w-5" />
         {unreadCount > 0 && (
           <span className="absolute top-2 right-2 w-4 h-4 bg-brand-primary text-white text-[10px] font-bold rounded-full flex items-center justify-center border-2 border-white dark:border-stone-800">
-            {unreadCount}
+            {unreadCount > 9 ? '9+' : unreadCount}
           </span>
         )}
       </button>
@@ -54,12 +85,20 @@ export default function NotificationCenter({ notifications, onClear, onMarkAsRea
               <div className="p-5 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center bg-stone-50/50 dark:bg-stone-800/50">
                 <h3 className="font-bold text-stone-800 dark:text-stone-100 flex items-center">
                   <Bell className="h-4 w-4 mr-2 text-brand-primary" />
-                  Alertas do Dia
+                  Notificações
                 </h3>
                 <div className="flex items-center space-x-2">
+                  {unreadCount > 0 && (
+                    <button 
+                      onClick={() => runAction(markAllAsRead(userId), 'Erro ao marcar notificações como lidas')}
+                      className="text-[10px] font-bold text-stone-400 hover:text-brand-primary uppercase tracking-wider transition-colors"
+                    >
+                      Marcar lidas
+                    </button>
+                  )}
                   {notifications.length > 0 && (
                     <button 
-                      onClick={onClear}
+                      onClick={() => runAction(archiveAll(userId), 'Erro ao limpar notificações')}
                       className="text-[10px] font-bold text-stone-400 hover:text-red-500 uppercase tracking-wider transition-colors"
                     >
                       Limpar
@@ -77,15 +116,15 @@ export default function NotificationCenter({ notifications, onClear, onMarkAsRea
                     <div className="w-12 h-12 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mx-auto mb-3">
                       <Bell className="h-6 w-6 text-stone-300" />
                     </div>
-                    <p className="text-sm text-stone-400 italic">Nenhum alerta para hoje.</p>
+                    <p className="text-sm text-stone-400 italic">Nenhuma notificação.</p>
                   </div>
                 ) : (
                   notifications.map((notification) => (
                     <div 
                       key={notification.id}
-                      onClick={() => onMarkAsRead(notification.id)}
-                      className={`p-4 rounded-2xl border transition-all cursor-pointer ${
-                        notification.read 
+                      onClick={() => handleOpen(notification)}
+                      className={`group p-4 rounded-2xl border transition-all cursor-pointer ${
+                        notification.read_at 
                           ? 'bg-white dark:bg-stone-900 border-stone-100 dark:border-stone-800 opacity-60' 
                           : 'bg-stone-50 dark:bg-stone-800/50 border-brand-primary/10 shadow-sm'
                       }`}
@@ -96,7 +135,17 @@ export default function NotificationCenter({ notifications, onClear, onMarkAsRea
                         </span>
                         <span className="text-[10px] text-stone-400 flex items-center">
                           <Clock className="h-3 w-3 mr-1" />
-                          {format(notification.timestamp, 'HH:mm')}
+                          {format(new Date(notification.created_at), isToday(new Date(notification.created_at)) ? 'HH:mm' : 'dd/MM HH:mm')}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              runAction(archiveNotifications([notification.id]), 'Erro ao arquivar notificação');
+                            }}
+                            className="ml-2 opacity-0 group-hover:opacity-100 text-stone-400 hover:text-red-500 transition-all"
+                            title="Arquivar"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
                         </span>
                       </div>
                       <p className="text-xs text-stone-600 dark:text-stone-300 leading-relaxed">
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Copy, Check } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { formatBRL } from '../lib/payments';
+
+interface PixQrCodeProps {
+  payload: string; // BR Code ("PIX copia e cola")
+  amount?: number | null;
+  expiresAt?: string | null;
+  appointmentId?: string; // when set, onPaid fires as soon as the server confirms the PIX
+  onPaid?: () => void;
+}
+
+export default function PixQrCode({ payload, amount, expiresAt, appointmentId, onPaid }: PixQrCodeProps) {
+  const [image, setImage] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    QRCode.toDataURL(payload, { margin: 1, width: 240, errorCorrectionLevel: 'M' })
+      .then(url => active && setImage(url))
+      .catch(error => console.error('Error rendering PIX QR code:', error));
+    return () => {
+      active = false;
+    };
+  }, [payload]);
+
+  useEffect(() => {
+    if (!appointmentId || !onPaid) return;
+
+    const channel = supabase
+      .channel(`appointment-${appointmentId}-pix`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'appointments',
+          filter: `id=eq.${appointmentId}`
+        },
+        (payload: any) => {
+          if (payload.new?.prepayment_status === 'paid') onPaid();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [appointmentId]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      setCopied(true);
+      toast.success('Código PIX copiado!');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Não foi possível copiar o código');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center text-center space-y-3">
+      <div className="w-60 h-60 bg-white rounded-2xl p-2 border border-stone-200 dark:border-stone-700 flex items-center justify-center">
+        {image
+          ? <img src={image} alt="QR Code PIX" className="w-full h-full" />
+          : <span className="text-xs text-stone-400 italic">Gerando QR Code...</span>}
+      </div>
+      {amount != null && <p className="text-xl font-bold text-brand-primary">{formatBRL(amount)}</p>}
+      <button
+        onClick={handleCopy}
+        className="flex items-center px-4 py-2 rounded-xl text-sm font-bold bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-200 hover:bg-stone-200 dark:hover:bg-stone-700 transition-colors"
+      >
+        {copied ? <Check className="h-4 w-4 mr-2 text-emerald-600" /> : <Copy className="h-4 w-4 mr-2" />}
+        PIX copia e cola
+      </button>
+      {expiresAt && (
+        <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">
+          Pague até {format(new Date(expiresAt), 'HH:mm')} para manter o horário reservado.
+        </p>
+      )}
+    </div>
+  );
+}
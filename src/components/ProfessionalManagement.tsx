@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Professional, Profile } from '../types';
-import { Plus, User, Trash2, Edit2, UserPlus, Image as ImageIcon, X, Briefcase } from 'lucide-react';
+import { Plus, User, Trash2, Edit2, UserPlus, Image as ImageIcon, X, Briefcase, Clock } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { toast } from 'react-hot-toast';
+import ProfessionalScheduleModal from './ProfessionalScheduleModal';
 
 interface ProfessionalManagementProps {
   profile: Profile | null;
@@ -18,6 +19,7 @@ export default function ProfessionalManagement({ profile, salonId }: Professiona
   const [showInactive, setShowInactive] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [schedulingProfessional, setSchedulingProfessional] = useState<Professional | null>(null);
 
   // Form states
   const [name, setName] = useState('');
@@ -331,6 +333,14 @@ export default function ProfessionalManagement({ profile, salonId }: Professiona
                   >
                     <Edit2 className="h-4 w-4" />
                   </button>
+                  <button 
+                    type="button"
+                    onClick={() => setSchedulingProfessional(professional)}
+                    className="p-2 text-stone-400 hover:text-brand-primary hover:bg-stone-50 dark:hover:bg-stone-800 rounded-xl transition-all"
+                    title="Horários e ausências"
+                  >
+                    <Clock className="h-4 w-4" />
+                  </button>
                   <button 
                     type="button"
                     onClick={(e) => handleDelete(e, professional.id)}
@@ -345,6 +355,19 @@ export default function ProfessionalManagement({ profile, salonId }: Professiona
         )}
       </div>
 
+      <AnimatePresence>
+        {schedulingProfessional && (
+          <ProfessionalScheduleModal
+            professional={schedulingProfessional}
+            onClose={() => setSchedulingProfessional(null)}
+            onSaved={() => {
+              setSchedulingProfessional(null);
+              fetchProfessionals(false);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {deletingId && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/60 backdrop-blur-sm">
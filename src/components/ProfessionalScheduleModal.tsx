@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Professional, ProfessionalException, ProfessionalExceptionKind, ProfessionalSchedule, ScheduleDay } from '../types';
+import { X, Clock, Plus, Trash2, CalendarOff, Save } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { EXCEPTION_KINDS, validateScheduleDay } from '../lib/schedule';
+
+interface ProfessionalScheduleModalProps {
+  professional: Professional;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type DayMode = 'salon' | 'off' | 'custom';
+
+const WEEK = ['Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado', 'Domingo'];
+
+const inputClass = 'px-3 py-2 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100';
+
+export default function ProfessionalScheduleModal({ professional, onClose, onSaved }: ProfessionalScheduleModalProps) {
+  const [modes, setModes] = useState<Record<string, DayMode>>(() => Object.fromEntries(WEEK.map(day => {
+    const weekly = professional.schedule?.weekly;
+    if (!weekly || !(day in weekly)) return [day, 'salon'];
+    return [day, weekly[day] ? 'custom' : 'off'];
+  })));
+  const [days, setDays] = useState<Record<string, ScheduleDay>>(() => Object.fromEntries(WEEK.map(day => [
+    day,
+    professional.schedule?.weekly?.[day] || { start: '09:00', end: '18:00', breaks: [{ start: '12:00', end: '13:00' }] },
+  ])));
+  const [saving, setSaving] = useState(false);
+
+  const [exceptions, setExceptions] = useState<ProfessionalException[]>([]);
+  const [kind, setKind] = useState<ProfessionalExceptionKind>('vacation');
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [professional.id]);
+
+  const fetchExceptions = async () => {
+    const { data, error } = await supabase
+      .from('professional_exceptions')
+      .select('*')
+      .eq('professional_id', professional.id)
+      .gte('end_date', format(new Date(), 'yyyy-MM-dd'))
+      .order('start_date', { ascending: true });
+    if (error) {
+      console.error('Error fetching professional exceptions:', error);
+      return;
+    }
+    setExceptions(data || []);
+  };
+
+  const updateDay = (day: string, changes: Partial<ScheduleDay>) => {
+    setDays(prev => ({ ...prev, [day]: { ...prev[day], ...changes } }));
+  };
+
+  const handleSaveSchedule = async () => {
+    const weekly: ProfessionalSchedule['weekly'] = {};
+    for (const day of WEEK) {
+      if (modes[day] === 'off') weekly[day] = null;
+      if (modes[day] === 'custom') {
+        const { start, end, breaks } = days[day];
+        const problem = validateScheduleDay(start, end, breaks);
+        if (problem) {
+          toast.error(`${day}: ${problem}`);
+          return;
+        }
+        weekly[day] = days[day];
+      }
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('professionals')
+        .update({ schedule: Object.keys(weekly).length > 0 ? { weekly } : null })
+        .eq('id', professional.id);
+      if (error) throw error;
+      toast.success('Horários salvos!');
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddException = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (endDate < startDate) {
+      toast.error('A data final deve ser igual ou posterior à inicial');
+      return;
+    }
+    if (kind === 'custom_hours' && startTime >= endTime) {
+      toast.error('O início do horário especial deve ser antes do fim');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('professional_exceptions').insert({
+        professional_id: professional.id,
+        kind,
+        start_date: startDate,
+        end_date: endDate,
+        start_time: kind === 'custom_hours' ? startTime : null,
+        end_time: kind === 'custom_hours' ? endTime : null,
+        note,
+      });
+      if (error) throw error;
+      toast.success('Exceção registrada!');
+      setNote('');
+      fetchExceptions();
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleDeleteException = async (id: string) => {
+    const { error } = await supabase.from('professional_exceptions').delete().eq('id', id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setExceptions(prev => prev.filter(ex => ex.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/60 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="bg-white dark:bg-stone-900 w-full max-w-3xl rounded-[40px] shadow-2xl overflow-hidden relative border border-stone-100 dark:border-stone-800"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-6 right-6 p-2 text-stone-400 hover:text-stone-600 dark:hover:text-stone-200 hover:bg-stone-100 dark:hover:bg-stone-800 rounded-full transition-all z-10"
+        >
+          <X className="h-6 w-6" />
+        </button>
+
+        <div className="p-8 sm:p-10 max-h-[90vh] overflow-y-auto custom-scrollbar space-y-10">
+          <div>
+            <h3 className="text-3xl serif text-stone-800 dark:text-stone-100">Horários de {professional.name}</h3>
+            <p className="text-stone-500 dark:text-stone-400">Expediente semanal, intervalos e ausências programadas.</p>
+          </div>
+
+          <section className="space-y-4">
+            <h4 className="text-sm font-bold text-stone-700 dark:text-stone-300 uppercase tracking-widest flex items-center">
+              <Clock className="h-4 w-4 mr-2 text-brand-primary" /> Semana Padrão
+            </h4>
+            {WEEK.map(day => (
+              <div key={day} className="bg-stone-50 dark:bg-stone-800/50 p-4 rounded-2xl border border-stone-100 dark:border-stone-700 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <span className="text-xs font-bold text-stone-500 uppercase w-20">{day}</span>
+                  <select
+                    value={modes[day]}
+                    onChange={(e) => setModes(prev => ({ ...prev, [day]: e.target.value as DayMode }))}
+                    className={inputClass}
+                  >
+                    <option value="salon">Segue o salão</option>
+                    <option value="custom">Horário próprio</option>
+                    <option value="off">Folga</option>
+                  </select>
+                  {modes[day] === 'custom' && (
+                    <div className="flex items-center gap-2">
+                      <input type="time" value={days[day].start} onChange={(e) => updateDay(day, { start: e.target.value })} className={inputClass} />
+                      <span className="text-stone-400 text-xs">até</span>
+                      <input type="time" value={days[day].end} onChange={(e) => updateDay(day, { end: e.target.value })} className={inputClass} />
+                    </div>
+                  )}
+                </div>
+
+                {modes[day] === 'custom' && (
+                  <div className="space-y-2 pl-0 sm:pl-20">
+                    {days[day].breaks.map((b, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-[10px] font-bold text-stone-400 uppercase w-16">Intervalo</span>
+                        <input
+                          type="time"
+                          value={b.start}
+                          onChange={(e) => updateDay(day, { breaks: days[day].breaks.map((x, i) => i === index ? { ...x, start: e.target.value } : x) })}
+                          className={inputClass}
+                        />
+                        <span className="text-stone-400 text-xs">até</span>
+                        <input
+                          type="time"
+                          value={b.end}
+                          onChange={(e) => updateDay(day, { breaks: days[day].breaks.map((x, i) => i === index ? { ...x, end: e.target.value } : x) })}
+                          className={inputClass}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateDay(day, { breaks: days[day].breaks.filter((_, i) => i !== index) })}
+                          className="p-2 text-stone-400 hover:text-red-500 rounded-lg transition-all"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updateDay(day, { breaks: [...days[day].breaks, { start: '12:00', end: '13:00' }] })}
+                      className="text-xs font-bold text-brand-primary hover:underline flex items-center"
+                    >
+                      <Plus className="h-3 w-3 mr-1" /> Adicionar intervalo
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <button
+                type="button"
+                disabled={saving}
+                onClick={handleSaveSchedule}
+                className="bg-brand-primary text-white px-8 py-3 rounded-2xl font-bold hover:bg-opacity-90 transition-all shadow-xl shadow-brand-primary/20 disabled:opacity-50 flex items-center"
+              >
+                <Save className="h-4 w-4 mr-2" /> {saving ? 'Salvando...' : 'Salvar Semana'}
+              </button>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h4 className="text-sm font-bold text-stone-700 dark:text-stone-300 uppercase tracking-widest flex items-center">
+              <CalendarOff className="h-4 w-4 mr-2 text-brand-primary" /> Ausências e Exceções
+            </h4>
+
+            {exceptions.length === 0 ? (
+              <p className="text-sm text-stone-400 italic">Nenhuma ausência programada.</p>
+            ) : (
+              <div className="space-y-2">
+                {exceptions.map(ex => (
+                  <div key={ex.id} className="flex items-center justify-between p-3 bg-stone-50 dark:bg-stone-800/50 rounded-xl border border-stone-100 dark:border-stone-700">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-stone-800 dark:text-stone-100">
+                        {EXCEPTION_KINDS[ex.kind]}
+                        {ex.kind === 'custom_hours' && ex.start_time && ` • ${ex.start_time.slice(0, 5)} - ${ex.end_time?.slice(0, 5)}`}
+                      </p>
+                      <p className="text-xs text-stone-500 dark:text-stone-400 truncate">
+                        {format(parseISO(ex.start_date), "dd 'de' MMM", { locale: ptBR })}
+                        {ex.end_date !== ex.start_date && ` a ${format(parseISO(ex.end_date), "dd 'de' MMM", { locale: ptBR })}`}
+                        {ex.note && ` • ${ex.note}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteException(ex.id)}
+                      className="p-2 text-stone-400 hover:text-red-500 hover:bg-stone-100 dark:hover:bg-stone-800 rounded-xl transition-all"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddException} className="grid sm:grid-cols-2 gap-3 p-4 rounded-2xl border border-dashed border-stone-200 dark:border-stone-700">
+              <select value={kind} onChange={(e) => setKind(e.target.value as ProfessionalExceptionKind)} className={inputClass}>
+                {(Object.keys(EXCEPTION_KINDS) as ProfessionalExceptionKind[]).map(k => (
+                  <option key={k} value={k}>{EXCEPTION_KINDS[k]}</option>
+                ))}
+              </select>
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Observação (opcional)" className={inputClass} />
+              <input type="date" required value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+              <input type="date" required value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+              {kind === 'custom_hours' && (
+                <>
+                  <input type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} />
+                  <input type="time" required value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClass} />
+                </>
+              )}
+              <button
+                type="submit"
+                className="sm:col-span-2 bg-stone-900 dark:bg-stone-800 text-white py-3 rounded-xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-stone-700 transition-all flex items-center justify-center"
+              >
+                <Plus className="h-4 w-4 mr-2" /> Registrar Ausência
+              </button>
+            </form>
+          </section>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
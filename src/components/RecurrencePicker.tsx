@@ -0,0 +1,103 @@
+import React from 'react';
+import { Repeat, AlertCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { MAX_OCCURRENCES, RECURRENCE_FREQUENCIES, RecurrenceFrequency, RecurrenceRule } from '../lib/recurrence';
+
+export interface OccurrencePreview {
+  start_time: string;
+  available: boolean;
+  message?: string | null;
+}
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  preview?: OccurrencePreview[];
+  loadingPreview?: boolean;
+}
+
+export default function RecurrencePicker({ value, onChange, preview, loadingPreview }: RecurrencePickerProps) {
+  const conflicts = (preview || []).filter(occurrence => !occurrence.available);
+
+  return (
+    <div className="bg-stone-50 dark:bg-stone-800/50 rounded-2xl border border-stone-200 dark:border-stone-700 p-4 space-y-3">
+      <label className="flex items-center text-sm font-bold text-stone-700 dark:text-stone-300">
+        <Repeat className="h-4 w-4 mr-2 text-brand-primary" /> Repetir
+      </label>
+      <select
+        value={value?.frequency || ''}
+        onChange={e => onChange(e.target.value
+          ? { frequency: e.target.value as RecurrenceFrequency, count: value?.until ? null : value?.count || 4, until: value?.until || null }
+          : null)}
+        className="w-full px-4 py-2 rounded-xl border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-900 text-stone-800 dark:text-stone-100 text-sm focus:ring-2 focus:ring-brand-primary outline-none"
+      >
+        <option value="">Não repetir</option>
+        {(Object.keys(RECURRENCE_FREQUENCIES) as RecurrenceFrequency[]).map(frequency => (
+          <option key={frequency} value={frequency}>{RECURRENCE_FREQUENCIES[frequency]}</option>
+        ))}
+      </select>
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-stone-600 dark:text-stone-400">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={!value.until}
+              onChange={() => onChange({ ...value, count: 4, until: null })}
+              className="accent-brand-primary"
+            />
+            Por
+            <input
+              type="number"
+              min={2}
+              max={MAX_OCCURRENCES}
+              disabled={!!value.until}
+              value={value.count || ''}
+              onChange={e => onChange({ ...value, count: Number(e.target.value) || null })}
+              className="w-16 px-2 py-1 rounded-lg border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-900 text-stone-800 dark:text-stone-100 disabled:opacity-50"
+            />
+            vezes
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={!!value.until}
+              onChange={() => onChange({ ...value, count: null, until: format(new Date(Date.now() + 60 * 86400000), 'yyyy-MM-dd') })}
+              className="accent-brand-primary"
+            />
+            Até
+            <input
+              type="date"
+              disabled={!value.until}
+              value={value.until || ''}
+              onChange={e => onChange({ ...value, until: e.target.value || null })}
+              className="px-2 py-1 rounded-lg border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-900 text-stone-800 dark:text-stone-100 disabled:opacity-50"
+            />
+          </label>
+        </div>
+      )}
+
+      {value && loadingPreview && (
+        <p className="text-xs text-stone-400 dark:text-stone-500 italic">Verificando os horários da série...</p>
+      )}
+
+      {value && !loadingPreview && preview && preview.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-stone-500 dark:text-stone-400">
+            {preview.length - conflicts.length} de {preview.length} horários disponíveis
+          </p>
+          {conflicts.map(occurrence => (
+            <p key={occurrence.start_time} className="flex items-start text-xs text-amber-700 dark:text-amber-400">
+              <AlertCircle className="h-3.5 w-3.5 mr-1 mt-0.5 shrink-0" />
+              {format(parseISO(occurrence.start_time), "dd 'de' MMM", { locale: ptBR })}: {occurrence.message}
+            </p>
+          ))}
+          {conflicts.length > 0 && (
+            <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">As datas indisponíveis ficarão de fora da série.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Salon, Profile } from '../types';
-import { Save, Building, MapPin, Phone, AlignLeft, Clock, Star, Info } from 'lucide-react';
+import { Salon, Profile, OpeningHours, WorkingHours } from '../types';
+import { Save, Building, MapPin, Phone, AlignLeft, Clock, Star, Info, Users, Plus, X, ShieldCheck, UserX, BadgeCheck, Undo2, QrCode } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { AssignmentStrategy, ASSIGNMENT_STRATEGIES } from '../lib/assignment';
+import SalonSpecialDates from './SalonSpecialDates';
+import SalonSubscription from './SalonSubscription';
+import { DEFAULT_SLOT_INTERVAL, SLOT_INTERVALS } from '../lib/availability';
+import { DEFAULT_BOOKING_POLICY, policyOf } from '../lib/policy';
+import { DEFAULT_RELIABILITY_RULES, NO_SHOW_ACTIONS, NoShowAction, rulesOf } from '../lib/reliability';
+import { AUTO_CONFIRM_MODES, AutoConfirmMode, DEFAULT_CONFIRMATION_RULES, confirmationRulesOf } from '../lib/confirmation';
+import { DEFAULT_REFUND_RULES, LATE_CANCEL_POLICIES, LateCancelPolicy, refundRulesOf } from '../lib/refunds';
+import { PIX_KEY_TYPES, normalizePixKey, pixKeyTypeOf } from '../lib/pix';
+import { DEFAULT_OPENING_HOURS, WEEK_ORDER, normalizeOpeningHours, validateOpeningHours } from '../lib/openingHours';
 
 interface SalonSettingsProps {
   profile: Profile | null;
@@ -23,15 +33,17 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
   const [phone, setPhone] = useState('');
   const [detailedHistory, setDetailedHistory] = useState('');
   const [differentiators, setDifferentiators] = useState('');
-  const [openingHours, setOpeningHours] = useState<Record<string, string>>({
-    'Segunda': '09:00 - 19:00',
-    'Terça': '09:00 - 19:00',
-    'Quarta': '09:00 - 19:00',
-    'Quinta': '09:00 - 19:00',
-    'Sexta': '09:00 - 19:00',
-    'Sábado': '09:00 - 19:00',
-    'Domingo': 'Fechado'
-  });
+  const [assignmentStrategy, setAssignmentStrategy] = useState<AssignmentStrategy>('least_loaded');
+  const [slotInterval, setSlotInterval] = useState(DEFAULT_SLOT_INTERVAL);
+  const [bufferBefore, setBufferBefore] = useState(0);
+  const [bufferAfter, setBufferAfter] = useState(0);
+  const [policy, setPolicy] = useState(DEFAULT_BOOKING_POLICY);
+  const [reliabilityRules, setReliabilityRules] = useState(DEFAULT_RELIABILITY_RULES);
+  const [confirmationRules, setConfirmationRules] = useState(DEFAULT_CONFIRMATION_RULES);
+  const [refundRules, setRefundRules] = useState(DEFAULT_REFUND_RULES);
+  const [pixKey, setPixKey] = useState('');
+  const [openingHours, setOpeningHours] = useState<OpeningHours>(DEFAULT_OPENING_HOURS);
+  const openingHoursErrors = validateOpeningHours(openingHours);
 
   useEffect(() => {
     if (profile?.id) {
@@ -63,8 +75,18 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
         setPhone(data.phone || '');
         setDetailedHistory(data.detailed_history || '');
         setDifferentiators(data.differentiators?.join(', ') || '');
+        setAssignmentStrategy(data.assignment_strategy || 'least_loaded');
+        setSlotInterval(data.slot_interval || DEFAULT_SLOT_INTERVAL);
+        setBufferBefore(data.buffer_before || 0);
+        setBufferAfter(data.buffer_after || 0);
+        setPolicy(policyOf(data));
+        setReliabilityRules(rulesOf(data));
+        setConfirmationRules(confirmationRulesOf(data));
+        setRefundRules(refundRulesOf(data));
+        setPixKey(data.pix_key || '');
         if (data.opening_hours) {
-          setOpeningHours(data.opening_hours);
+          const normalized = normalizeOpeningHours(data.opening_hours);
+          setOpeningHours(Object.fromEntries(WEEK_ORDER.map(day => [day, normalized[day] || []])));
         }
       }
     } catch (error: any) {
@@ -78,6 +100,14 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
+    if (Object.keys(openingHoursErrors).length > 0) {
+      toast.error('Corrija o horário de funcionamento antes de salvar');
+      return;
+    }
+    if (pixKey.trim() && !pixKeyTypeOf(pixKey)) {
+      toast.error('Chave PIX inválida');
+      return;
+    }
 
     setSaving(true);
     try {
@@ -93,6 +123,21 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
         detailed_history: detailedHistory,
         differentiators: differentiators.split(',').map(s => s.trim()).filter(s => s !== ''),
         opening_hours: openingHours,
+        assignment_strategy: assignmentStrategy,
+        slot_interval: slotInterval,
+        buffer_before: bufferBefore,
+        buffer_after: bufferAfter,
+        cancel_notice_hours: policy.cancelNoticeHours,
+        min_lead_minutes: policy.minLeadMinutes,
+        booking_horizon_days: policy.bookingHorizonDays,
+        no_show_limit: reliabilityRules.noShowLimit,
+        no_show_action: reliabilityRules.noShowAction,
+        late_cancel_hours: reliabilityRules.lateCancelHours,
+        auto_confirm: confirmationRules.autoConfirm,
+        pending_expiry_hours: confirmationRules.pendingExpiryHours,
+        late_cancel_policy: refundRules.lateCancelPolicy,
+        cancellation_fee_percent: refundRules.cancellationFeePercent,
+        pix_key: pixKey.trim() ? normalizePixKey(pixKey) : null,
       };
 
       let error;
@@ -122,6 +167,10 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
     }
   };
 
+  const updateRanges = (day: string, ranges: WorkingHours[]) => {
+    setOpeningHours(prev => ({ ...prev, [day]: ranges }));
+  };
+
   const handleGetCurrentLocation = () => {
     if (!navigator.geolocation) {
       toast.error('Geolocalização não é suportada pelo seu navegador');
@@ -144,178 +193,480 @@ export default function SalonSettings({ profile }: SalonSettingsProps) {
   if (loading) return <div className="p-12 text-center">Carregando configurações...</div>;
 
   return (
-    <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 max-w-2xl mx-auto transition-colors duration-300">
-      <h2 className="text-2xl serif mb-8 flex items-center text-stone-900 dark:text-stone-100">
-        <Building className="mr-2 h-6 w-6 text-brand-primary" />
-        Configurações do Salão
-      </h2>
-
-      <form onSubmit={handleSave} className="space-y-6">
-        <div className="space-y-2">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <Building className="h-4 w-4 mr-2" /> Nome do Salão
-          </label>
-          <input
-            type="text"
-            required
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="Ex: Glow Beauty Studio"
-            className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
-          />
-        </div>
-
-        <div className="space-y-2">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <AlignLeft className="h-4 w-4 mr-2" /> Descrição
-          </label>
-          <textarea
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="Conte um pouco sobre o seu espaço e serviços..."
-            rows={2}
-            className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all resize-none dark:text-stone-100"
-          />
-        </div>
-
-        <div className="space-y-2">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <Info className="h-4 w-4 mr-2" /> Nossa História (Detalhado)
-          </label>
-          <textarea
-            value={detailedHistory}
-            onChange={(e) => setDetailedHistory(e.target.value)}
-            placeholder="Conte a história do seu estabelecimento em detalhes..."
-            rows={4}
-            className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all resize-none dark:text-stone-100"
-          />
-        </div>
-
-        <div className="space-y-2">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <Star className="h-4 w-4 mr-2" /> Diferenciais (separados por vírgula)
-          </label>
-          <input
-            type="text"
-            value={differentiators}
-            onChange={(e) => setDifferentiators(e.target.value)}
-            placeholder="Ex: Café cortesia, Wi-Fi, Estacionamento, Ar condicionado"
-            className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
-          />
-        </div>
-
-        <div className="space-y-4">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <Clock className="h-4 w-4 mr-2" /> Horário de Funcionamento
-          </label>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {Object.keys(openingHours).map((day) => (
-              <div key={day} className="flex items-center justify-between bg-stone-50 dark:bg-stone-800 p-3 rounded-xl border border-stone-100 dark:border-stone-700">
-                <span className="text-xs font-bold text-stone-500 dark:text-stone-500 uppercase">{day}</span>
-                <input
-                  type="text"
-                  value={openingHours[day]}
-                  onChange={(e) => setOpeningHours({ ...openingHours, [day]: e.target.value })}
-                  className="text-xs font-bold text-stone-800 dark:text-stone-200 bg-transparent border-none focus:ring-0 text-right w-32"
-                />
-              </div>
-            ))}
+    <div className="space-y-8">
+      <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 max-w-2xl mx-auto transition-colors duration-300">
+        <h2 className="text-2xl serif mb-8 flex items-center text-stone-900 dark:text-stone-100">
+          <Building className="mr-2 h-6 w-6 text-brand-primary" />
+          Configurações do Salão
+        </h2>
+
+        <form onSubmit={handleSave} className="space-y-6">
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Building className="h-4 w-4 mr-2" /> Nome do Salão
+            </label>
+            <input
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Glow Beauty Studio"
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <AlignLeft className="h-4 w-4 mr-2" /> Descrição
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Conte um pouco sobre o seu espaço e serviços..."
+              rows={2}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all resize-none dark:text-stone-100"
+            />
           </div>
-        </div>
 
-        <div className="grid sm:grid-cols-2 gap-6">
           <div className="space-y-2">
             <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-              <MapPin className="h-4 w-4 mr-2" /> Endereço
+              <Info className="h-4 w-4 mr-2" /> Nossa História (Detalhado)
+            </label>
+            <textarea
+              value={detailedHistory}
+              onChange={(e) => setDetailedHistory(e.target.value)}
+              placeholder="Conte a história do seu estabelecimento em detalhes..."
+              rows={4}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all resize-none dark:text-stone-100"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Star className="h-4 w-4 mr-2" /> Diferenciais (separados por vírgula)
             </label>
             <input
               type="text"
-              value={address}
-              onChange={(e) => setAddress(e.target.value)}
-              placeholder="Rua, Número, Bairro"
+              value={differentiators}
+              onChange={(e) => setDifferentiators(e.target.value)}
+              placeholder="Ex: Café cortesia, Wi-Fi, Estacionamento, Ar condicionado"
               className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
             />
           </div>
 
+          <div className="space-y-4">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Clock className="h-4 w-4 mr-2" /> Horário de Funcionamento
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {WEEK_ORDER.map((day) => {
+                const ranges = openingHours[day] || [];
+                return (
+                  <div key={day} className={`bg-stone-50 dark:bg-stone-800 p-3 rounded-xl border space-y-2 ${openingHoursErrors[day] ? 'border-red-300 dark:border-red-800' : 'border-stone-100 dark:border-stone-700'}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-stone-500 dark:text-stone-500 uppercase">{day}</span>
+                      <label className="flex items-center text-[10px] font-bold text-stone-400 uppercase cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={ranges.length > 0}
+                          onChange={(e) => updateRanges(day, e.target.checked ? [{ start: '09:00', end: '19:00' }] : [])}
+                          className="mr-2 rounded border-stone-300 dark:border-stone-700 text-brand-primary focus:ring-brand-primary bg-transparent"
+                        />
+                        {ranges.length > 0 ? 'Aberto' : 'Fechado'}
+                      </label>
+                    </div>
+                    {ranges.map((range, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="time"
+                          value={range.start}
+                          onChange={(e) => updateRanges(day, ranges.map((r, i) => i === index ? { ...r, start: e.target.value } : r))}
+                          className="flex-1 min-w-0 text-xs font-bold text-stone-800 dark:text-stone-200 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg px-2 py-1"
+                        />
+                        <span className="text-[10px] text-stone-400">até</span>
+                        <input
+                          type="time"
+                          value={range.end}
+                          onChange={(e) => updateRanges(day, ranges.map((r, i) => i === index ? { ...r, end: e.target.value } : r))}
+                          className="flex-1 min-w-0 text-xs font-bold text-stone-800 dark:text-stone-200 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg px-2 py-1"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateRanges(day, ranges.filter((_, i) => i !== index))}
+                          className="p-1 text-stone-400 hover:text-red-500 transition-colors"
+                          title="Remover faixa"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {ranges.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => updateRanges(day, [...ranges, { start: ranges[ranges.length - 1].end, end: '19:00' }])}
+                        className="text-[10px] font-bold text-brand-primary hover:underline flex items-center"
+                      >
+                        <Plus className="h-3 w-3 mr-1" /> Adicionar faixa
+                      </button>
+                    )}
+                    {openingHoursErrors[day] && (
+                      <p className="text-[10px] text-red-500">{openingHoursErrors[day]}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Clock className="h-4 w-4 mr-2" /> Agenda
+            </label>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Intervalo entre horários</span>
+                <select
+                  value={slotInterval}
+                  onChange={(e) => setSlotInterval(Number(e.target.value))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                >
+                  {SLOT_INTERVALS.map(minutes => (
+                    <option key={minutes} value={minutes} className="dark:bg-stone-900">{minutes} min</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Preparo antes (min)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="120"
+                  step="5"
+                  value={bufferBefore}
+                  onChange={(e) => setBufferBefore(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Limpeza depois (min)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="120"
+                  step="5"
+                  value={bufferAfter}
+                  onChange={(e) => setBufferAfter(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 italic">
+              Os clientes podem começar um serviço a cada {slotInterval} minutos, desde que ele caiba inteiro no horário. O tempo de preparo e limpeza fica bloqueado na agenda do profissional.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <ShieldCheck className="h-4 w-4 mr-2" /> Política de Agendamento
+            </label>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Cancelar/remarcar até (horas antes)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="168"
+                  value={policy.cancelNoticeHours}
+                  onChange={(e) => setPolicy(prev => ({ ...prev, cancelNoticeHours: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Antecedência mínima (min)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="10080"
+                  step="15"
+                  value={policy.minLeadMinutes}
+                  onChange={(e) => setPolicy(prev => ({ ...prev, minLeadMinutes: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Agenda aberta por (dias)</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="365"
+                  value={policy.bookingHorizonDays}
+                  onChange={(e) => setPolicy(prev => ({ ...prev, bookingHorizonDays: Math.max(1, Number(e.target.value) || 1) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 italic">
+              Os clientes veem essas regras ao agendar e não conseguem cancelar ou remarcar fora do prazo. Você continua podendo ajustar qualquer agendamento pelo painel.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-              <MapPin className="h-4 w-4 mr-2" /> Cidade
+              <BadgeCheck className="h-4 w-4 mr-2" /> Confirmação de Pedidos
+            </label>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Novos pedidos</span>
+                <select
+                  value={confirmationRules.autoConfirm}
+                  onChange={(e) => setConfirmationRules(prev => ({ ...prev, autoConfirm: e.target.value as AutoConfirmMode }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                >
+                  {(Object.keys(AUTO_CONFIRM_MODES) as AutoConfirmMode[]).map(mode => (
+                    <option key={mode} value={mode} className="dark:bg-stone-900">{AUTO_CONFIRM_MODES[mode].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Cancelar pendentes após (horas)</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="168"
+                  placeholder="Nunca"
+                  value={confirmationRules.pendingExpiryHours ?? ''}
+                  onChange={(e) => setConfirmationRules(prev => ({ ...prev, pendingExpiryHours: e.target.value === '' ? null : Math.max(1, Number(e.target.value) || 1) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 italic">
+              {AUTO_CONFIRM_MODES[confirmationRules.autoConfirm].description} Pedidos de clientes acima do limite de faltas sempre aguardam sua confirmação.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <UserX className="h-4 w-4 mr-2" /> Faltas e Cancelamentos em Cima da Hora
+            </label>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Limite de faltas</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  placeholder="Sem limite"
+                  value={reliabilityRules.noShowLimit ?? ''}
+                  onChange={(e) => setReliabilityRules(prev => ({ ...prev, noShowLimit: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Acima do limite</span>
+                <select
+                  value={reliabilityRules.noShowAction}
+                  disabled={reliabilityRules.noShowLimit === null}
+                  onChange={(e) => setReliabilityRules(prev => ({ ...prev, noShowAction: e.target.value as NoShowAction }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100 disabled:opacity-50"
+                >
+                  {(Object.keys(NO_SHOW_ACTIONS) as NoShowAction[]).map(action => (
+                    <option key={action} value={action} className="dark:bg-stone-900">{NO_SHOW_ACTIONS[action].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Cancelamento tardio (horas antes)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="168"
+                  value={reliabilityRules.lateCancelHours}
+                  onChange={(e) => setReliabilityRules(prev => ({ ...prev, lateCancelHours: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 italic">
+              {reliabilityRules.noShowLimit === null
+                ? 'Sem regra: clientes com faltas agendam normalmente. O histórico de cada cliente continua visível no painel.'
+                : `Clientes com mais de ${reliabilityRules.noShowLimit} ${reliabilityRules.noShowLimit === 1 ? 'falta' : 'faltas'}: ${NO_SHOW_ACTIONS[reliabilityRules.noShowAction].description}`}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Undo2 className="h-4 w-4 mr-2" /> Reembolso de Pagamentos Antecipados
+            </label>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Cancelamento tardio pelo cliente</span>
+                <select
+                  value={refundRules.lateCancelPolicy}
+                  onChange={(e) => setRefundRules(prev => ({ ...prev, lateCancelPolicy: e.target.value as LateCancelPolicy }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                >
+                  {(Object.keys(LATE_CANCEL_POLICIES) as LateCancelPolicy[]).map(option => (
+                    <option key={option} value={option} className="dark:bg-stone-900">{LATE_CANCEL_POLICIES[option].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase">Taxa de cancelamento (%)</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={refundRules.cancellationFeePercent}
+                  disabled={refundRules.lateCancelPolicy === 'refund'}
+                  onChange={(e) => setRefundRules(prev => ({ ...prev, cancellationFeePercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                  className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100 disabled:opacity-50"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 italic">
+              {LATE_CANCEL_POLICIES[refundRules.lateCancelPolicy].description} Cancelamentos feitos pelo salão e com {reliabilityRules.lateCancelHours}h ou mais de antecedência são sempre reembolsados integralmente.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <QrCode className="h-4 w-4 mr-2" /> Chave PIX
             </label>
             <input
               type="text"
-              value={city}
-              onChange={(e) => setCity(e.target.value)}
-              placeholder="Ex: São Paulo"
+              value={pixKey}
+              onChange={(e) => setPixKey(e.target.value)}
+              placeholder="CPF, CNPJ, e-mail, celular (+55...) ou chave aleatória"
               className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
             />
+            <p className={`text-[10px] italic ${pixKey.trim() && !pixKeyTypeOf(pixKey) ? 'text-red-500' : 'text-stone-400'}`}>
+              {!pixKey.trim()
+                ? 'Com uma chave cadastrada, clientes podem pagar por PIX ao agendar e o caixa gera o QR Code da cobrança.'
+                : pixKeyTypeOf(pixKey)
+                  ? `${PIX_KEY_TYPES[pixKeyTypeOf(pixKey)!]} • Os pagamentos caem direto na conta desta chave. O nome e a cidade do salão aparecem no app do cliente.`
+                  : 'Chave PIX inválida'}
+            </p>
           </div>
-        </div>
-
-        <div className="bg-stone-50 dark:bg-stone-800 p-6 rounded-2xl border border-stone-100 dark:border-stone-700">
-          <div className="flex items-center justify-between mb-4">
-            <h4 className="text-sm font-bold text-stone-700 dark:text-stone-300 uppercase tracking-widest">Geolocalização</h4>
-            <button
-              type="button"
-              onClick={handleGetCurrentLocation}
-              className="text-xs font-bold text-brand-primary hover:underline flex items-center"
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Users className="h-4 w-4 mr-2" /> Distribuição de "Qualquer Profissional"
+            </label>
+            <select
+              value={assignmentStrategy}
+              onChange={(e) => setAssignmentStrategy(e.target.value as AssignmentStrategy)}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
             >
-              <MapPin className="h-3 w-3 mr-1" /> Usar Minha Localização Atual
-            </button>
+              {(Object.keys(ASSIGNMENT_STRATEGIES) as AssignmentStrategy[]).map(strategy => (
+                <option key={strategy} value={strategy} className="dark:bg-stone-900">
+                  {ASSIGNMENT_STRATEGIES[strategy].label}
+                </option>
+              ))}
+            </select>
+            <p className="text-[10px] text-stone-400 italic">
+              {ASSIGNMENT_STRATEGIES[assignmentStrategy].description}
+            </p>
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-[10px] font-bold text-stone-400 uppercase mb-1">Latitude</label>
+
+          <div className="grid sm:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+                <MapPin className="h-4 w-4 mr-2" /> Endereço
+              </label>
               <input
-                type="number"
-                step="any"
-                value={latitude || ''}
-                readOnly
-                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-xs dark:text-stone-300"
+                type="text"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="Rua, Número, Bairro"
+                className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
               />
             </div>
-            <div>
-              <label className="block text-[10px] font-bold text-stone-400 uppercase mb-1">Longitude</label>
+
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+                <MapPin className="h-4 w-4 mr-2" /> Cidade
+              </label>
               <input
-                type="number"
-                step="any"
-                value={longitude || ''}
-                readOnly
-                className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-xs dark:text-stone-300"
+                type="text"
+                value={city}
+                onChange={(e) => setCity(e.target.value)}
+                placeholder="Ex: São Paulo"
+                className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
               />
             </div>
           </div>
-          <p className="text-[10px] text-stone-400 mt-3 italic">
-            A geolocalização ajuda os clientes a encontrarem seu salão por proximidade.
-          </p>
-        </div>
-
-        <div className="space-y-2">
-          <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
-            <Phone className="h-4 w-4 mr-2" /> Telefone
-          </label>
-          <input
-            type="tel"
-            value={phone}
-            onChange={(e) => setPhone(e.target.value)}
-            placeholder="(00) 00000-0000"
-            className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
-          />
-        </div>
-
-        <button
-          type="submit"
-          disabled={saving}
-          className="w-full bg-brand-primary text-white py-4 rounded-xl font-semibold hover:bg-opacity-90 transition-all disabled:opacity-50 flex items-center justify-center"
-        >
-          {saving ? (
-            'Salvando...'
-          ) : (
-            <>
-              <Save className="h-5 w-5 mr-2" /> Salvar Alterações
-            </>
-          )}
-        </button>
-      </form>
+
+          <div className="bg-stone-50 dark:bg-stone-800 p-6 rounded-2xl border border-stone-100 dark:border-stone-700">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-sm font-bold text-stone-700 dark:text-stone-300 uppercase tracking-widest">Geolocalização</h4>
+              <button
+                type="button"
+                onClick={handleGetCurrentLocation}
+                className="text-xs font-bold text-brand-primary hover:underline flex items-center"
+              >
+                <MapPin className="h-3 w-3 mr-1" /> Usar Minha Localização Atual
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[10px] font-bold text-stone-400 uppercase mb-1">Latitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={latitude || ''}
+                  readOnly
+                  className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-xs dark:text-stone-300"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-stone-400 uppercase mb-1">Longitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={longitude || ''}
+                  readOnly
+                  className="w-full px-3 py-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg text-xs dark:text-stone-300"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-stone-400 mt-3 italic">
+              A geolocalização ajuda os clientes a encontrarem seu salão por proximidade.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Phone className="h-4 w-4 mr-2" /> Telefone
+            </label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="(00) 00000-0000"
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving || Object.keys(openingHoursErrors).length > 0}
+            className="w-full bg-brand-primary text-white py-4 rounded-xl font-semibold hover:bg-opacity-90 transition-all disabled:opacity-50 flex items-center justify-center"
+          >
+            {saving ? (
+              'Salvando...'
+            ) : (
+              <>
+                <Save className="h-5 w-5 mr-2" /> Salvar Alterações
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+
+      {salon && <SalonSpecialDates salonId={salon.id} />}
+
+      {salon && <SalonSubscription salonId={salon.id} />}
     </div>
   );
 }
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { SalonSpecialDate } from '../types';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+
+interface SalonSpecialDatesProps {
+  salonId: string;
+}
+
+export default function SalonSpecialDates({ salonId }: SalonSpecialDatesProps) {
+  const [specialDates, setSpecialDates] = useState<SalonSpecialDate[]>([]);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [kind, setKind] = useState<SalonSpecialDate['kind']>('closed');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSpecialDates();
+  }, [salonId]);
+
+  const fetchSpecialDates = async () => {
+    const { data, error } = await supabase
+      .from('salon_special_dates')
+      .select('*')
+      .eq('salon_id', salonId)
+      .gte('date', format(new Date(), 'yyyy-MM-dd'))
+      .order('date', { ascending: true });
+    if (error) {
+      console.error('Error fetching special dates:', error);
+      return;
+    }
+    setSpecialDates(data || []);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (kind === 'custom_hours' && startTime >= endTime) {
+      toast.error('O horário de abertura deve ser antes do fechamento');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('salon_special_dates').upsert({
+        salon_id: salonId,
+        date,
+        kind,
+        start_time: kind === 'custom_hours' ? startTime : null,
+        end_time: kind === 'custom_hours' ? endTime : null,
+        description,
+      }, { onConflict: 'salon_id,date' });
+      if (error) throw error;
+      toast.success('Data especial salva!');
+      setDescription('');
+      fetchSpecialDates();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('salon_special_dates').delete().eq('id', id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setSpecialDates(prev => prev.filter(d => d.id !== id));
+  };
+
+  return (
+    <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 max-w-2xl mx-auto transition-colors duration-300">
+      <h2 className="text-2xl serif mb-2 flex items-center text-stone-900 dark:text-stone-100">
+        <CalendarOff className="mr-2 h-6 w-6 text-brand-primary" />
+        Feriados e Horários Especiais
+      </h2>
+      <p className="text-sm text-stone-500 dark:text-stone-400 mb-6">
+        Datas em que o salão fecha ou funciona fora do horário da semana. Elas substituem o horário padrão na agenda.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {specialDates.length === 0 ? (
+          <p className="text-sm text-stone-400 italic">Nenhuma data especial programada.</p>
+        ) : (
+          specialDates.map(special => (
+            <div key={special.id} className="flex items-center justify-between p-3 bg-stone-50 dark:bg-stone-800 rounded-xl border border-stone-100 dark:border-stone-700">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-stone-800 dark:text-stone-100">
+                  {format(parseISO(special.date), "EEEE, dd 'de' MMMM", { locale: ptBR })}
+                </p>
+                <p className={`text-xs truncate ${special.kind === 'closed' ? 'text-red-400' : 'text-stone-500 dark:text-stone-400'}`}>
+                  {special.kind === 'closed' ? 'Fechado' : `${special.start_time?.slice(0, 5)} - ${special.end_time?.slice(0, 5)}`}
+                  {special.description && ` • ${special.description}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(special.id)}
+                className="p-2 text-stone-400 hover:text-red-500 hover:bg-stone-100 dark:hover:bg-stone-700 rounded-xl transition-all"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleAdd} className="grid sm:grid-cols-2 gap-3">
+        <input
+          type="date"
+          required
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+        />
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as SalonSpecialDate['kind'])}
+          className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+        >
+          <option value="closed">Fechado</option>
+          <option value="custom_hours">Horário especial</option>
+        </select>
+        {kind === 'custom_hours' && (
+          <>
+            <input
+              type="time"
+              required
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            />
+            <input
+              type="time"
+              required
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            />
+          </>
+        )}
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Ex: Natal, Carnaval, Inventário"
+          className="sm:col-span-2 w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="sm:col-span-2 bg-stone-900 dark:bg-stone-800 text-white py-3 rounded-xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-stone-700 transition-all disabled:opacity-50 flex items-center justify-center"
+        >
+          <Plus className="h-4 w-4 mr-2" /> {saving ? 'Salvando...' : 'Adicionar Data'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { CreditCard, Check, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { apiFetch } from '../lib/api';
+import { PLANS, PlanId, SUBSCRIPTION_STATUSES, SalonSubscription as Subscription, accessEndsAt, hasAccess } from '../lib/billing';
+import { formatBRL } from '../lib/payments';
+
+interface SalonSubscriptionProps {
+  salonId: string;
+}
+
+export default function SalonSubscription({ salonId }: SalonSubscriptionProps) {
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [redirecting, setRedirecting] = useState(false);
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [salonId]);
+
+  const fetchSubscription = async () => {
+    const { data, error } = await supabase
+      .from('salon_subscriptions')
+      .select('*')
+      .eq('salon_id', salonId)
+      .maybeSingle();
+    if (error) {
+      console.error('Error fetching subscription:', error);
+      return;
+    }
+    setSubscription(data);
+  };
+
+  // Checkout and the portal are hosted by Stripe; both come back to ?billing=...
+  const openBilling = async (path: string, body?: object) => {
+    setRedirecting(true);
+    try {
+      const { url } = await apiFetch<{ url: string }>(path, { method: 'POST', body: body ? JSON.stringify(body) : undefined });
+      window.location.assign(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao abrir a assinatura');
+      setRedirecting(false);
+    }
+  };
+
+  const subscribed = !!subscription?.stripe_subscription_id && ['trialing', 'active', 'past_due'].includes(subscription.status);
+  const endsAt = subscription ? accessEndsAt(subscription) : null;
+  const overdue = subscription?.status === 'past_due' || subscription?.status === 'unpaid';
+
+  return (
+    <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 max-w-2xl mx-auto transition-colors duration-300">
+      <h2 className="text-2xl serif mb-2 flex items-center text-stone-900 dark:text-stone-100">
+        <CreditCard className="mr-2 h-6 w-6 text-brand-primary" />
+        Assinatura
+      </h2>
+
+      {subscription && (
+        <p className="text-sm text-stone-500 dark:text-stone-400 mb-6">
+          {subscription.plan ? `Plano ${PLANS[subscription.plan].name} • ` : ''}
+          {SUBSCRIPTION_STATUSES[subscription.status]}
+          {subscription.status === 'trialing' && endsAt && ` até ${format(endsAt, "dd 'de' MMMM", { locale: ptBR })}`}
+          {subscription.status === 'active' && subscription.current_period_end && (subscription.cancel_at_period_end
+            ? ` • termina em ${format(parseISO(subscription.current_period_end), 'dd/MM/yyyy')}`
+            : ` • renova em ${format(parseISO(subscription.current_period_end), 'dd/MM/yyyy')}`)}
+        </p>
+      )}
+
+      {subscription && (overdue || !hasAccess(subscription)) && (
+        <div className="flex items-start gap-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-2xl p-4 mb-6 text-sm">
+          <AlertTriangle className="h-5 w-5 shrink-0" />
+          {hasAccess(subscription) && endsAt
+            ? `O último pagamento não foi aprovado. Atualize a forma de pagamento até ${format(endsAt, 'dd/MM')} para o salão continuar ativo.`
+            : 'Seu salão está desativado e não aparece para os clientes. Assine um plano para reativá-lo.'}
+        </div>
+      )}
+
+      {subscribed ? (
+        <button
+          onClick={() => openBilling('/api/billing/portal')}
+          disabled={redirecting}
+          className="w-full bg-brand-primary text-white py-4 rounded-xl font-semibold hover:bg-opacity-90 transition-all disabled:opacity-50"
+        >
+          {redirecting ? 'Abrindo...' : overdue ? 'Atualizar Pagamento' : 'Gerenciar Assinatura'}
+        </button>
+      ) : (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {(Object.keys(PLANS) as PlanId[]).map(plan => (
+            <div key={plan} className="p-6 rounded-2xl border border-stone-200 dark:border-stone-700 bg-stone-50 dark:bg-stone-800/50 flex flex-col">
+              <p className="font-bold text-stone-800 dark:text-stone-100">{PLANS[plan].name}</p>
+              <p className="text-2xl font-bold text-brand-primary my-2">
+                {formatBRL(PLANS[plan].price)}<span className="text-sm font-medium text-stone-400">/mês</span>
+              </p>
+              <p className="text-xs text-stone-500 dark:text-stone-400 mb-4 flex-grow">{PLANS[plan].description}</p>
+              <button
+                onClick={() => openBilling('/api/billing/checkout', { plan })}
+                disabled={redirecting}
+                className="w-full bg-brand-primary text-white py-3 rounded-xl font-semibold hover:bg-opacity-90 transition-all disabled:opacity-50 flex items-center justify-center"
+              >
+                <Check className="h-4 w-4 mr-2" /> Assinar
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
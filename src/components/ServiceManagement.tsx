@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Service, Profile } from '../types';
-import { Plus, Scissors, Trash2, Edit2, Clock, DollarSign, AlignLeft, Image as ImageIcon, List, X } from 'lucide-react';
+import { Plus, Scissors, Trash2, Edit2, Clock, DollarSign, AlignLeft, Image as ImageIcon, List, X, CreditCard } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { toast } from 'react-hot-toast';
+import { PREPAYMENT_TYPES, PrepaymentType } from '../lib/payments';
 
 interface ServiceManagementProps {
   profile: Profile | null;
@@ -27,6 +28,8 @@ export default function ServiceManagement({ profile, salonId }: ServiceManagemen
   const [isActive, setIsActive] = useState(true);
   const [imageUrl, setImageUrl] = useState('');
   const [category, setCategory] = useState('Outros');
+  const [prepaymentType, setPrepaymentType] = useState<PrepaymentType>('none');
+  const [depositPercent, setDepositPercent] = useState('30');
 
   const categories = ['Masculino', 'Feminino', 'Corte de Cabelo', 'Barba', 'Unhas', 'Outros'];
 
@@ -71,7 +74,9 @@ export default function ServiceManagement({ profile, salonId }: ServiceManagemen
         salon_id: salonId,
         is_active: isActive,
         image_url: imageUrl || null,
-        category: category
+        category: category,
+        prepayment_type: prepaymentType,
+        deposit_percent: prepaymentType === 'deposit' ? parseInt(depositPercent) : null
       };
 
       if (editingService) {
@@ -156,6 +161,8 @@ export default function ServiceManagement({ profile, salonId }: ServiceManagemen
     setIsActive(service.is_active ?? true);
     setImageUrl(service.image_url || '');
     setCategory(service.category || 'Outros');
+    setPrepaymentType(service.prepayment_type || 'none');
+    setDepositPercent((service.deposit_percent || 30).toString());
     setShowForm(true);
   };
 
@@ -167,6 +174,8 @@ export default function ServiceManagement({ profile, salonId }: ServiceManagemen
     setIsActive(true);
     setImageUrl('');
     setCategory('Outros');
+    setPrepaymentType('none');
+    setDepositPercent('30');
     setEditingService(null);
     setShowForm(false);
   };
@@ -306,6 +315,42 @@ export default function ServiceManagement({ profile, salonId }: ServiceManagemen
                     </div>
                   </div>
 
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+                        <CreditCard className="h-4 w-4 mr-2" /> Pagamento
+                      </label>
+                      <select
+                        value={prepaymentType}
+                        onChange={(e) => setPrepaymentType(e.target.value as PrepaymentType)}
+                        className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                      >
+                        {(Object.keys(PREPAYMENT_TYPES) as PrepaymentType[]).map(type => (
+                          <option key={type} value={type}>{PREPAYMENT_TYPES[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {prepaymentType === 'deposit' && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+                          <DollarSign className="h-4 w-4 mr-2" /> Sinal (% do preço)
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="100"
+                          required
+                          value={depositPercent}
+                          onChange={(e) => setDepositPercent(e.target.value)}
+                          className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {prepaymentType !== 'none' && (
+                    <p className="text-[10px] text-stone-400 dark:text-stone-500 italic -mt-4">O cliente paga online ao agendar; o horário só é confirmado após o pagamento.</p>
+                  )}
+
                   <div className="space-y-2">
                     <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
                       <AlignLeft className="h-4 w-4 mr-2" /> Descrição (Opcional)
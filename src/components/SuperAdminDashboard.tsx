@@ -16,11 +16,16 @@ import {
   ArrowUpRight,
   ArrowDownRight,
   Activity,
-  Mail
+  Mail,
+  Repeat
 } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, subMonths, subDays, isAfter, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
+import { apiFetch } from '../lib/api';
+import { PLANS, SUBSCRIPTION_STATUSES, SalonSubscription, accessEndsAt, monthlyRevenue } from '../lib/billing';
+import { formatBRL } from '../lib/payments';
+import { revenueOf } from '../lib/sales';
 import { 
   BarChart, 
   Bar, 
@@ -51,13 +56,21 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
     totalAppointments: 0,
     revenueGrowth: 0,
     appointmentGrowth: 0,
-    newTenantsLast7Days: 0
+    newTenantsLast7Days: 0,
+    mrr: 0,
+    payingTenants: 0
   });
   const [chartData, setChartData] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSalon, setSelectedSalon] = useState<any | null>(null);
   const [salonStats, setSalonStats] = useState<any>(null);
+  const [emailDraft, setEmailDraft] = useState<{ subject: string; message: string } | null>(null);
+  const [sendingEmail, setSendingEmail] = useState(false);
+
+  useEffect(() => {
+    setEmailDraft(null);
+  }, [selectedSalon?.id]);
 
   useEffect(() => {
     fetchGlobalData();
@@ -74,15 +87,25 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
 
       if (salonsError) throw salonsError;
 
+      const { data: subscriptionsData, error: subscriptionsError } = await supabase
+        .from('salon_subscriptions')
+        .select('*');
+
+      if (subscriptionsError) throw subscriptionsError;
+
+      const subscriptions = new Map<string, SalonSubscription>((subscriptionsData || []).map(sub => [sub.salon_id, sub]));
+      const mrr = (subscriptionsData || []).reduce((acc, sub) => acc + monthlyRevenue(sub), 0);
+      const payingTenants = (subscriptionsData || []).filter(sub => monthlyRevenue(sub) > 0).length;
+
       // Fetch all completed appointments for revenue calculation
       const { data: appointmentsData, error: appointmentsError } = await supabase
         .from('appointments')
-        .select('*, services(price)')
+        .select('*, services(price), sales(subtotal, discount, tip, total)')
         .eq('status', 'completed');
 
       if (appointmentsError) throw appointmentsError;
 
-      const totalRevenue = appointmentsData?.reduce((acc, curr) => acc + (curr.services?.price || 0), 0) || 0;
+      const totalRevenue = revenueOf(appointmentsData || []);
       const activeTenants = salonsData?.filter(s => s.is_active).length || 0;
 
       // Calculate new tenants in last 7 days
@@ -101,7 +124,7 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
           return isAfter(date, start) && isAfter(end, date);
         }) || [];
 
-        const monthRevenue = monthAppointments.reduce((acc, curr) => acc + (curr.services?.price || 0), 0);
+        const monthRevenue = revenueOf(monthAppointments);
         
         last6Months.push({
           name: format(monthDate, 'MMM', { locale: ptBR }),
@@ -124,7 +147,7 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
         ? ((currentMonth.appointments - prevMonth.appointments) / prevMonth.appointments) * 100 
         : currentMonth.appointments > 0 ? 100 : 0;
 
-      setSalons(salonsData || []);
+      setSalons((salonsData || []).map(salon => ({ ...salon, subscription: subscriptions.get(salon.id) || null })));
       setStats({
         totalTenants: salonsData?.length || 0,
         activeTenants,
@@ -132,7 +155,9 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
         totalAppointments: appointmentsData?.length || 0,
         revenueGrowth: parseFloat(revenueGrowth.toFixed(1)),
         appointmentGrowth: parseFloat(appointmentGrowth.toFixed(1)),
-        newTenantsLast7Days
+        newTenantsLast7Days,
+        mrr,
+        payingTenants
       });
     } catch (error: any) {
       toast.error('Erro ao carregar dados: ' + error.message);
@@ -143,12 +168,10 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
 
   const toggleSalonStatus = async (salonId: string, currentStatus: boolean) => {
     try {
-      const { error } = await supabase
-        .from('salons')
-        .update({ is_active: !currentStatus })
-        .eq('id', salonId);
-
-      if (error) throw error;
+      await apiFetch(`/api/admin/salons/${salonId}/active`, {
+        method: 'POST',
+        body: JSON.stringify({ is_active: !currentStatus }),
+      });
 
       toast.success(`Estabelecimento ${!currentStatus ? 'ativado' : 'desativado'} com sucesso`);
       fetchGlobalData(false);
@@ -160,17 +183,33 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
     }
   };
 
+  const sendSalonEmail = async () => {
+    if (!selectedSalon || !emailDraft) return;
+    setSendingEmail(true);
+    try {
+      const { to } = await apiFetch<{ to: string }>(`/api/admin/salons/${selectedSalon.id}/email`, {
+        method: 'POST',
+        body: JSON.stringify(emailDraft),
+      });
+      toast.success(`E-mail enviado para ${to}`);
+      setEmailDraft(null);
+    } catch (error: any) {
+      toast.error('Erro ao enviar e-mail: ' + error.message);
+    } finally {
+      setSendingEmail(false);
+    }
+  };
+
   const fetchSalonDetails = async (salon: any) => {
     setSelectedSalon(salon);
     try {
       const { data: appts } = await supabase
         .from('appointments')
-        .select('*, services(price, name), profiles(full_name)')
+        .select('*, services(price, name), profiles(full_name), sales(subtotal, discount, tip, total)')
         .eq('salon_id', salon.id)
         .order('start_time', { ascending: false });
 
-      const revenue = appts?.filter(a => a.status === 'completed')
-        .reduce((acc, curr) => acc + (curr.services?.price || 0), 0) || 0;
+      const revenue = revenueOf(appts?.filter(a => a.status === 'completed') || []);
 
       setSalonStats({
         appointments: appts || [],
@@ -202,7 +241,7 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
       </header>
 
       {/* Global Stats */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         <StatCard 
           title="Total de Tenants" 
           value={stats.totalTenants} 
@@ -217,6 +256,13 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
           trend={`${((stats.activeTenants / stats.totalTenants) * 100).toFixed(1)}% do total`}
           color="emerald"
         />
+        <StatCard 
+          title="MRR" 
+          value={formatBRL(stats.mrr)} 
+          icon={<Repeat />} 
+          trend={`${stats.payingTenants} ${stats.payingTenants === 1 ? 'assinante' : 'assinantes'}`}
+          color="emerald"
+        />
         <StatCard 
           title="Receita Global" 
           value={`R$ ${stats.totalRevenue.toLocaleString()}`} 
@@ -255,11 +301,12 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
               </div>
             </div>
             <div className="overflow-x-auto scrollbar-hide">
-              <table className="min-w-[44rem] w-full text-left border-collapse">
+              <table className="min-w-[52rem] w-full text-left border-collapse">
                 <thead>
                   <tr className="bg-stone-50/50 dark:bg-stone-800/50">
                     <th className="px-6 py-4 text-[0.65rem] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Estabelecimento</th>
                     <th className="px-6 py-4 text-[0.65rem] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Proprietário</th>
+                    <th className="px-6 py-4 text-[0.65rem] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Assinatura</th>
                     <th className="px-6 py-4 text-[0.65rem] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Status</th>
                     <th className="px-6 py-4 text-[0.65rem] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Ações</th>
                   </tr>
@@ -286,11 +333,26 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
                         <p className="text-sm font-medium text-stone-700 dark:text-stone-300">{salon.profiles?.full_name}</p>
                         <p className="text-xs text-stone-400 dark:text-stone-500">{salon.profiles?.email}</p>
                       </td>
+                      <td className="px-6 py-4">
+                        {salon.subscription ? (
+                          <>
+                            <p className="text-sm font-medium text-stone-700 dark:text-stone-300">
+                              {salon.subscription.plan ? PLANS[salon.subscription.plan as keyof typeof PLANS].name : 'Sem plano'}
+                              {monthlyRevenue(salon.subscription) > 0 && <span className="text-stone-400 dark:text-stone-500"> • {formatBRL(monthlyRevenue(salon.subscription))}</span>}
+                            </p>
+                            <p className={`text-xs ${['past_due', 'unpaid', 'canceled', 'incomplete'].includes(salon.subscription.status) ? 'text-red-500' : 'text-stone-400 dark:text-stone-500'}`}>
+                              {SUBSCRIPTION_STATUSES[salon.subscription.status as keyof typeof SUBSCRIPTION_STATUSES]}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-xs text-stone-400 dark:text-stone-500">—</p>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-bold ${
                           salon.is_active ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
                         }`}>
-                          {salon.is_active ? 'Ativo' : 'Inativo'}
+                          {salon.is_active ? 'Ativo' : salon.billing_suspended_at ? 'Suspenso' : 'Inativo'}
                         </span>
                       </td>
                       <td className="px-6 py-4">
@@ -382,6 +444,19 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
                   </div>
                 </div>
 
+                {selectedSalon.subscription && (
+                  <div className="bg-white/5 p-4 rounded-2xl border border-white/10 space-y-1">
+                    <p className="text-[0.65rem] font-bold text-stone-500 uppercase tracking-widest mb-1">Assinatura</p>
+                    <p className="font-bold">
+                      {selectedSalon.subscription.plan ? PLANS[selectedSalon.subscription.plan as keyof typeof PLANS].name : 'Sem plano'} • {SUBSCRIPTION_STATUSES[selectedSalon.subscription.status as keyof typeof SUBSCRIPTION_STATUSES]}
+                    </p>
+                    <p className="text-[0.75rem] text-stone-400">
+                      MRR {formatBRL(monthlyRevenue(selectedSalon.subscription))}
+                      {(accessEndsAt(selectedSalon.subscription)?.getTime() || 0) > 0 && ` • acesso até ${format(accessEndsAt(selectedSalon.subscription)!, 'dd/MM/yyyy')}`}
+                    </p>
+                  </div>
+                )}
+
                 <div className="space-y-4">
                   <p className="text-[0.75rem] font-bold text-stone-500 uppercase tracking-widest">Últimos Agendamentos</p>
                   <div className="space-y-3">
@@ -397,18 +472,48 @@ export default function SuperAdminDashboard({ profile, theme }: SuperAdminDashbo
                   </div>
                 </div>
 
-                <button 
-                  onClick={() => {
-                    const email = selectedSalon.profiles?.email;
-                    if (email) {
-                      window.location.href = `mailto:${email}?subject=Contato GlowSchedule Admin&body=Olá ${selectedSalon.profiles?.full_name},`;
-                    }
-                  }}
-                  className="w-full py-4 rounded-2xl font-bold bg-white/10 text-white hover:bg-white/20 transition-all flex items-center justify-center space-x-2"
-                >
-                  <Mail className="h-5 w-5" />
-                  <span>Enviar E-mail</span>
-                </button>
+                {emailDraft ? (
+                  <div className="space-y-3">
+                    <input
+                      type="text"
+                      placeholder="Assunto"
+                      value={emailDraft.subject}
+                      onChange={(e) => setEmailDraft({ ...emailDraft, subject: e.target.value })}
+                      className="w-full px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-sm text-white placeholder:text-stone-500 focus:outline-none focus:ring-2 focus:ring-white/20"
+                    />
+                    <textarea
+                      rows={5}
+                      placeholder={`Mensagem para ${selectedSalon.profiles?.full_name || 'o responsável'}`}
+                      value={emailDraft.message}
+                      onChange={(e) => setEmailDraft({ ...emailDraft, message: e.target.value })}
+                      className="w-full px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-sm text-white placeholder:text-stone-500 focus:outline-none focus:ring-2 focus:ring-white/20 resize-none"
+                    />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setEmailDraft(null)}
+                        className="flex-1 py-3 rounded-2xl font-bold bg-white/5 text-stone-400 hover:bg-white/10 transition-all"
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        onClick={sendSalonEmail}
+                        disabled={sendingEmail || !emailDraft.subject.trim() || !emailDraft.message.trim()}
+                        className="flex-1 py-3 rounded-2xl font-bold bg-white text-stone-900 hover:bg-stone-200 transition-all disabled:opacity-50"
+                      >
+                        {sendingEmail ? 'Enviando...' : 'Enviar'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button 
+                    onClick={() => setEmailDraft({ subject: 'Contato GlowSchedule', message: '' })}
+                    disabled={!selectedSalon.profiles?.email}
+                    className="w-full py-4 rounded-2xl font-bold bg-white/10 text-white hover:bg-white/20 transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
+                  >
+                    <Mail className="h-5 w-5" />
+                    <span>Enviar E-mail</span>
+                  </button>
+                )}
 
                 <button 
                   onClick={() => toggleSalonStatus(selectedSalon.id, selectedSalon.is_active)}
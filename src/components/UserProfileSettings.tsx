@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Profile } from '../types';
-import { User, Mail, Camera, Save, ArrowLeft } from 'lucide-react';
+import { User, Mail, Camera, Save, ArrowLeft, Phone, MessageCircle } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { MESSAGE_CHANNELS, MessageChannel, formatPhone, normalizePhone } from '../lib/messaging';
 
 interface UserProfileSettingsProps {
   profile: Profile | null;
@@ -13,6 +14,8 @@ interface UserProfileSettingsProps {
 export default function UserProfileSettings({ profile, onUpdate, onBack }: UserProfileSettingsProps) {
   const [fullName, setFullName] = useState(profile?.full_name || '');
   const [avatarUrl, setAvatarUrl] = useState(profile?.avatar_url || '');
+  const [phone, setPhone] = useState('');
+  const [messageChannel, setMessageChannel] = useState<MessageChannel | ''>(profile?.message_channel || '');
   const [loading, setLoading] = useState(false);
 
   // Update local state when profile prop changes (e.g. after fetch completes)
@@ -20,6 +23,13 @@ export default function UserProfileSettings({ profile, onUpdate, onBack }: UserP
     if (profile?.id) {
       setFullName(profile.full_name || '');
       setAvatarUrl(profile.avatar_url || '');
+      setMessageChannel(profile.message_channel || '');
+      supabase
+        .from('profile_contacts')
+        .select('phone')
+        .eq('profile_id', profile.id)
+        .maybeSingle()
+        .then(({ data }) => setPhone(data?.phone ? formatPhone(data.phone) : ''));
     }
   }, [profile?.id]);
 
@@ -27,13 +37,34 @@ export default function UserProfileSettings({ profile, onUpdate, onBack }: UserP
     e.preventDefault();
     if (!profile) return;
 
+    const normalizedPhone = phone.trim() ? normalizePhone(phone) : null;
+    if (phone.trim() && !normalizedPhone) {
+      toast.error('Telefone inválido. Use DDD + número, ex: (11) 98765-4321');
+      return;
+    }
+    if (messageChannel && !normalizedPhone) {
+      toast.error(`Informe seu telefone para receber mensagens por ${MESSAGE_CHANNELS[messageChannel]}`);
+      return;
+    }
+
     setLoading(true);
     try {
+      const { error: contactError } = normalizedPhone
+        ? await supabase.from('profile_contacts').upsert({ profile_id: profile.id, phone: normalizedPhone, updated_at: new Date().toISOString() })
+        : await supabase.from('profile_contacts').delete().eq('profile_id', profile.id);
+      if (contactError) throw contactError;
+
+      const channel = messageChannel || null;
       const { data, error } = await supabase
         .from('profiles')
         .update({
           full_name: fullName,
           avatar_url: avatarUrl,
+          message_channel: channel,
+          // Consent is dated when the client opts in to a channel, not on every save
+          message_opt_in_at: channel
+            ? (channel === profile.message_channel && profile.message_opt_in_at) || new Date().toISOString()
+            : null,
         })
         .eq('id', profile.id)
         .select()
@@ -126,6 +157,41 @@ export default function UserProfileSettings({ profile, onUpdate, onBack }: UserP
             <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">Cole o link de uma imagem pública (ex: do seu Instagram ou LinkedIn).</p>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <Phone className="h-4 w-4 mr-2" /> Telefone
+            </label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="(11) 98765-4321"
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            />
+            <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">Visível apenas para os estabelecimentos onde você agendou.</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-stone-600 dark:text-stone-400 flex items-center">
+              <MessageCircle className="h-4 w-4 mr-2" /> Lembretes por Mensagem
+            </label>
+            <select
+              value={messageChannel}
+              onChange={(e) => setMessageChannel(e.target.value as MessageChannel | '')}
+              className="w-full px-4 py-3 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary transition-all dark:text-stone-100"
+            >
+              <option value="" className="dark:bg-stone-900">Não receber mensagens</option>
+              {(Object.keys(MESSAGE_CHANNELS) as MessageChannel[]).map(channel => (
+                <option key={channel} value={channel} className="dark:bg-stone-900">{MESSAGE_CHANNELS[channel]}</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-stone-400 dark:text-stone-500 italic">
+              {messageChannel
+                ? `Você autoriza o envio de confirmações, cancelamentos e lembretes dos seus agendamentos por ${MESSAGE_CHANNELS[messageChannel]}. Pode desativar quando quiser.`
+                : 'Receba confirmações e lembretes dos seus agendamentos por WhatsApp ou SMS.'}
+            </p>
+          </div>
+
           <div className="pt-4">
             <button
               type="submit"
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { apiFetch } from '../lib/api';
+import { WaitlistEntry } from '../types';
+import { Hourglass, SkipForward, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+
+interface WaitlistQueueProps {
+  salonId: string;
+}
+
+export default function WaitlistQueue({ salonId }: WaitlistQueueProps) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  useEffect(() => {
+    fetchEntries();
+
+    const channel = supabase
+      .channel(`salon-${salonId}-waitlist`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'waitlist_entries',
+          filter: `salon_id=eq.${salonId}`
+        },
+        () => fetchEntries()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [salonId]);
+
+  const fetchEntries = async () => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('*, services(name, duration), professionals!waitlist_entries_professional_id_fkey(name), profiles(full_name)')
+      .eq('salon_id', salonId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching waitlist:', error);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const handleRemove = async (id: string) => {
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'cancelled' })
+      .eq('id', id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  // Passes an open offer to the next client in line
+  const handleSkip = async (id: string) => {
+    try {
+      const { next_entry_id } = await apiFetch<{ next_entry_id: string | null }>(`/api/waitlist/${id}/decline`, { method: 'POST' });
+      toast.success(next_entry_id ? 'Oferta passada para o próximo da fila.' : 'Ninguém mais na fila para este horário.');
+      fetchEntries();
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-stone-900 rounded-3xl p-8 shadow-sm border border-stone-100 dark:border-stone-800 mt-8 transition-colors duration-300">
+      <h3 className="text-xl font-bold mb-6 flex items-center text-stone-800 dark:text-stone-100">
+        <Hourglass className="mr-2 h-5 w-5 text-brand-primary" />
+        Lista de Espera
+        {entries.length > 0 && (
+          <span className="ml-2 px-2 py-0.5 rounded-full bg-brand-primary/10 text-brand-primary text-xs">{entries.length}</span>
+        )}
+      </h3>
+
+      {entries.length === 0 ? (
+        <p className="text-stone-400 dark:text-stone-500 text-center py-4 italic">Ninguém aguardando no momento.</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-4 bg-stone-50 dark:bg-stone-800/50 rounded-2xl border border-stone-100 dark:border-stone-800 gap-3">
+              <div className="flex items-center space-x-4 min-w-0">
+                <span className="w-8 h-8 rounded-full bg-white dark:bg-stone-800 flex items-center justify-center text-xs font-bold text-stone-500 shrink-0">
+                  {index + 1}
+                </span>
+                <div className="min-w-0">
+                  <p className="font-semibold text-stone-800 dark:text-stone-100 truncate">{entry.profiles?.full_name || 'Cliente'}</p>
+                  <p className="text-sm text-stone-500 dark:text-stone-400 truncate">
+                    {entry.services?.name}
+                    {entry.professionals?.name ? ` • ${entry.professionals.name}` : ' • Qualquer profissional'}
+                    {` • ${format(parseISO(entry.window_start), 'dd/MM')} a ${format(new Date(Date.parse(entry.window_end) - 1), 'dd/MM')}`}
+                  </p>
+                  {entry.status === 'offered' && entry.offered_start_time && (
+                    <p className="text-xs text-emerald-600 dark:text-emerald-400">
+                      Oferta enviada: {format(parseISO(entry.offered_start_time), "dd 'de' MMM 'às' HH:mm", { locale: ptBR })}
+                      {entry.offer_expires_at && ` (até ${format(parseISO(entry.offer_expires_at), 'HH:mm')})`}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex space-x-1 self-end sm:self-auto">
+                {entry.status === 'offered' && (
+                  <button onClick={() => handleSkip(entry.id)} className="p-2 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition-colors" title="Passar a vez">
+                    <SkipForward className="h-5 w-5" />
+                  </button>
+                )}
+                <button onClick={() => handleRemove(entry.id)} className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors" title="Remover da fila">
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+import { AvailabilitySlot } from './availability';
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details?: any;
+
+  constructor(message: string, status: number, code?: string, details?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Calls the Express API, forwarding the Supabase session so the server can identify the user
+export async function apiFetch<T = any>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+  if (init.body && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+  if (session?.access_token) headers.set('Authorization', `Bearer ${session.access_token}`);
+
+  const response = await fetch(path, { ...init, headers });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(body?.error || 'Erro ao comunicar com o servidor', response.status, body?.code, body);
+  }
+  return body as T;
+}
+
+export interface SlotConflictError extends ApiError {
+  code: 'slot_conflict';
+  details: { alternatives: AvailabilitySlot[] };
+}
+
+export function isSlotConflict(error: unknown): error is SlotConflictError {
+  return error instanceof ApiError && error.code === 'slot_conflict';
+}
+
+export interface SeriesConflictError extends ApiError {
+  code: 'series_conflict';
+  details: { conflicts?: { start_time: string; message: string | null }[] };
+}
+
+export function isSeriesConflict(error: unknown): error is SeriesConflictError {
+  return error instanceof ApiError && error.code === 'series_conflict';
+}
@@ -0,0 +1,12 @@
+import { supabase } from './supabase';
+import { Appointment } from '../types';
+import { canTransition, transitionError } from './status';
+
+// Status changes act on the whole visit when the appointment is part of a multi-service group
+export async function updateVisitStatus(apt: Pick<Appointment, 'id' | 'group_id' | 'status'>, status: Appointment['status']) {
+  if (!canTransition(apt.status, status)) {
+    return { error: new Error(transitionError(apt.status, status)) };
+  }
+  const query = supabase.from('appointments').update({ status });
+  return apt.group_id ? query.eq('group_id', apt.group_id) : query.eq('id', apt.id);
+}
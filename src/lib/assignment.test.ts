@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssignmentCandidate, matchesSpecialty, pickProfessional } from './assignment';
+
+const candidates: AssignmentCandidate[] = [
+  { id: 'ana', specialty: 'Coloração', load: 120, last_assigned_at: '2030-01-07T10:00:00Z' },
+  { id: 'bia', specialty: 'Manicure', load: 60, last_assigned_at: '2030-01-07T09:00:00Z' },
+  { id: 'caio', specialty: null, load: 90, last_assigned_at: null },
+];
+const service = { name: 'Luzes', category: 'Coloracao' };
+
+test('least_loaded picks whoever has the fewest booked minutes', () => {
+  assert.equal(pickProfessional('least_loaded', candidates, service), 'bia');
+  assert.equal(pickProfessional(undefined, candidates, service), 'bia');
+});
+
+test('round_robin starts with whoever never got a client, then the oldest assignment', () => {
+  assert.equal(pickProfessional('round_robin', candidates, service), 'caio');
+  assert.equal(pickProfessional('round_robin', candidates.slice(0, 2), service), 'bia');
+});
+
+test('skill_match prefers a matching specialty and falls back to the least loaded', () => {
+  assert.equal(pickProfessional('skill_match', candidates, service), 'ana');
+  assert.equal(pickProfessional('skill_match', candidates, { name: 'Barba' }), 'bia');
+  assert.equal(pickProfessional('skill_match', [], service), null);
+});
+
+test('matchesSpecialty ignores accents and case', () => {
+  assert.equal(matchesSpecialty('COLORAÇÃO', { name: 'Tintura', category: 'coloracao' }), true);
+  assert.equal(matchesSpecialty('Manicure', { name: 'Corte' }), false);
+  assert.equal(matchesSpecialty(null, service), false);
+});
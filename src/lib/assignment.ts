@@ -0,0 +1,71 @@
+// Picks a professional for "Qualquer Profissional" bookings.
+// Candidates are already known to be free for the requested slot.
+
+export type AssignmentStrategy = 'least_loaded' | 'round_robin' | 'skill_match';
+
+export const ASSIGNMENT_STRATEGIES: Record<AssignmentStrategy, { label: string; description: string }> = {
+  least_loaded: {
+    label: 'Menor ocupação',
+    description: 'Escolhe quem tem menos minutos agendados no dia.',
+  },
+  round_robin: {
+    label: 'Rodízio',
+    description: 'Alterna entre os profissionais, começando por quem recebeu um cliente há mais tempo.',
+  },
+  skill_match: {
+    label: 'Especialidade',
+    description: 'Prioriza quem tem a especialidade compatível com o serviço.',
+  },
+};
+
+export interface AssignmentCandidate {
+  id: string;
+  specialty?: string | null;
+  load: number; // minutes already booked on the day
+  last_assigned_at?: string | null;
+}
+
+export interface AssignmentService {
+  name: string;
+  category?: string | null;
+}
+
+function normalize(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+export function matchesSpecialty(specialty: string | null | undefined, service: AssignmentService): boolean {
+  if (!specialty) return false;
+  const skill = normalize(specialty);
+  return [service.category, service.name]
+    .filter((value): value is string => !!value)
+    .map(normalize)
+    .some(value => value.includes(skill) || skill.includes(value));
+}
+
+function leastLoaded(candidates: AssignmentCandidate[]) {
+  return candidates.reduce((best, c) => (c.load < best.load ? c : best));
+}
+
+export function pickProfessional(
+  strategy: AssignmentStrategy | undefined,
+  candidates: AssignmentCandidate[],
+  service: AssignmentService
+): string | null {
+  if (candidates.length === 0) return null;
+
+  switch (strategy) {
+    case 'round_robin': {
+      // Never assigned first, then the oldest assignment
+      const rank = (c: AssignmentCandidate) => (c.last_assigned_at ? Date.parse(c.last_assigned_at) : -Infinity);
+      return candidates.reduce((best, c) => (rank(c) < rank(best) ? c : best)).id;
+    }
+    case 'skill_match': {
+      const skilled = candidates.filter(c => matchesSpecialty(c.specialty, service));
+      return leastLoaded(skilled.length > 0 ? skilled : candidates).id;
+    }
+    case 'least_loaded':
+    default:
+      return leastLoaded(candidates).id;
+  }
+}
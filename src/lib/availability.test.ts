@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AvailabilityRequest, checkSlot, computeAvailability, fromLocal, resolveOpenIntervals, toLocal } from './availability';
+
+// Monday 7 Jan 2030 in Brasília (UTC-3); the salon opens 09:00-12:00 every weekday
+const MONDAY = '2030-01-07';
+const WEEKDAY_HOURS = Object.fromEntries(
+  ['Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta'].map(day => [day, [{ start: '09:00', end: '12:00' }]])
+);
+
+function request(overrides: Partial<AvailabilityRequest> = {}): AvailabilityRequest {
+  return {
+    date: MONDAY,
+    utcOffset: 180,
+    duration: 30,
+    openingHours: WEEKDAY_HOURS,
+    professionalIds: ['ana'],
+    appointments: [],
+    now: new Date('2030-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const available = (req: AvailabilityRequest) =>
+  computeAvailability(req).filter(slot => slot.available).map(slot => slot.time);
+
+test('slots follow the grid inside the opening hours', () => {
+  const slots = computeAvailability(request({ duration: 60 }));
+  assert.deepEqual(slots.map(slot => slot.time), ['09:00', '09:30', '10:00', '10:30', '11:00']);
+  assert.equal(slots[0].start_time, '2030-01-07T12:00:00.000Z');
+  assert.ok(slots.every(slot => slot.available));
+  assert.deepEqual(computeAvailability(request({ date: '2030-01-06' })), []);
+});
+
+test('buffers keep a gap around existing bookings', () => {
+  const booked = [{ start_time: '2030-01-07T13:00:00.000Z', duration: 30, professional_id: 'ana' }]; // 10:00-10:30
+
+  assert.deepEqual(available(request({ slotInterval: 15, appointments: booked })),
+    ['09:00', '09:15', '09:30', '10:30', '10:45', '11:00', '11:15', '11:30']);
+  assert.deepEqual(available(request({ slotInterval: 15, appointments: booked, bufferBefore: 15, bufferAfter: 15 })),
+    ['09:00', '11:00', '11:15', '11:30']);
+});
+
+test('breaks in the working hours make the professional unavailable', () => {
+  const workingHours = { ana: [{ start: 540, end: 600 }, { start: 660, end: 720 }] }; // lunch 10:00-11:00
+  assert.deepEqual(available(request({ workingHours })), ['09:00', '09:30', '11:00', '11:30']);
+  assert.equal(checkSlot(request({ workingHours }), 600).reason, 'off');
+});
+
+test('overlapping bookings are rejected for the professional but not for the salon', () => {
+  const booked = [{ start_time: '2030-01-07T13:00:00.000Z', duration: 60, professional_id: 'ana' }];
+
+  const chosen = checkSlot(request({ appointments: booked, professionalId: 'ana' }), 630);
+  assert.equal(chosen.available, false);
+  assert.equal(chosen.reason, 'busy');
+
+  const any = checkSlot(request({ appointments: booked, professionalIds: ['ana', 'bia'] }), 630);
+  assert.equal(any.available, true);
+  assert.deepEqual(any.professional_ids, ['bia']);
+
+  // An unassigned booking still takes one of the two chairs
+  const unassigned = [...booked, { start_time: '2030-01-07T13:00:00.000Z', duration: 60, professional_id: null }];
+  assert.equal(checkSlot(request({ appointments: unassigned, professionalIds: ['ana', 'bia'] }), 630).reason, 'busy');
+});
+
+test('lead time and booking horizon close slots', () => {
+  const now = new Date('2030-01-07T12:00:00.000Z'); // 09:00 in the salon
+  const soon = request({ now, minLeadMinutes: 60 });
+  assert.equal(checkSlot(soon, 510).reason, 'closed');
+  assert.equal(checkSlot(soon, 540).reason, 'too_soon');
+  assert.equal(checkSlot(soon, 570).reason, 'too_soon');
+  assert.equal(checkSlot(soon, 600).available, true);
+  assert.equal(checkSlot(request({ now: new Date('2030-01-07T13:10:00.000Z') }), 600).reason, 'past');
+
+  assert.equal(checkSlot(request({ now, date: '2030-01-10', bookingHorizonDays: 3 }), 600).available, true);
+  assert.equal(checkSlot(request({ now, date: '2030-01-11', bookingHorizonDays: 3 }), 600).reason, 'too_far');
+});
+
+test('a multi-service visit runs back to back and must fit the hours', () => {
+  const visit = checkSlot(request({ duration: 90, durations: [30, 60] }), 600);
+  assert.deepEqual(visit.steps.map(step => [step.start, step.end, step.professional_id]), [[600, 630, 'ana'], [630, 690, 'ana']]);
+  assert.equal(checkSlot(request({ duration: 90, durations: [30, 60] }), 660).reason, 'closed');
+});
+
+test('special dates override the weekly hours', () => {
+  const closed = { id: '1', salon_id: 's', date: MONDAY, kind: 'closed' as const };
+  assert.deepEqual(resolveOpenIntervals(WEEKDAY_HOURS, MONDAY, closed), []);
+  const custom = { id: '2', salon_id: 's', date: MONDAY, kind: 'custom_hours' as const, start_time: '14:00:00', end_time: '16:00:00' };
+  assert.deepEqual(resolveOpenIntervals(WEEKDAY_HOURS, MONDAY, custom), [{ start: 840, end: 960 }]);
+});
+
+test('toLocal and fromLocal convert between instants and salon time', () => {
+  const instant = fromLocal(MONDAY, '09:30', 180);
+  assert.equal(instant.toISOString(), '2030-01-07T12:30:00.000Z');
+  assert.deepEqual(toLocal(instant, 180), { date: MONDAY, minutes: 570 });
+  assert.deepEqual(toLocal(new Date('2030-01-08T01:00:00.000Z'), 180), { date: MONDAY, minutes: 1320 });
+});
@@ -0,0 +1,275 @@
+// Pure availability engine shared by the API server and the browser.
+// Everything is computed in minutes since local midnight of the requested day,
+// so intervals can be compared with plain integer math.
+
+import { OpeningHours, SalonSpecialDate } from '../types';
+
+export const WEEKDAYS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+export interface Interval {
+  start: number; // minutes since local midnight
+  end: number;
+}
+
+export interface AvailabilityAppointment {
+  start_time: string;
+  duration: number;
+  professional_id?: string | null;
+}
+
+export interface AvailabilityRequest {
+  date: string; // yyyy-MM-dd, in the salon's local time
+  utcOffset: number; // minutes, same sign as Date#getTimezoneOffset (180 for Brasília)
+  duration: number; // total minutes of the visit
+  durations?: number[]; // services performed back to back in one visit, in order
+  slotInterval?: number; // grid step in minutes; defaults to DEFAULT_SLOT_INTERVAL
+  bufferBefore?: number; // preparation minutes blocked before every service
+  bufferAfter?: number; // cleanup minutes blocked after every service
+  openingHours?: OpeningHours;
+  specialDate?: SalonSpecialDate | null; // holiday or special hours overriding the weekday
+  professionalIds: string[]; // active professionals of the salon
+  professionalId?: string | null; // null means "Qualquer Profissional"
+  // Working intervals per professional for this day; null or missing follows the salon hours
+  workingHours?: Record<string, Interval[] | null>;
+  appointments: AvailabilityAppointment[];
+  minLeadMinutes?: number; // earliest bookable start is now + this
+  bookingHorizonDays?: number; // last bookable day, counted from the salon's today
+  now?: Date;
+}
+
+export const DEFAULT_SLOT_INTERVAL = 30;
+export const SLOT_INTERVALS = [5, 10, 15, 20, 30, 60];
+
+export interface AvailabilitySlot {
+  time: string; // HH:mm
+  start_time: string; // ISO
+  available: boolean;
+  professional_ids: string[]; // professionals free for the whole slot
+}
+
+export function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatTime(minutes: number): string {
+  const h = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const m = (minutes % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+}
+
+export function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+export function weekdayOf(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return WEEKDAYS[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+}
+
+// Epoch milliseconds of local midnight for the given day
+export function dayStart(date: string, utcOffset: number): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) + utcOffset * 60000;
+}
+
+export function toInterval(start?: string | null, end?: string | null): Interval | null {
+  // TIME columns come back from Postgres as HH:mm:ss
+  const s = start ? parseTime(start.slice(0, 5)) : null;
+  const e = end ? parseTime(end.slice(0, 5)) : null;
+  return s !== null && e !== null && s < e ? { start: s, end: e } : null;
+}
+
+// Dated overrides win over the weekly opening hours; an empty list means closed
+export function resolveOpenIntervals(
+  openingHours: OpeningHours | undefined,
+  date: string,
+  specialDate?: SalonSpecialDate | null
+): Interval[] {
+  if (specialDate?.date === date) {
+    if (specialDate.kind === 'closed') return [];
+    const interval = toInterval(specialDate.start_time, specialDate.end_time);
+    return interval ? [interval] : [];
+  }
+  return (openingHours?.[weekdayOf(date)] || [])
+    .map(range => toInterval(range.start, range.end))
+    .filter((interval): interval is Interval => interval !== null)
+    .sort((a, b) => a.start - b.start);
+}
+
+export type SlotUnavailableReason = 'past' | 'too_soon' | 'too_far' | 'closed' | 'off' | 'busy';
+
+export interface SequenceStep {
+  start: number; // minutes since local midnight
+  end: number;
+  professional_ids: string[]; // professionals free for this step
+  professional_id: string | null; // the one holding the step for the following ones
+}
+
+export interface SlotCheck {
+  available: boolean;
+  reason?: SlotUnavailableReason;
+  professional_ids: string[]; // professionals free for the whole slot
+  steps: SequenceStep[]; // one per service of the visit, empty when unavailable
+}
+
+// Chooses who performs a step of a multi-service visit among the free professionals
+export type ProfessionalPicker = (step: number, freeIds: string[], previous: string | null) => string | null;
+
+// Keeps the client in the same chair when possible
+const keepProfessional: ProfessionalPicker = (_step, freeIds, previous) =>
+  previous && freeIds.includes(previous) ? previous : freeIds[0] || null;
+
+type BusyInterval = Interval & { professional_id: string | null };
+
+interface AvailabilityContext {
+  request: AvailabilityRequest;
+  base: number;
+  now: number;
+  open: Interval[];
+  busy: BusyInterval[];
+  horizonEnd: number | null; // epoch ms after which nothing can be booked
+}
+
+interface StepOptions {
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  held: BusyInterval[]; // earlier steps of the same visit
+}
+
+function prepare(request: AvailabilityRequest): AvailabilityContext {
+  const base = dayStart(request.date, request.utcOffset);
+  const before = request.bufferBefore || 0;
+  const after = request.bufferAfter || 0;
+  const now = request.now || new Date();
+  const today = toLocal(now, request.utcOffset).date;
+  return {
+    request,
+    base,
+    now: now.getTime(),
+    horizonEnd: request.bookingHorizonDays !== undefined && request.bookingHorizonDays !== null
+      ? dayStart(today, request.utcOffset) + (request.bookingHorizonDays + 1) * 86400000
+      : null,
+    open: resolveOpenIntervals(request.openingHours, request.date, request.specialDate),
+    busy: request.appointments.map(apt => {
+      // Existing bookings block their buffers too
+      const start = (Date.parse(apt.start_time) - base) / 60000;
+      return { start: start - before, end: start + (apt.duration || 60) + after, professional_id: apt.professional_id || null };
+    }),
+  };
+}
+
+function evaluate(ctx: AvailabilityContext, start: number, options: StepOptions): Omit<SlotCheck, 'steps'> {
+  const { professionalIds, professionalId } = ctx.request;
+  const slot = { start, end: start + options.duration };
+
+  if (!ctx.open.some(interval => slot.start >= interval.start && slot.end <= interval.end)) {
+    return { available: false, reason: 'closed', professional_ids: [] };
+  }
+
+  const works = (id: string) => {
+    const hours = ctx.request.workingHours?.[id];
+    return !hours || hours.some(h => slot.start >= h.start && slot.end <= h.end);
+  };
+
+  // The service itself must fit the open hours; only its buffers compete with other bookings
+  const blocked = { start: start - options.bufferBefore, end: slot.end + options.bufferAfter };
+  const overlapping = [...ctx.busy, ...options.held].filter(b => overlaps(b, blocked));
+  const candidates = (professionalId ? [professionalId] : professionalIds).filter(works);
+  if ((professionalId || professionalIds.length > 0) && candidates.length === 0) {
+    return { available: false, reason: 'off', professional_ids: [] };
+  }
+  const free = candidates.filter(id => !overlapping.some(b => b.professional_id === id));
+
+  let available: boolean;
+  if (professionalId) {
+    available = free.length > 0;
+  } else if (candidates.length > 0) {
+    // Unassigned bookings still take one of the free professionals
+    const unassigned = overlapping.filter(b => !b.professional_id).length;
+    available = free.length > unassigned;
+  } else {
+    // Salons without professionals serve one client at a time
+    available = overlapping.length === 0;
+  }
+
+  if (!available) return { available: false, reason: 'busy', professional_ids: [] };
+  const instant = ctx.base + start * 60000;
+  if (instant < ctx.now) return { available: false, reason: 'past', professional_ids: [] };
+  if (instant < ctx.now + (ctx.request.minLeadMinutes || 0) * 60000) return { available: false, reason: 'too_soon', professional_ids: [] };
+  if (ctx.horizonEnd !== null && instant >= ctx.horizonEnd) return { available: false, reason: 'too_far', professional_ids: [] };
+  return { available: true, professional_ids: free };
+}
+
+function durationsOf(request: AvailabilityRequest): number[] {
+  return request.durations && request.durations.length > 0 ? request.durations : [request.duration];
+}
+
+// Services of one visit run back to back; buffers only surround the whole visit
+function evaluateVisit(ctx: AvailabilityContext, start: number, pick: ProfessionalPicker): SlotCheck {
+  const durations = durationsOf(ctx.request);
+  const held: BusyInterval[] = [];
+  const steps: SequenceStep[] = [];
+  let cursor = start;
+  let previous: string | null = null;
+
+  for (let i = 0; i < durations.length; i++) {
+    const bufferBefore = i === 0 ? ctx.request.bufferBefore || 0 : 0;
+    const bufferAfter = i === durations.length - 1 ? ctx.request.bufferAfter || 0 : 0;
+    const check = evaluate(ctx, cursor, { duration: durations[i], bufferBefore, bufferAfter, held });
+    if (!check.available) return { ...check, steps: [] };
+
+    const chosen = ctx.request.professionalId || pick(i, check.professional_ids, previous);
+    held.push({ start: cursor - bufferBefore, end: cursor + durations[i] + bufferAfter, professional_id: chosen });
+    steps.push({ start: cursor, end: cursor + durations[i], professional_ids: check.professional_ids, professional_id: chosen });
+    previous = chosen;
+    cursor += durations[i];
+  }
+
+  return { available: true, professional_ids: steps[0].professional_ids, steps };
+}
+
+// Checks an arbitrary start (minutes since local midnight), not only the generated grid
+export function checkSlot(request: AvailabilityRequest, start: number, pick: ProfessionalPicker = keepProfessional): SlotCheck {
+  return evaluateVisit(prepare(request), start, pick);
+}
+
+export function computeAvailability(request: AvailabilityRequest): AvailabilitySlot[] {
+  const ctx = prepare(request);
+  const duration = durationsOf(request).reduce((acc, d) => acc + d, 0);
+  const step = request.slotInterval && request.slotInterval > 0 ? request.slotInterval : DEFAULT_SLOT_INTERVAL;
+  if (duration <= 0) return [];
+
+  const slots: AvailabilitySlot[] = [];
+  for (const interval of ctx.open) {
+    for (let start = interval.start; start + duration <= interval.end; start += step) {
+      const check = evaluateVisit(ctx, start, keepProfessional);
+      slots.push({
+        time: formatTime(start),
+        start_time: new Date(ctx.base + start * 60000).toISOString(),
+        available: check.available,
+        professional_ids: check.professional_ids,
+      });
+    }
+  }
+
+  return slots;
+}
+
+// The instant a salon-local day and "HH:mm" time stand for
+export function fromLocal(date: string, time: string, utcOffset: number): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(dayStart(date, utcOffset) + (hours * 60 + minutes) * 60000);
+}
+
+// Converts an instant into the salon-local day and minute used by the engine
+export function toLocal(instant: Date, utcOffset: number): { date: string; minutes: number } {
+  const shifted = new Date(instant.getTime() - utcOffset * 60000);
+  const date = shifted.toISOString().slice(0, 10);
+  return { date, minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes() };
+}
@@ -0,0 +1,74 @@
+// Salon (tenant) subscriptions to the platform. Stripe owns the billing cycle; the server mirrors
+// each subscription into salon_subscriptions and deactivates salons that stop paying.
+
+export type PlanId = 'essencial' | 'profissional';
+
+export interface Plan {
+  name: string;
+  price: number; // BRL per month
+  description: string;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  essencial: { name: 'Essencial', price: 79, description: 'Agenda online, lembretes e até 3 profissionais' },
+  profissional: { name: 'Profissional', price: 149, description: 'Profissionais ilimitados, pagamentos online e relatórios' },
+};
+
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'unpaid' | 'canceled' | 'incomplete';
+
+export const SUBSCRIPTION_STATUSES: Record<SubscriptionStatus, string> = {
+  trialing: 'Período de teste',
+  active: 'Ativa',
+  past_due: 'Pagamento pendente',
+  unpaid: 'Inadimplente',
+  canceled: 'Cancelada',
+  incomplete: 'Aguardando pagamento',
+};
+
+export const TRIAL_DAYS = 14;
+// Days a salon keeps working after a failed charge while Stripe retries it
+export const GRACE_DAYS = 7;
+
+export interface SalonSubscription {
+  salon_id: string;
+  plan?: PlanId | null;
+  status: SubscriptionStatus;
+  trial_ends_at?: string | null;
+  current_period_end?: string | null;
+  past_due_since?: string | null;
+  cancel_at_period_end?: boolean;
+  stripe_customer_id?: string | null;
+  stripe_subscription_id?: string | null;
+  updated_at?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a salon that is not paying loses access; null while it is paid up
+export function accessEndsAt(subscription: SalonSubscription): Date | null {
+  switch (subscription.status) {
+    case 'active':
+      return null;
+    case 'trialing':
+      return subscription.trial_ends_at ? new Date(subscription.trial_ends_at) : null;
+    case 'past_due':
+    case 'unpaid':
+      return new Date(Date.parse(subscription.past_due_since || subscription.updated_at || '') + GRACE_DAYS * DAY_MS);
+    case 'canceled':
+      return subscription.current_period_end ? new Date(subscription.current_period_end) : new Date(0);
+    default:
+      // A first checkout that never went through leaves whatever trial was left
+      return subscription.trial_ends_at ? new Date(subscription.trial_ends_at) : new Date(0);
+  }
+}
+
+export function hasAccess(subscription: SalonSubscription, now = new Date()): boolean {
+  const endsAt = accessEndsAt(subscription);
+  return !endsAt || endsAt.getTime() > now.getTime();
+}
+
+// Monthly recurring revenue: only subscriptions that are being charged count
+export function monthlyRevenue(subscription: SalonSubscription): number {
+  if (!subscription.plan || !['active', 'past_due'].includes(subscription.status)) return 0;
+  return PLANS[subscription.plan]?.price || 0;
+}
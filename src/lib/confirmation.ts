@@ -0,0 +1,68 @@
+// Per-salon rules for pending requests: confirm them automatically or cancel them when the salon
+// does not answer in time. Applied by the scheduler in server/confirmation.ts.
+
+import { Salon } from '../types';
+import { formatDuration } from './policy';
+
+export type AutoConfirmMode = 'off' | 'always' | 'returning';
+
+export const AUTO_CONFIRM_MODES: Record<AutoConfirmMode, { label: string; description: string }> = {
+  off: {
+    label: 'Confirmar manualmente',
+    description: 'Todo pedido fica pendente até você confirmar.',
+  },
+  always: {
+    label: 'Confirmar automaticamente',
+    description: 'Pedidos são confirmados assim que feitos.',
+  },
+  returning: {
+    label: 'Confirmar clientes que já vieram',
+    description: 'Clientes com pelo menos um atendimento concluído são confirmados na hora; os novos aguardam você.',
+  },
+};
+
+export interface ConfirmationRules {
+  autoConfirm: AutoConfirmMode;
+  pendingExpiryHours: number | null; // null: pending requests never expire
+}
+
+export const DEFAULT_CONFIRMATION_RULES: ConfirmationRules = {
+  autoConfirm: 'off',
+  pendingExpiryHours: null,
+};
+
+export function confirmationRulesOf(
+  salon?: Partial<Pick<Salon, 'auto_confirm' | 'pending_expiry_hours'>> | null
+): ConfirmationRules {
+  return {
+    autoConfirm: salon?.auto_confirm ?? DEFAULT_CONFIRMATION_RULES.autoConfirm,
+    pendingExpiryHours: salon?.pending_expiry_hours ?? DEFAULT_CONFIRMATION_RULES.pendingExpiryHours,
+  };
+}
+
+// Requests flagged by the no-show rule always wait for the salon
+export function shouldAutoConfirm(
+  rules: ConfirmationRules,
+  request: { returning: boolean; reliability_flag?: string | null }
+): boolean {
+  if (request.reliability_flag) return false;
+  return rules.autoConfirm === 'always' || (rules.autoConfirm === 'returning' && request.returning);
+}
+
+// Counted from the request or, after a reschedule, from the new request
+export function pendingExpiresAt(
+  rules: ConfirmationRules,
+  apt: { created_at?: string; rescheduled_at?: string | null }
+): Date | null {
+  const requestedAt = apt.rescheduled_at || apt.created_at;
+  if (rules.pendingExpiryHours === null || !requestedAt) return null;
+  return new Date(Date.parse(requestedAt) + rules.pendingExpiryHours * 3600000);
+}
+
+export function confirmationMessage(rules: ConfirmationRules): string | null {
+  if (rules.autoConfirm === 'always') return 'Este estabelecimento confirma os agendamentos automaticamente.';
+  if (rules.pendingExpiryHours !== null) {
+    return `Se o estabelecimento não confirmar em até ${formatDuration(rules.pendingExpiryHours * 60)}, o pedido é cancelado automaticamente.`;
+  }
+  return null;
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalendarEvent, buildIcs } from './ics';
+
+const event: CalendarEvent = {
+  uid: 'apt-1@glowschedule',
+  start: new Date('2030-01-07T12:00:00.000Z'),
+  end: new Date('2030-01-07T13:00:00.000Z'),
+  summary: 'Corte, barba; hidratação',
+  description: 'Traga a referência\nObrigado',
+  organizer: { name: 'Salão "Bela"', email: 'contato@bela.com' },
+  attendee: { name: 'Maria', email: 'maria@example.com' },
+  status: 'CONFIRMED',
+  sequence: 2,
+};
+const now = new Date('2030-01-01T10:00:00.000Z');
+
+const lines = (ics: string) => ics.split('\r\n');
+
+test('an invite is a REQUEST with the organizer and attendee', () => {
+  const ics = buildIcs(event, now);
+  assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  const content = lines(ics);
+  for (const line of [
+    'METHOD:REQUEST',
+    'UID:apt-1@glowschedule',
+    'DTSTAMP:20300101T100000Z',
+    'DTSTART:20300107T120000Z',
+    'DTEND:20300107T130000Z',
+    'SEQUENCE:2',
+    'ORGANIZER;CN="Salão Bela":mailto:contato@bela.com',
+    'ATTENDEE;CN="Maria";ROLE=REQ-PARTICIPANT:mailto:maria@example.com',
+    'STATUS:CONFIRMED',
+  ]) assert.ok(content.includes(line), line);
+});
+
+test('a cancellation is a CANCEL for the same uid', () => {
+  const content = lines(buildIcs({ ...event, status: 'CANCELLED' }, now));
+  assert.ok(content.includes('METHOD:CANCEL'));
+  assert.ok(content.includes('UID:apt-1@glowschedule'));
+  assert.ok(content.includes('STATUS:CANCELLED'));
+});
+
+test('text values are escaped', () => {
+  const content = lines(buildIcs(event, now));
+  assert.ok(content.includes('SUMMARY:Corte\\, barba\\; hidratação'));
+  assert.ok(content.includes('DESCRIPTION:Traga a referência\\nObrigado'));
+});
+
+test('long lines fold at 75 octets without splitting characters', () => {
+  const summary = 'Coloração e hidratação '.repeat(6);
+  const content = lines(buildIcs({ ...event, summary }, now));
+  const start = content.findIndex(line => line.startsWith('SUMMARY:'));
+  const folded = [content[start]];
+  for (let i = start + 1; content[i].startsWith(' '); i++) folded.push(content[i]);
+
+  assert.ok(folded.length > 1);
+  for (const line of folded) assert.ok(new TextEncoder().encode(line).length <= 75);
+  assert.equal(folded.map((line, i) => (i ? line.slice(1) : line)).join(''), `SUMMARY:${summary}`);
+});
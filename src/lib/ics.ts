@@ -0,0 +1,76 @@
+// Minimal iCalendar (RFC 5545) event, attached to appointment emails so the visit lands in the
+// client's calendar. A cancellation reuses the uid so calendars remove the event they already have;
+// they only honour it when it names the same organizer as the invite.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer: { name: string; email: string };
+  attendee?: { name: string; email: string };
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  sequence?: number; // bump on every change so calendars replace the previous version
+}
+
+function formatInstant(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function quoteParam(value: string) {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space, never inside a character
+function fold(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function icsMethod(event: Pick<CalendarEvent, 'status'>) {
+  return event.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST';
+}
+
+export function buildIcs(event: CalendarEvent, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//GlowSchedule//Agendamentos//PT-BR',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${icsMethod(event)}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatInstant(now)}`,
+    `DTSTART:${formatInstant(event.start)}`,
+    `DTEND:${formatInstant(event.end)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  lines.push(`ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`);
+  if (event.attendee) lines.push(`ATTENDEE;CN=${quoteParam(event.attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${event.attendee.email}`);
+  lines.push(`STATUS:${event.status}`, 'END:VEVENT', 'END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,24 @@
+// WhatsApp and SMS messages to clients who opted in on their profile. Sent by the providers in
+// server/messaging.ts; phone numbers live in profile_contacts in E.164 (+5511987654321).
+
+export type MessageChannel = 'whatsapp' | 'sms';
+
+export const MESSAGE_CHANNELS: Record<MessageChannel, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+// Accepts Brazilian numbers with or without country code and formatting; null when invalid
+export function normalizePhone(input: string): string | null {
+  let digits = input.replace(/\D/g, '');
+  if (input.trim().startsWith('+')) return digits.length >= 10 && digits.length <= 15 ? `+${digits}` : null;
+  digits = digits.replace(/^0+/, '');
+  if (digits.length === 10 || digits.length === 11) digits = `55${digits}`;
+  if (!digits.startsWith('55') || (digits.length !== 12 && digits.length !== 13)) return null;
+  return `+${digits}`;
+}
+
+export function formatPhone(phone: string): string {
+  const match = phone.match(/^\+55(\d{2})(\d{4,5})(\d{4})$/);
+  return match ? `(${match[1]}) ${match[2]}-${match[3]}` : phone;
+}
@@ -0,0 +1,40 @@
+import { supabase } from './supabase';
+
+export const INBOX_LIMIT = 50;
+
+// Latest notifications not archived, plus the unread count across all of them
+export async function fetchInbox(userId: string) {
+  const [list, unread] = await Promise.all([
+    supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .is('archived_at', null)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT),
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('archived_at', null)
+      .is('read_at', null),
+  ]);
+  return { data: list.data || [], unread: unread.count || 0, error: list.error || unread.error };
+}
+
+// Only read_at and archived_at can be changed by the user; the rest is written by the server
+export function markAsRead(ids: string[]) {
+  return supabase.from('notifications').update({ read_at: new Date().toISOString() }).in('id', ids).is('read_at', null);
+}
+
+export function markAllAsRead(userId: string) {
+  return supabase.from('notifications').update({ read_at: new Date().toISOString() }).eq('user_id', userId).is('read_at', null);
+}
+
+export function archiveNotifications(ids: string[]) {
+  return supabase.from('notifications').update({ archived_at: new Date().toISOString() }).in('id', ids);
+}
+
+export function archiveAll(userId: string) {
+  return supabase.from('notifications').update({ archived_at: new Date().toISOString() }).eq('user_id', userId).is('archived_at', null);
+}
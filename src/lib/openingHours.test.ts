@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDayRanges, normalizeOpeningHours, validateDayRanges, validateOpeningHours } from './openingHours';
+
+test('legacy strings become typed ranges', () => {
+  assert.deepEqual(normalizeOpeningHours({
+    Segunda: '14:00 - 19:00, 09:00 - 12:00',
+    Domingo: 'Fechado',
+    Feriado: '09:00 - 12:00',
+  }), {
+    Segunda: [{ start: '09:00', end: '12:00' }, { start: '14:00', end: '19:00' }],
+    Domingo: [],
+  });
+});
+
+test('typed ranges are kept and broken ones dropped', () => {
+  assert.deepEqual(normalizeOpeningHours({
+    Terça: [{ start: '9:00', end: '12:00' }, { start: '18:00', end: '10:00' }, { start: 'x' }],
+  }), { Terça: [{ start: '09:00', end: '12:00' }] });
+  assert.deepEqual(normalizeOpeningHours(null), {});
+});
+
+test('validateDayRanges rejects inverted and overlapping ranges', () => {
+  assert.equal(validateDayRanges([{ start: '09:00', end: '12:00' }, { start: '12:00', end: '18:00' }]), null);
+  assert.equal(validateDayRanges([{ start: '12:00', end: '09:00' }]), 'Cada faixa precisa de início antes do fim.');
+  assert.equal(validateDayRanges([{ start: '11:00', end: '14:00' }, { start: '09:00', end: '12:00' }]),
+    'As faixas de horário não podem se sobrepor.');
+  assert.deepEqual(Object.keys(validateOpeningHours({ Segunda: [], Terça: [{ start: '12:00', end: '09:00' }] })), ['Terça']);
+});
+
+test('formatDayRanges lists the ranges or says closed', () => {
+  assert.equal(formatDayRanges([{ start: '09:00', end: '12:00' }, { start: '14:00', end: '19:00' }]), '09:00 - 12:00 / 14:00 - 19:00');
+  assert.equal(formatDayRanges([]), 'Fechado');
+  assert.equal(formatDayRanges(undefined), 'Fechado');
+});
@@ -0,0 +1,76 @@
+// Typed opening hours: every weekday holds a list of HH:mm intervals,
+// so split shifts (09:00–12:00 and 14:00–19:00) can be expressed.
+
+import { OpeningHours, WorkingHours } from '../types';
+import { WEEKDAYS, formatTime, parseTime, toInterval } from './availability';
+
+// Monday-first order used by the editors and public pages
+export const WEEK_ORDER = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+export const DEFAULT_OPENING_HOURS: OpeningHours = Object.fromEntries(
+  WEEK_ORDER.map(day => [day, day === 'Domingo' ? [] : [{ start: '09:00', end: '19:00' }]])
+);
+
+function normalizeTime(value: string): string | null {
+  const minutes = parseTime(value);
+  if (minutes === null) return null;
+  return formatTime(minutes);
+}
+
+// Accepts both the typed structure and the legacy "09:00 - 19:00" / "Fechado" strings
+export function normalizeOpeningHours(raw: unknown): OpeningHours {
+  const hours: OpeningHours = {};
+  if (!raw || typeof raw !== 'object') return hours;
+
+  for (const [day, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!WEEKDAYS.includes(day)) continue;
+
+    const ranges: WorkingHours[] = [];
+    const candidates = Array.isArray(value)
+      ? value
+      : typeof value === 'string'
+        ? value.split(/[,;]/).map(part => {
+            const [start, end] = part.split('-');
+            return { start, end };
+          })
+        : [];
+
+    for (const candidate of candidates) {
+      if (!candidate || typeof candidate.start !== 'string' || typeof candidate.end !== 'string') continue;
+      const start = normalizeTime(candidate.start);
+      const end = normalizeTime(candidate.end);
+      if (start && end && toInterval(start, end)) ranges.push({ start, end });
+    }
+    hours[day] = ranges.sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  return hours;
+}
+
+// Returns the first problem found in a day's intervals, or null when valid
+export function validateDayRanges(ranges: WorkingHours[]): string | null {
+  const intervals = [];
+  for (const range of ranges) {
+    const interval = toInterval(range.start, range.end);
+    if (!interval) return 'Cada faixa precisa de início antes do fim.';
+    intervals.push(interval);
+  }
+  intervals.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < intervals.length; i++) {
+    if (intervals[i].start < intervals[i - 1].end) return 'As faixas de horário não podem se sobrepor.';
+  }
+  return null;
+}
+
+export function validateOpeningHours(hours: OpeningHours): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const [day, ranges] of Object.entries(hours)) {
+    const problem = validateDayRanges(ranges);
+    if (problem) errors[day] = problem;
+  }
+  return errors;
+}
+
+export function formatDayRanges(ranges: WorkingHours[] | undefined): string {
+  return ranges && ranges.length > 0 ? ranges.map(r => `${r.start} - ${r.end}`).join(' / ') : 'Fechado';
+}
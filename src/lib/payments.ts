@@ -0,0 +1,62 @@
+// Online prepayment at booking time: services may require the full price or a deposit up front,
+// and clients above a salon's no-show limit may be asked to prepay everything. The server
+// charges the amount computed here; the browser only shows it.
+
+export type PrepaymentType = 'none' | 'full' | 'deposit';
+
+export const PREPAYMENT_TYPES: Record<PrepaymentType, string> = {
+  none: 'Pagamento no local',
+  full: 'Pagamento integral antecipado',
+  deposit: 'Sinal antecipado',
+};
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'expired' | 'refunded' | 'partially_refunded';
+
+// null when paid at the salon; the last three are set once a cancelled visit is settled
+export type PrepaymentStatus = 'awaiting' | 'paid' | 'refunded' | 'partially_refunded' | 'forfeited';
+
+// How long an unpaid booking holds its slot before it is released
+export const PAYMENT_HOLD_MINUTES = 30;
+
+export interface PrepaymentService {
+  price: number;
+  prepayment_type?: PrepaymentType | null;
+  deposit_percent?: number | null;
+}
+
+export interface Prepayment {
+  amount: number;
+  kind: 'full' | 'deposit';
+}
+
+// null when nothing is due before the visit
+export function prepaymentFor(services: PrepaymentService[], requireFull = false): Prepayment | null {
+  let amount = 0;
+  let full = true;
+  for (const service of services) {
+    const price = Number(service.price) || 0;
+    if (requireFull || service.prepayment_type === 'full') {
+      amount += price;
+    } else if (service.prepayment_type === 'deposit' && service.deposit_percent) {
+      amount += price * service.deposit_percent / 100;
+      full = false;
+    } else {
+      full = false;
+    }
+  }
+  amount = Math.round(amount * 100) / 100;
+  if (amount <= 0) return null;
+  return { amount, kind: full ? 'full' : 'deposit' };
+}
+
+export function formatBRL(amount: number): string {
+  return amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
+
+export function prepaymentMessage(prepayment: Prepayment | null, total: number): string {
+  if (!prepayment) return 'O pagamento será realizado diretamente no estabelecimento.';
+  if (prepayment.kind === 'full') {
+    return `O pagamento de ${formatBRL(prepayment.amount)} é feito online para confirmar o horário.`;
+  }
+  return `Um sinal de ${formatBRL(prepayment.amount)} é pago online para confirmar o horário; os ${formatBRL(Math.round((total - prepayment.amount) * 100) / 100)} restantes, no estabelecimento.`;
+}
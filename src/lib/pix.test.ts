@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc16, normalizePixKey, parseEmv, pixKeyTypeOf, pixPayload } from './pix';
+
+// Static BR Code from the Banco Central "Manual de Padrões para Iniciação do Pix"
+const BCB_SAMPLE = '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+test('crc16 is CRC16-CCITT-FALSE', () => {
+  assert.equal(crc16('123456789'), '29B1');
+  assert.equal(crc16(BCB_SAMPLE.slice(0, -4)), '1D3D');
+});
+
+test('pixPayload reproduces the BCB sample', () => {
+  assert.equal(pixPayload({
+    key: '123e4567-e12b-12d1-a456-426655440000',
+    merchantName: 'Fulano de Tal',
+    merchantCity: 'BRASILIA',
+  }), BCB_SAMPLE);
+});
+
+test('parseEmv reads the BCB sample and rejects a wrong CRC', () => {
+  const fields = parseEmv(BCB_SAMPLE);
+  assert.ok(fields);
+  assert.equal(fields['00'], '01');
+  assert.equal(fields['58'], 'BR');
+  assert.equal(fields['59'], 'Fulano de Tal');
+  assert.equal(fields['63'], '1D3D');
+  assert.equal(parseEmv(BCB_SAMPLE.slice(0, -4) + '0000'), null);
+});
+
+test('a charge round-trips through parseEmv', () => {
+  const payload = pixPayload({
+    key: '123.456.789-09',
+    merchantName: 'Salão Beleza Pura Estética Avançada',
+    merchantCity: 'São Paulo',
+    amount: 99.9,
+    txid: '4f1c2b7e-93aa-4c1e-bb21-6d0f4f2a9c10',
+    description: 'Sinal - Corte + Escova',
+  });
+  const fields = parseEmv(payload);
+  assert.ok(fields);
+  assert.equal(fields['01'], '12');
+  assert.equal(fields['54'], '99.90');
+  assert.equal(fields['59'], 'Salao Beleza Pura Estetic');
+  assert.equal(fields['60'], 'Sao Paulo');
+  assert.equal(fields['62'], '0525' + '4f1c2b7e93aa4c1ebb216d0f4');
+
+  const account = parseEmv(fields['26'] + '6304' + crc16(fields['26'] + '6304'));
+  assert.ok(account);
+  assert.equal(account['00'], 'br.gov.bcb.pix');
+  assert.equal(account['01'], '12345678909');
+  assert.equal(account['02'], 'Sinal - Corte + Escova');
+});
+
+test('pixKeyTypeOf and normalizePixKey recognise each kind of key', () => {
+  assert.equal(pixKeyTypeOf('123.456.789-09'), 'cpf');
+  assert.equal(pixKeyTypeOf('12.345.678/0001-95'), 'cnpj');
+  assert.equal(pixKeyTypeOf('+55 (11) 98765-4321'), 'phone');
+  assert.equal(pixKeyTypeOf('Contato@Salao.com.br'), 'email');
+  assert.equal(pixKeyTypeOf('123e4567-e12b-12d1-a456-426655440000'), 'random');
+  assert.equal(pixKeyTypeOf('11987654321'), 'cpf');
+  assert.equal(pixKeyTypeOf('not a key'), null);
+  assert.equal(normalizePixKey('+55 (11) 98765-4321'), '+5511987654321');
+  assert.equal(normalizePixKey('Contato@Salao.com.br'), 'contato@salao.com.br');
+});
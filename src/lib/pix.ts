@@ -0,0 +1,116 @@
+// PIX "copia e cola" / QR payloads (BR Code): EMV-MPM tag-length-value fields as the Banco Central
+// specifies them, closed by a CRC16. Pure, so the server, the booking screen and the register all
+// build the same payload for the same charge.
+
+export type PixKeyType = 'cpf' | 'cnpj' | 'phone' | 'email' | 'random';
+
+export const PIX_KEY_TYPES: Record<PixKeyType, string> = {
+  cpf: 'CPF',
+  cnpj: 'CNPJ',
+  phone: 'Celular',
+  email: 'E-mail',
+  random: 'Chave aleatória',
+};
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+// null when the text is not a PIX key
+export function pixKeyTypeOf(key: string): PixKeyType | null {
+  const value = key.trim();
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return 'random';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) && value.length <= 77) return 'email';
+  if (/^\+55\d{10,11}$/.test(value.replace(/[\s()-]/g, ''))) return 'phone';
+  if (/^\d{3}\.?\d{3}\.?\d{3}-?\d{2}$/.test(value)) return 'cpf';
+  if (/^\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}$/.test(value)) return 'cnpj';
+  return null;
+}
+
+// The key as it goes into the payload: documents without punctuation, phones as +55DDDNUMBER
+export function normalizePixKey(key: string): string {
+  const value = key.trim();
+  switch (pixKeyTypeOf(value)) {
+    case 'cpf':
+    case 'cnpj':
+      return digits(value);
+    case 'phone':
+      return `+${digits(value)}`;
+    case 'email':
+    case 'random':
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+}
+
+// CRC16-CCITT-FALSE (polynomial 0x1021, initial 0xFFFF), as 4 uppercase hex digits
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(payload)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function field(id: string, value: string): string {
+  return `${id}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+// Names and cities go without accents and within the sizes banks accept
+function plain(text: string, max: number): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '').trim().slice(0, max);
+}
+
+// Transaction ids are up to 25 letters and digits; the charge is found again by it
+export function pixTxid(id: string): string {
+  return id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 25);
+}
+
+export interface PixPayloadInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number | null; // BRL; left open for the payer to fill in when missing
+  txid?: string | null;
+  description?: string | null;
+}
+
+export function pixPayload(input: PixPayloadInput): string {
+  const key = normalizePixKey(input.key);
+  // Field 26 holds at most 99 characters: GUI, key and description with their headers
+  const description = input.description ? plain(input.description, Math.max(0, 99 - 26 - key.length)) : '';
+  const account = field('00', 'br.gov.bcb.pix') + field('01', key) + (description ? field('02', description) : '');
+  const txid = input.txid ? pixTxid(input.txid) : '';
+
+  const payload = [
+    field('00', '01'),
+    txid ? field('01', '12') : '', // single use when it carries a transaction id
+    field('26', account),
+    field('52', '0000'),
+    field('53', '986'), // BRL
+    input.amount ? field('54', input.amount.toFixed(2)) : '',
+    field('58', 'BR'),
+    field('59', plain(input.merchantName, 25) || 'N'),
+    field('60', plain(input.merchantCity, 15) || 'BRASIL'),
+    field('62', field('05', txid || '***')),
+    '6304',
+  ].join('');
+  return payload + crc16(payload);
+}
+
+// Top-level fields of a payload; null when it is malformed or its CRC does not match
+export function parseEmv(payload: string): Record<string, string> | null {
+  if (payload.length < 8 || crc16(payload.slice(0, -4)) !== payload.slice(-4).toUpperCase()) return null;
+  const fields: Record<string, string> = {};
+  let position = 0;
+  while (position < payload.length) {
+    const id = payload.slice(position, position + 2);
+    const length = Number(payload.slice(position + 2, position + 4));
+    if (!/^\d{2}$/.test(id) || Number.isNaN(length)) return null;
+    fields[id] = payload.slice(position + 4, position + 4 + length);
+    position += 4 + length;
+  }
+  return fields;
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BOOKING_POLICY, changeBlockedReason, formatDuration, policyMessage, policyOf } from './policy';
+
+const now = new Date('2030-01-07T12:00:00.000Z');
+const policy = policyOf({ cancel_notice_hours: 24, min_lead_minutes: 120, booking_horizon_days: 30 });
+
+test('policyOf fills missing settings with the defaults', () => {
+  assert.deepEqual(policyOf(null), DEFAULT_BOOKING_POLICY);
+  assert.deepEqual(policyOf({ cancel_notice_hours: 2 }), { ...DEFAULT_BOOKING_POLICY, cancelNoticeHours: 2 });
+});
+
+test('formatDuration picks the largest whole unit', () => {
+  assert.equal(formatDuration(30), '30 minutos');
+  assert.equal(formatDuration(60), '1 hora');
+  assert.equal(formatDuration(180), '3 horas');
+  assert.equal(formatDuration(1440), '1 dia');
+  assert.equal(formatDuration(2880), '2 dias');
+});
+
+test('changes are blocked inside the notice window', () => {
+  assert.equal(changeBlockedReason(policy, { start_time: '2030-01-08T12:00:00.000Z', status: 'confirmed' }, now), null);
+  assert.equal(changeBlockedReason(policy, { start_time: '2030-01-08T11:59:00.000Z', status: 'confirmed' }, now),
+    'O estabelecimento só aceita cancelamentos e remarcações com 1 dia de antecedência.');
+});
+
+test('past appointments are locked unless still pending', () => {
+  const past = '2030-01-07T11:00:00.000Z';
+  assert.equal(changeBlockedReason(policy, { start_time: past, status: 'confirmed' }, now), 'Este horário já passou.');
+  assert.equal(changeBlockedReason(policy, { start_time: past, status: 'pending' }, now), null);
+});
+
+test('policyMessage explains lead time and horizon only', () => {
+  assert.equal(policyMessage('too_soon', policy), 'Os agendamentos precisam ser feitos com pelo menos 2 horas de antecedência.');
+  assert.equal(policyMessage('too_far', policy), 'A agenda deste estabelecimento está aberta apenas para os próximos 30 dias.');
+  assert.equal(policyMessage('busy', policy), null);
+  assert.equal(policyMessage(undefined, policy), null);
+});
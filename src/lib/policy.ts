@@ -0,0 +1,59 @@
+// Salon booking policy: how far ahead clients may book and how late they may cancel or reschedule.
+// Shared by the API server and the browser so both explain a blocked action the same way.
+
+import { Salon } from '../types';
+import { SlotUnavailableReason } from './availability';
+
+export interface BookingPolicy {
+  cancelNoticeHours: number; // minimum notice to cancel or reschedule
+  minLeadMinutes: number; // minimum notice for a new booking
+  bookingHorizonDays: number; // how many days after today the agenda is open
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  cancelNoticeHours: 0,
+  minLeadMinutes: 0,
+  bookingHorizonDays: 7,
+};
+
+export function policyOf(
+  salon?: Partial<Pick<Salon, 'cancel_notice_hours' | 'min_lead_minutes' | 'booking_horizon_days'>> | null
+): BookingPolicy {
+  return {
+    cancelNoticeHours: salon?.cancel_notice_hours ?? DEFAULT_BOOKING_POLICY.cancelNoticeHours,
+    minLeadMinutes: salon?.min_lead_minutes ?? DEFAULT_BOOKING_POLICY.minLeadMinutes,
+    bookingHorizonDays: salon?.booking_horizon_days ?? DEFAULT_BOOKING_POLICY.bookingHorizonDays,
+  };
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes % 1440 === 0) return minutes === 1440 ? '1 dia' : `${minutes / 1440} dias`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hora' : `${minutes / 60} horas`;
+  return `${minutes} minutos`;
+}
+
+// Why the client may not cancel or reschedule this appointment now, or null when allowed
+export function changeBlockedReason(
+  policy: BookingPolicy,
+  apt: { start_time: string; status: string },
+  now = new Date()
+): string | null {
+  const start = Date.parse(apt.start_time);
+  // Requests the salon never confirmed can always be withdrawn once they expire
+  if (start <= now.getTime()) return apt.status === 'pending' ? null : 'Este horário já passou.';
+  if (start - now.getTime() < policy.cancelNoticeHours * 3600000) {
+    return `O estabelecimento só aceita cancelamentos e remarcações com ${formatDuration(policy.cancelNoticeHours * 60)} de antecedência.`;
+  }
+  return null;
+}
+
+// Explains the policy side of an unavailable slot; null for reasons unrelated to the policy
+export function policyMessage(reason: SlotUnavailableReason | undefined, policy: BookingPolicy): string | null {
+  if (reason === 'too_soon') {
+    return `Os agendamentos precisam ser feitos com pelo menos ${formatDuration(policy.minLeadMinutes)} de antecedência.`;
+  }
+  if (reason === 'too_far') {
+    return `A agenda deste estabelecimento está aberta apenas para os próximos ${policy.bookingHorizonDays} dias.`;
+  }
+  return null;
+}
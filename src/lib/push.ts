@@ -0,0 +1,43 @@
+import { apiFetch } from './api';
+
+// VAPID keys travel base64url-encoded; PushManager wants the raw bytes
+function decodeKey(key: string): Uint8Array {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function pushRegistration() {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return null;
+  // Only the production build registers the service worker
+  return (await navigator.serviceWorker.getRegistration()) || null;
+}
+
+// Subscribes this device (or refreshes its owner) so reminders arrive with the app closed.
+// Resolves to false when the browser, the build or the server cannot do Web Push.
+export async function enablePush(): Promise<boolean> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return false;
+  const registration = await pushRegistration();
+  if (!registration) return false;
+
+  const { public_key } = await apiFetch<{ public_key: string | null }>('/api/push/public-key');
+  if (!public_key) return false;
+
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeKey(public_key) });
+  await apiFetch('/api/push/subscriptions', {
+    method: 'POST',
+    body: JSON.stringify({ subscription: subscription.toJSON() }),
+  });
+  return true;
+}
+
+export async function disablePush() {
+  const registration = await pushRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+  await apiFetch('/api/push/subscriptions', {
+    method: 'DELETE',
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
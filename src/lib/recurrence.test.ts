@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_OCCURRENCES, occurrenceDates, validateRule } from './recurrence';
+
+test('weekly and biweekly series step by 7 and 14 days', () => {
+  assert.deepEqual(occurrenceDates('2030-01-28', { frequency: 'weekly', count: 3 }), ['2030-01-28', '2030-02-04', '2030-02-11']);
+  assert.deepEqual(occurrenceDates('2030-12-23', { frequency: 'biweekly', count: 3 }), ['2030-12-23', '2031-01-06', '2031-01-20']);
+});
+
+test('monthly series fall back to the last day of shorter months', () => {
+  assert.deepEqual(occurrenceDates('2030-01-31', { frequency: 'monthly', count: 4 }),
+    ['2030-01-31', '2030-02-28', '2030-03-31', '2030-04-30']);
+});
+
+test('until stops the series and the cap limits open-ended ones', () => {
+  assert.deepEqual(occurrenceDates('2030-01-07', { frequency: 'weekly', until: '2030-01-21' }),
+    ['2030-01-07', '2030-01-14', '2030-01-21']);
+  assert.equal(occurrenceDates('2030-01-07', { frequency: 'weekly', until: '2040-01-01' }).length, MAX_OCCURRENCES);
+});
+
+test('validateRule requires a bounded series', () => {
+  assert.equal(validateRule({ frequency: 'monthly', count: 2 }), null);
+  assert.equal(validateRule({ frequency: 'weekly', until: '2030-03-01' }), null);
+  assert.equal(validateRule({ frequency: 'weekly' }), 'Informe o número de repetições ou a data final.');
+  assert.ok(validateRule({ frequency: 'weekly', count: MAX_OCCURRENCES + 1 }));
+  assert.equal(validateRule({ frequency: 'weekly', until: '01/03/2030' }), 'Data final inválida.');
+  assert.equal(validateRule({ frequency: 'daily' as never, count: 3 }), 'Frequência inválida.');
+});
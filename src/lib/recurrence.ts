@@ -0,0 +1,60 @@
+// Recurring appointment rules. Occurrences are expanded as salon-local dates (yyyy-MM-dd)
+// and keep the time of day of the first one.
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export const RECURRENCE_FREQUENCIES: Record<RecurrenceFrequency, string> = {
+  weekly: 'Toda semana',
+  biweekly: 'A cada 2 semanas',
+  monthly: 'Todo mês',
+};
+
+export const MAX_OCCURRENCES = 26;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number | null; // total occurrences, including the first
+  until?: string | null; // yyyy-MM-dd, last possible date
+}
+
+function toDate(date: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function fromDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function validateRule(rule: RecurrenceRule): string | null {
+  if (!RECURRENCE_FREQUENCIES[rule.frequency]) return 'Frequência inválida.';
+  if (!rule.count && !rule.until) return 'Informe o número de repetições ou a data final.';
+  if (rule.count && (rule.count < 2 || rule.count > MAX_OCCURRENCES)) {
+    return `A série deve ter entre 2 e ${MAX_OCCURRENCES} horários.`;
+  }
+  if (rule.until && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) return 'Data final inválida.';
+  return null;
+}
+
+// Monthly series keep the day of the month, falling back to the last day of shorter months
+export function occurrenceDates(firstDate: string, rule: RecurrenceRule): string[] {
+  const first = toDate(firstDate);
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let i = 0; dates.length < limit; i++) {
+    let next: Date;
+    if (rule.frequency === 'monthly') {
+      const month = first.getUTCMonth() + i;
+      const lastDay = new Date(Date.UTC(first.getUTCFullYear(), month + 1, 0)).getUTCDate();
+      next = new Date(Date.UTC(first.getUTCFullYear(), month, Math.min(first.getUTCDate(), lastDay)));
+    } else {
+      next = new Date(first.getTime() + i * (rule.frequency === 'weekly' ? 7 : 14) * 86400000);
+    }
+    const date = fromDate(next);
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
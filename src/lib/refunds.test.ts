@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_REFUND_RULES, refundRulesOf, settlementFor, settlementMessage } from './refunds';
+import { formatBRL } from './payments';
+
+const deposit = { amount: 50, kind: 'deposit' as const };
+const full = { amount: 120, kind: 'full' as const };
+const late = { byClient: true, late: true };
+
+test('refundRulesOf fills missing settings with the defaults', () => {
+  assert.deepEqual(refundRulesOf(null), DEFAULT_REFUND_RULES);
+  assert.deepEqual(refundRulesOf({ late_cancel_policy: 'fee', cancellation_fee_percent: 20 }),
+    { lateCancelPolicy: 'fee', cancellationFeePercent: 20 });
+});
+
+test('timely and salon cancellations are refunded in full', () => {
+  const rules = { lateCancelPolicy: 'forfeit' as const, cancellationFeePercent: 20 };
+  const whole = { refund: 50, retained: 0, retainedAs: null };
+  assert.deepEqual(settlementFor(deposit, { byClient: true, late: false }, rules), whole);
+  assert.deepEqual(settlementFor(deposit, { byClient: false, late: true }, rules), whole);
+  assert.deepEqual(settlementFor(deposit, late, { lateCancelPolicy: 'refund', cancellationFeePercent: 20 }), whole);
+});
+
+test('late cancellations keep the fee', () => {
+  const rules = { lateCancelPolicy: 'fee' as const, cancellationFeePercent: 15 };
+  assert.deepEqual(settlementFor({ amount: 99.99, kind: 'full' }, late, rules), { refund: 84.99, retained: 15, retainedAs: 'cancellation_fee' });
+  assert.deepEqual(settlementFor(deposit, late, { ...rules, cancellationFeePercent: 0 }), { refund: 50, retained: 0, retainedAs: null });
+  assert.deepEqual(settlementFor(deposit, late, { ...rules, cancellationFeePercent: 150 }), { refund: 0, retained: 50, retainedAs: 'cancellation_fee' });
+});
+
+test('forfeit keeps deposits and charges the fee on full payments', () => {
+  const rules = { lateCancelPolicy: 'forfeit' as const, cancellationFeePercent: 10 };
+  assert.deepEqual(settlementFor(deposit, late, rules), { refund: 0, retained: 50, retainedAs: 'forfeit' });
+  assert.deepEqual(settlementFor(full, late, rules), { refund: 108, retained: 12, retainedAs: 'cancellation_fee' });
+});
+
+test('settlementMessage explains what the client gets back', () => {
+  assert.equal(settlementMessage({ refund: 0, retained: 50, retainedAs: 'forfeit' }), `O sinal de ${formatBRL(50)} não será devolvido.`);
+  assert.equal(settlementMessage({ refund: 108, retained: 12, retainedAs: 'cancellation_fee' }),
+    `Reembolso de ${formatBRL(108)} (taxa de cancelamento de ${formatBRL(12)}).`);
+  assert.equal(settlementMessage({ refund: 120, retained: 0, retainedAs: null }), `Reembolso de ${formatBRL(120)}.`);
+});
@@ -0,0 +1,85 @@
+// What happens to money paid online when a visit is cancelled. Clients cancelling with enough
+// notice, and every cancellation by the salon, get everything back; late client cancellations
+// follow the salon's rule. The server settles the money; the browser only explains it.
+
+import { Salon } from '../types';
+import { PrepaymentStatus, formatBRL } from './payments';
+
+export type LateCancelPolicy = 'refund' | 'fee' | 'forfeit';
+
+export const LATE_CANCEL_POLICIES: Record<LateCancelPolicy, { label: string; description: string }> = {
+  refund: {
+    label: 'Devolver tudo',
+    description: 'Pagamentos antecipados são sempre devolvidos integralmente.',
+  },
+  fee: {
+    label: 'Cobrar taxa de cancelamento',
+    description: 'Em cancelamentos em cima da hora, a taxa é descontada do valor devolvido.',
+  },
+  forfeit: {
+    label: 'Reter o sinal',
+    description: 'Em cancelamentos em cima da hora, o sinal não é devolvido; pagamentos integrais têm a taxa descontada.',
+  },
+};
+
+export interface RefundRules {
+  lateCancelPolicy: LateCancelPolicy;
+  cancellationFeePercent: number; // share of the amount paid kept on late cancellations
+}
+
+export const DEFAULT_REFUND_RULES: RefundRules = {
+  lateCancelPolicy: 'refund',
+  cancellationFeePercent: 0,
+};
+
+export function refundRulesOf(
+  salon?: Partial<Pick<Salon, 'late_cancel_policy' | 'cancellation_fee_percent'>> | null
+): RefundRules {
+  return {
+    lateCancelPolicy: salon?.late_cancel_policy ?? DEFAULT_REFUND_RULES.lateCancelPolicy,
+    cancellationFeePercent: salon?.cancellation_fee_percent ?? DEFAULT_REFUND_RULES.cancellationFeePercent,
+  };
+}
+
+export const SETTLED_PREPAYMENT_LABELS: Record<Exclude<PrepaymentStatus, 'awaiting' | 'paid'>, string> = {
+  refunded: 'Reembolsado',
+  partially_refunded: 'Reembolso parcial',
+  forfeited: 'Sinal retido',
+};
+
+export type LedgerEntryKind = 'refund' | 'cancellation_fee' | 'forfeit';
+
+export interface Settlement {
+  refund: number;
+  retained: number;
+  retainedAs: Exclude<LedgerEntryKind, 'refund'> | null;
+}
+
+// What the cancel route reports back for a visit paid online
+export interface CancellationSettlement extends Settlement {
+  refundIssued: boolean; // false while the refund is still being retried
+}
+
+export function settlementFor(
+  payment: { amount: number; kind: 'full' | 'deposit' },
+  cancellation: { byClient: boolean; late: boolean },
+  rules: RefundRules
+): Settlement {
+  const amount = Number(payment.amount);
+  if (!cancellation.byClient || !cancellation.late || rules.lateCancelPolicy === 'refund') {
+    return { refund: amount, retained: 0, retainedAs: null };
+  }
+  if (rules.lateCancelPolicy === 'forfeit' && payment.kind === 'deposit') {
+    return { refund: 0, retained: amount, retainedAs: 'forfeit' };
+  }
+  const fee = Math.min(amount, Math.round(amount * rules.cancellationFeePercent) / 100);
+  return { refund: Math.round((amount - fee) * 100) / 100, retained: fee, retainedAs: fee > 0 ? 'cancellation_fee' : null };
+}
+
+export function settlementMessage(settlement: Pick<Settlement, 'refund' | 'retained' | 'retainedAs'>): string {
+  if (settlement.retainedAs === 'forfeit') return `O sinal de ${formatBRL(settlement.retained)} não será devolvido.`;
+  if (settlement.retained > 0) {
+    return `Reembolso de ${formatBRL(settlement.refund)} (taxa de cancelamento de ${formatBRL(settlement.retained)}).`;
+  }
+  return `Reembolso de ${formatBRL(settlement.refund)}.`;
+}
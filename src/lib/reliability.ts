@@ -0,0 +1,80 @@
+// Client reliability at a salon: missed visits and last-minute cancellations, and the salon's
+// rule for clients above its no-show limit. Enforced by the API server, explained by the browser.
+
+import { Salon } from '../types';
+
+export type NoShowAction = 'require_confirmation' | 'require_prepayment' | 'block';
+
+export const NO_SHOW_ACTIONS: Record<NoShowAction, { label: string; description: string }> = {
+  require_confirmation: {
+    label: 'Exigir confirmação do salão',
+    description: 'O agendamento fica pendente até você confirmar manualmente.',
+  },
+  require_prepayment: {
+    label: 'Exigir pagamento antecipado',
+    description: 'O horário só é confirmado depois que o cliente pagar antecipadamente.',
+  },
+  block: {
+    label: 'Bloquear agendamentos online',
+    description: 'O cliente precisa falar com o salão para agendar.',
+  },
+};
+
+export interface ReliabilityRules {
+  noShowLimit: number | null; // null: no rule
+  noShowAction: NoShowAction;
+  lateCancelHours: number; // cancellations closer than this to the start count as late
+}
+
+export const DEFAULT_RELIABILITY_RULES: ReliabilityRules = {
+  noShowLimit: null,
+  noShowAction: 'require_confirmation',
+  lateCancelHours: 24,
+};
+
+export function rulesOf(
+  salon?: Partial<Pick<Salon, 'no_show_limit' | 'no_show_action' | 'late_cancel_hours'>> | null
+): ReliabilityRules {
+  return {
+    noShowLimit: salon?.no_show_limit ?? DEFAULT_RELIABILITY_RULES.noShowLimit,
+    noShowAction: salon?.no_show_action ?? DEFAULT_RELIABILITY_RULES.noShowAction,
+    lateCancelHours: salon?.late_cancel_hours ?? DEFAULT_RELIABILITY_RULES.lateCancelHours,
+  };
+}
+
+export interface ClientReliability {
+  completed: number;
+  noShows: number;
+  lateCancels: number;
+  score: number | null; // 0-100, null until the client has any history
+}
+
+// Late cancellations weigh half a no-show
+export function reliabilityScore(completed: number, noShows: number, lateCancels: number): number | null {
+  const total = completed + noShows + lateCancels;
+  if (total === 0) return null;
+  return Math.round((completed / (completed + noShows + lateCancels * 0.5)) * 100);
+}
+
+// A multi-service visit books one appointment per service but counts once
+export function visitCount(appointments: { group_id?: string | null; start_time: string }[]): number {
+  return new Set(appointments.map(apt => apt.group_id || apt.start_time)).size;
+}
+
+export function isLateCancel(startTime: string, cancelledAt: string, rules: ReliabilityRules): boolean {
+  const notice = Date.parse(startTime) - Date.parse(cancelledAt);
+  return notice < rules.lateCancelHours * 3600000;
+}
+
+// The action the salon applies to this client's new bookings, or null when none
+export function reliabilityAction(rules: ReliabilityRules, reliability: Pick<ClientReliability, 'noShows'>): NoShowAction | null {
+  if (rules.noShowLimit === null || reliability.noShows <= rules.noShowLimit) return null;
+  return rules.noShowAction;
+}
+
+export function reliabilityMessage(action: NoShowAction | null): string | null {
+  if (action === 'block') return 'Por causa de faltas anteriores, este estabelecimento pede que você entre em contato para agendar.';
+  if (action === 'require_prepayment') return 'Por causa de faltas anteriores, este horário só será confirmado após o pagamento antecipado.';
+  if (action === 'require_confirmation') return 'Por causa de faltas anteriores, o estabelecimento vai revisar e confirmar este agendamento.';
+  return null;
+}
@@ -0,0 +1,121 @@
+// Which appointment reminders are due and what they and status notices say. The server scheduler
+// in server/reminders.ts sends them; the browser only displays what was delivered.
+
+import { formatTime, toLocal } from './availability';
+
+export type ReminderKind = 'day' | '30min' | 'urgent' | 'expired';
+export type NoticeKind = 'received' | 'confirmed' | 'cancelled' | 'review_request';
+export type DeliveryKind = ReminderKind | NoticeKind;
+export type ReminderAudience = 'client' | 'salon';
+
+export const URGENT_WINDOW_MINUTES = 20;
+export const URGENT_REPEAT_SECONDS = 90;
+
+export interface ReminderAppointment {
+  start_time: string;
+  services?: { name: string } | null;
+  profiles?: { full_name: string } | null;
+}
+
+export interface DueReminder {
+  kind: ReminderKind;
+  key: string; // unique per appointment and recipient; urgent repeats get one key per interval
+}
+
+export function dueReminders(
+  apt: Pick<ReminderAppointment, 'start_time'>,
+  audience: ReminderAudience,
+  now: Date,
+  utcOffset: number
+): DueReminder[] {
+  const start = new Date(apt.start_time);
+  const seconds = (start.getTime() - now.getTime()) / 1000;
+  const due: DueReminder[] = [];
+
+  if (seconds > 0 && toLocal(start, utcOffset).date === toLocal(now, utcOffset).date) {
+    due.push({ kind: 'day', key: 'day' });
+  }
+  if (seconds <= 30 * 60 && seconds > URGENT_WINDOW_MINUTES * 60) {
+    due.push({ kind: '30min', key: '30min' });
+  }
+  if (audience === 'client' && seconds <= URGENT_WINDOW_MINUTES * 60 && seconds > 0) {
+    due.push({ kind: 'urgent', key: `urgent:${Math.floor(seconds / URGENT_REPEAT_SECONDS)}` });
+  }
+  if (audience === 'client' && seconds <= 0) {
+    due.push({ kind: 'expired', key: 'expired' });
+  }
+  return due;
+}
+
+export function reminderMessage(
+  kind: ReminderKind,
+  audience: ReminderAudience,
+  apt: ReminderAppointment,
+  now: Date,
+  utcOffset: number
+): { title: string; body: string } {
+  const service = apt.services?.name || 'serviço';
+  const time = formatTime(toLocal(new Date(apt.start_time), utcOffset).minutes);
+
+  switch (kind) {
+    case 'day':
+      return {
+        title: 'Lembrete de Agendamento',
+        body: audience === 'salon'
+          ? `Hoje: ${apt.profiles?.full_name || 'Cliente'} tem ${service} às ${time}.`
+          : `Você tem um agendamento hoje: ${service} às ${time}.`,
+      };
+    case '30min':
+      return {
+        title: 'Agendamento Próximo',
+        body: audience === 'salon'
+          ? `Em 30 min: ${apt.profiles?.full_name || 'Cliente'} - ${service}.`
+          : `Faltam 30 minutos para seu serviço: ${service}.`,
+      };
+    case 'urgent': {
+      const minutes = Math.max(1, Math.ceil((Date.parse(apt.start_time) - now.getTime()) / 60000));
+      return {
+        title: 'Agendamento Próximo',
+        body: `Urgente: Seu agendamento (${service}) começa em ${minutes} minutos!`,
+      };
+    }
+    case 'expired':
+      return {
+        title: 'Agendamento Expirado',
+        body: `Seu agendamento para ${service} expirou!`,
+      };
+  }
+}
+
+export function noticeMessage(
+  kind: NoticeKind,
+  audience: ReminderAudience,
+  apt: ReminderAppointment,
+  utcOffset: number
+): { title: string; body: string } {
+  const service = apt.services?.name || 'serviço';
+  const local = toLocal(new Date(apt.start_time), utcOffset);
+  const when = `${local.date.slice(8, 10)}/${local.date.slice(5, 7)} às ${formatTime(local.minutes)}`;
+
+  const client = apt.profiles?.full_name || 'Cliente';
+
+  if (kind === 'received') {
+    return audience === 'salon'
+      ? { title: 'Novo Pedido de Agendamento', body: `${client} pediu ${service} para ${when}. Confirme no painel.` }
+      : { title: 'Pedido Recebido', body: `Recebemos seu pedido de ${service} para ${when}. Avisaremos quando o salão confirmar.` };
+  }
+  if (kind === 'confirmed') {
+    return audience === 'salon'
+      ? { title: 'Novo Agendamento', body: `${client} agendou ${service} para ${when}.` }
+      : { title: 'Agendamento Confirmado', body: `Seu agendamento de ${service} em ${when} foi confirmado.` };
+  }
+  if (kind === 'review_request') {
+    return { title: 'Como foi seu atendimento?', body: `Conte para nós como foi ${service}. Sua avaliação ajuda outros clientes.` };
+  }
+  return {
+    title: 'Agendamento Cancelado',
+    body: audience === 'salon'
+      ? `${client} cancelou ${service} de ${when}.`
+      : `Seu agendamento de ${service} em ${when} foi cancelado.`,
+  };
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SaleInput, revenueLines, revenueOf, saleError, saleTotals } from './sales';
+
+function sale(overrides: Partial<SaleInput> = {}): SaleInput {
+  return {
+    items: [
+      { kind: 'service', description: 'Corte', quantity: 1, unit_price: 80 },
+      { kind: 'product', description: 'Pomada', quantity: 2, unit_price: 10.1 },
+    ],
+    discount: 10,
+    tip: 5,
+    payments: [{ method: 'pix', amount: 60 }, { method: 'cash', amount: 35.2 }],
+    ...overrides,
+  };
+}
+
+test('saleTotals adds the items, takes the discount and adds the tip', () => {
+  assert.deepEqual(saleTotals(sale()), { subtotal: 100.2, total: 95.2 });
+});
+
+test('saleError checks items, discount and payments', () => {
+  assert.equal(saleError(sale()), null);
+  assert.equal(saleError(sale({ items: [] })), 'Adicione ao menos um item');
+  assert.equal(saleError(sale({ items: [{ kind: 'service', description: ' ', quantity: 1, unit_price: 10 }] })),
+    'Confira a descrição, a quantidade e o valor dos itens');
+  assert.equal(saleError(sale({ tip: -1 })), 'Desconto e gorjeta não podem ser negativos');
+  assert.equal(saleError(sale({ discount: 200 })), 'O desconto não pode ser maior que o valor dos itens');
+  assert.equal(saleError(sale({ payments: [{ method: 'cheque' as never, amount: 95.2 }] })), 'Informe a forma e o valor de cada pagamento');
+  assert.equal(saleError(sale({ payments: [{ method: 'card', amount: 90 }] })), 'A soma dos pagamentos precisa ser igual ao total');
+});
+
+test('revenue spreads the discount over the items and leaves out the tip', () => {
+  const checkout = {
+    subtotal: 100, discount: 20, tip: 10, total: 90,
+    sale_items: [
+      { kind: 'service' as const, description: 'Corte', total: 75 },
+      { kind: 'product' as const, description: 'Pomada', total: 25 },
+    ],
+  };
+  const lines = revenueLines([
+    { id: 'a', group_id: 'visit', services: { name: 'Corte', price: 70 }, sales: [checkout] },
+    { id: 'b', group_id: 'visit', services: { name: 'Barba', price: 30 } }, // covered by the checkout
+    { id: 'c', services: { name: 'Escova', price: 45 } },
+  ]);
+  assert.deepEqual(lines, [{ name: 'Corte', amount: 60 }, { name: 'Produtos', amount: 20 }, { name: 'Escova', amount: 45 }]);
+});
+
+test('a checkout without items counts its total minus the tip', () => {
+  assert.equal(revenueOf([{ id: 'a', services: { name: 'Corte', price: 70 }, sales: { subtotal: 70, discount: 0, tip: 8, total: 78 } }]), 70);
+});
@@ -0,0 +1,115 @@
+// Point-of-sale checkout: what a visit actually cost once it was over. Discounts, extra products,
+// tips and split payments replace the list price in every revenue figure; visits completed
+// without a checkout still count at list price.
+
+import { Sale, SaleItem } from '../types';
+
+export type PaymentMethod = 'pix' | 'cash' | 'card' | 'online';
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  pix: 'PIX',
+  cash: 'Dinheiro',
+  card: 'Cartão',
+  online: 'Pago online', // prepayment taken at booking
+};
+
+export type SaleItemKind = 'service' | 'product';
+
+export interface SaleItemInput {
+  kind: SaleItemKind;
+  description: string;
+  service_id?: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface SalePaymentInput {
+  method: PaymentMethod;
+  amount: number;
+}
+
+export interface SaleInput {
+  items: SaleItemInput[];
+  discount: number;
+  tip: number;
+  payments: SalePaymentInput[];
+  notes?: string;
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+export function saleTotals(sale: Pick<SaleInput, 'items' | 'discount' | 'tip'>) {
+  const subtotal = cents(sale.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0));
+  const total = cents(subtotal - (sale.discount || 0) + (sale.tip || 0));
+  return { subtotal, total };
+}
+
+export function paidTotal(payments: SalePaymentInput[]) {
+  return cents(payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+// null when the checkout can be recorded
+export function saleError(sale: SaleInput): string | null {
+  if (!sale.items.length) return 'Adicione ao menos um item';
+  if (sale.items.some(item => !item.description?.trim() || !(item.quantity >= 1) || !(item.unit_price >= 0))) {
+    return 'Confira a descrição, a quantidade e o valor dos itens';
+  }
+  if (!(sale.discount >= 0) || !(sale.tip >= 0)) return 'Desconto e gorjeta não podem ser negativos';
+  const { subtotal, total } = saleTotals(sale);
+  if (sale.discount > subtotal) return 'O desconto não pode ser maior que o valor dos itens';
+  if (sale.payments.some(payment => !PAYMENT_METHODS[payment.method] || !(payment.amount > 0))) {
+    return 'Informe a forma e o valor de cada pagamento';
+  }
+  if (paidTotal(sale.payments) !== total) return 'A soma dos pagamentos precisa ser igual ao total';
+  return null;
+}
+
+type SaleRecord = Pick<Sale, 'subtotal' | 'discount' | 'tip' | 'total'> & {
+  sale_items?: Pick<SaleItem, 'kind' | 'description' | 'total'>[];
+};
+
+// The salon's share of a sale; tips go to the professional
+export function saleRevenue(sale: Pick<Sale, 'total' | 'tip'>) {
+  return cents(Number(sale.total) - Number(sale.tip));
+}
+
+interface RevenueAppointment {
+  id: string;
+  group_id?: string | null;
+  services?: { name?: string; price: number } | null;
+  sales?: SaleRecord | SaleRecord[] | null; // the visit's checkout, embedded on its first appointment
+}
+
+function saleOf(apt: RevenueAppointment): SaleRecord | null {
+  return (Array.isArray(apt.sales) ? apt.sales[0] : apt.sales) || null;
+}
+
+// Revenue lines of a set of appointments: each checkout once, and the list price of anything
+// not checked out. A visit's checkout covers all its services.
+export function revenueLines(appointments: RevenueAppointment[]): { name: string; amount: number }[] {
+  const soldVisits = new Set(appointments.filter(apt => saleOf(apt)).map(apt => apt.group_id || apt.id));
+  const lines: { name: string; amount: number }[] = [];
+
+  for (const apt of appointments) {
+    const sale = saleOf(apt);
+    if (!sale) {
+      if (!soldVisits.has(apt.group_id || apt.id)) lines.push({ name: apt.services?.name || 'Serviço', amount: Number(apt.services?.price || 0) });
+      continue;
+    }
+    if (!sale.sale_items?.length) {
+      lines.push({ name: apt.services?.name || 'Serviço', amount: saleRevenue(sale) });
+      continue;
+    }
+    // The discount is spread over the items in proportion to their value
+    const subtotal = Number(sale.subtotal);
+    const share = subtotal > 0 ? (subtotal - Number(sale.discount)) / subtotal : 0;
+    for (const item of sale.sale_items) {
+      lines.push({ name: item.kind === 'product' ? 'Produtos' : item.description, amount: cents(Number(item.total) * share) });
+    }
+  }
+  return lines;
+}
+
+export function revenueOf(appointments: RevenueAppointment[]) {
+  return cents(revenueLines(appointments).reduce((sum, line) => sum + line.amount, 0));
+}
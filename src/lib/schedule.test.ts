@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveWorkingIntervals, subtractIntervals, validateScheduleDay } from './schedule';
+import { ProfessionalException, ProfessionalSchedule } from '../types';
+
+const MONDAY = '2030-01-07';
+const schedule: ProfessionalSchedule = {
+  weekly: {
+    Segunda: { start: '09:00', end: '18:00', breaks: [{ start: '12:00', end: '13:00' }] },
+    Terça: null,
+  },
+};
+
+function exception(kind: ProfessionalException['kind'], extra: Partial<ProfessionalException> = {}): ProfessionalException {
+  return { id: kind, professional_id: 'ana', kind, start_date: '2030-01-06', end_date: '2030-01-08', ...extra };
+}
+
+test('subtractIntervals cuts breaks out of a shift', () => {
+  assert.deepEqual(subtractIntervals([{ start: 540, end: 1080 }], [{ start: 720, end: 780 }]),
+    [{ start: 540, end: 720 }, { start: 780, end: 1080 }]);
+  assert.deepEqual(subtractIntervals([{ start: 540, end: 600 }], [{ start: 600, end: 660 }]), [{ start: 540, end: 600 }]);
+  assert.deepEqual(subtractIntervals([{ start: 540, end: 600 }], [{ start: 500, end: 700 }]), []);
+});
+
+test('the weekly template gives the shift minus its breaks', () => {
+  assert.deepEqual(resolveWorkingIntervals(schedule, [], MONDAY), [{ start: 540, end: 720 }, { start: 780, end: 1080 }]);
+  assert.deepEqual(resolveWorkingIntervals(schedule, [], '2030-01-08'), []); // day off
+  assert.equal(resolveWorkingIntervals(schedule, [], '2030-01-09'), null); // follows the salon
+  assert.equal(resolveWorkingIntervals(null, [], MONDAY), null);
+});
+
+test('exceptions win over the weekly template', () => {
+  assert.deepEqual(resolveWorkingIntervals(schedule, [exception('vacation')], MONDAY), []);
+  assert.deepEqual(resolveWorkingIntervals(schedule, [exception('custom_hours', { start_time: '14:00', end_time: '16:00' })], MONDAY),
+    [{ start: 840, end: 960 }]);
+  assert.deepEqual(resolveWorkingIntervals(schedule, [exception('sick_leave', { start_date: '2030-01-08' })], MONDAY),
+    [{ start: 540, end: 720 }, { start: 780, end: 1080 }]);
+});
+
+test('validateScheduleDay keeps breaks inside the shift', () => {
+  assert.equal(validateScheduleDay('09:00', '18:00', [{ start: '12:00', end: '13:00' }]), null);
+  assert.ok(validateScheduleDay('18:00', '09:00', []));
+  assert.ok(validateScheduleDay('09:00', '18:00', [{ start: '08:00', end: '10:00' }]));
+  assert.ok(validateScheduleDay('09:00', '18:00', [{ start: '13:00', end: '12:00' }]));
+});
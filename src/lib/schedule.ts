@@ -0,0 +1,62 @@
+// Resolves a professional's working intervals for one day from the weekly
+// template and dated exceptions (vacations, sick leave, custom hours).
+
+import { ProfessionalException, ProfessionalExceptionKind, ProfessionalSchedule } from '../types';
+import { Interval, toInterval, weekdayOf } from './availability';
+
+export const EXCEPTION_KINDS: Record<ProfessionalExceptionKind, string> = {
+  vacation: 'Férias',
+  sick_leave: 'Atestado',
+  day_off: 'Folga',
+  custom_hours: 'Horário especial',
+};
+
+export function subtractIntervals(base: Interval[], cuts: Interval[]): Interval[] {
+  return cuts.reduce((remaining, cut) => remaining.flatMap(interval => {
+    if (cut.end <= interval.start || cut.start >= interval.end) return [interval];
+    const pieces: Interval[] = [];
+    if (cut.start > interval.start) pieces.push({ start: interval.start, end: cut.start });
+    if (cut.end < interval.end) pieces.push({ start: cut.end, end: interval.end });
+    return pieces;
+  }), base);
+}
+
+// Returns null when the professional simply follows the salon's opening hours
+export function resolveWorkingIntervals(
+  schedule: ProfessionalSchedule | null | undefined,
+  exceptions: ProfessionalException[],
+  date: string
+): Interval[] | null {
+  const applicable = exceptions.filter(ex => ex.start_date <= date && ex.end_date >= date);
+
+  if (applicable.some(ex => ex.kind !== 'custom_hours')) return [];
+
+  const custom = applicable.find(ex => ex.kind === 'custom_hours');
+  if (custom) {
+    const interval = toInterval(custom.start_time, custom.end_time);
+    return interval ? [interval] : [];
+  }
+
+  const weekday = weekdayOf(date);
+  if (!schedule?.weekly || !(weekday in schedule.weekly)) return null;
+
+  const day = schedule.weekly[weekday];
+  const shift = day ? toInterval(day.start, day.end) : null;
+  if (!shift) return [];
+
+  const breaks = (day?.breaks || [])
+    .map(b => toInterval(b.start, b.end))
+    .filter((b): b is Interval => b !== null);
+  return subtractIntervals([shift], breaks);
+}
+
+export function validateScheduleDay(start: string, end: string, breaks: { start: string; end: string }[]): string | null {
+  const shift = toInterval(start, end);
+  if (!shift) return 'O início do expediente deve ser antes do fim.';
+  for (const b of breaks) {
+    const interval = toInterval(b.start, b.end);
+    if (!interval) return 'Cada intervalo precisa de início antes do fim.';
+    if (interval.start < shift.start || interval.end > shift.end) return 'Os intervalos devem ficar dentro do expediente.';
+  }
+  return null;
+}
@@ -0,0 +1,31 @@
+// Appointment lifecycle. The database trigger in supabase_schema.sql enforces the same transitions,
+// so keep both in sync.
+
+import { AppointmentStatus } from '../types';
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: 'Pendente',
+  confirmed: 'Confirmado',
+  cancelled: 'Cancelado',
+  completed: 'Concluído',
+  no_show: 'Não compareceu',
+};
+
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled', 'no_show'],
+  cancelled: [],
+  completed: [],
+  no_show: [],
+};
+
+// A client's reschedule sends a confirmed appointment back to the salon for approval
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus, options: { rescheduling?: boolean } = {}): boolean {
+  if (from === to) return true;
+  if (options.rescheduling && from === 'confirmed' && to === 'pending') return true;
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function transitionError(from: AppointmentStatus, to: AppointmentStatus): string {
+  return `Não é possível passar um agendamento de "${STATUS_LABELS[from]}" para "${STATUS_LABELS[to]}".`;
+}
@@ -1,3 +1,13 @@
+import { AssignmentStrategy } from '../lib/assignment';
+import { RecurrenceFrequency } from '../lib/recurrence';
+import { NoShowAction } from '../lib/reliability';
+import { AutoConfirmMode } from '../lib/confirmation';
+import { MessageChannel } from '../lib/messaging';
+import { DeliveryKind } from '../lib/reminders';
+import { PaymentStatus, PrepaymentStatus, PrepaymentType } from '../lib/payments';
+import { LateCancelPolicy, LedgerEntryKind } from '../lib/refunds';
+import { PaymentMethod, SaleItemKind } from '../lib/sales';
+
 export type UserRole = 'admin' | 'client' | 'super_admin';
 
 export interface Profile {
@@ -6,6 +16,8 @@ export interface Profile {
   full_name: string;
   role: UserRole;
   avatar_url?: string;
+  message_channel?: MessageChannel | null; // null: no WhatsApp/SMS messages
+  message_opt_in_at?: string | null;
 }
 
 export interface Salon {
@@ -19,10 +31,39 @@ export interface Salon {
   longitude?: number;
   phone: string;
   image_url?: string;
-  opening_hours?: Record<string, string>;
+  opening_hours?: OpeningHours;
   differentiators?: string[];
   detailed_history?: string;
+  assignment_strategy?: AssignmentStrategy;
+  slot_interval?: number; // minutes between offered start times
+  buffer_before?: number; // minutes
+  buffer_after?: number;
+  cancel_notice_hours?: number;
+  min_lead_minutes?: number;
+  booking_horizon_days?: number;
+  no_show_limit?: number | null; // clients with more no-shows than this get no_show_action
+  no_show_action?: NoShowAction;
+  late_cancel_hours?: number;
+  late_cancel_policy?: LateCancelPolicy; // what happens to prepayments on late client cancellations
+  cancellation_fee_percent?: number;
+  auto_confirm?: AutoConfirmMode;
+  pending_expiry_hours?: number | null; // pending requests are cancelled after this long
+  pix_key?: string | null; // receives PIX prepayments and counter payments directly
   is_active: boolean;
+  billing_suspended_at?: string | null; // switched off because the subscription lapsed
+}
+
+// Weekday ('Segunda'...) to its opening intervals; an empty list means closed
+export type OpeningHours = Record<string, WorkingHours[]>;
+
+export interface SalonSpecialDate {
+  id: string;
+  salon_id: string;
+  date: string; // yyyy-MM-dd
+  kind: 'closed' | 'custom_hours';
+  start_time?: string | null; // only for custom_hours
+  end_time?: string | null;
+  description?: string;
 }
 
 export interface Service {
@@ -35,6 +76,8 @@ export interface Service {
   is_active: boolean;
   image_url?: string;
   category?: string;
+  prepayment_type?: PrepaymentType;
+  deposit_percent?: number | null; // share of the price charged up front when prepayment_type is 'deposit'
 }
 
 export interface Professional {
@@ -43,9 +86,39 @@ export interface Professional {
   name: string;
   specialty?: string;
   avatar_url?: string;
+  schedule?: ProfessionalSchedule | null; // null follows the salon's opening hours
   is_active: boolean;
 }
 
+export interface WorkingHours {
+  start: string; // HH:mm
+  end: string;
+}
+
+export interface ScheduleDay extends WorkingHours {
+  breaks: WorkingHours[];
+}
+
+export interface ProfessionalSchedule {
+  // Keyed by weekday ('Segunda'...); null is a day off, a missing day follows the salon
+  weekly: Record<string, ScheduleDay | null>;
+}
+
+export type ProfessionalExceptionKind = 'vacation' | 'sick_leave' | 'day_off' | 'custom_hours';
+
+export interface ProfessionalException {
+  id: string;
+  professional_id: string;
+  kind: ProfessionalExceptionKind;
+  start_date: string; // yyyy-MM-dd
+  end_date: string;
+  start_time?: string | null; // only for custom_hours
+  end_time?: string | null;
+  note?: string;
+}
+
+export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
+
 export interface Appointment {
   id: string;
   client_id: string;
@@ -53,13 +126,72 @@ export interface Appointment {
   service_id: string;
   professional_id?: string;
   start_time: string;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  end_time?: string;
+  status: AppointmentStatus;
   notes?: string;
+  group_id?: string | null; // shared by the services of one multi-service visit
+  rescheduled_at?: string | null;
+  series_id?: string | null; // occurrence of a recurring series
+  reliability_flag?: Exclude<NoShowAction, 'block'> | null; // booked by a client above the salon's no-show limit
+  prepayment_status?: PrepaymentStatus | null; // null when paid at the salon
+  created_at?: string;
+  sales?: Sale | null; // checkout of the visit, on its first appointment
   professional?: Professional;
   service?: Service;
   client?: Profile;
 }
 
+export type AppointmentEventType = 'created' | 'status_changed' | 'rescheduled';
+
+// Append-only audit trail written by the database on every insert, status change and move
+export interface AppointmentEvent {
+  id: string;
+  appointment_id: string;
+  event_type: AppointmentEventType;
+  from_status?: AppointmentStatus | null;
+  to_status?: AppointmentStatus | null;
+  actor_id?: string | null;
+  data?: { previous_start_time?: string; start_time?: string } | null;
+  created_at: string;
+  profiles?: { full_name: string } | null;
+}
+
+export interface AppointmentSeries {
+  id: string;
+  salon_id: string;
+  client_id: string;
+  service_id: string;
+  professional_id?: string | null;
+  frequency: RecurrenceFrequency;
+  start_time: string;
+  occurrences?: number | null;
+  until?: string | null;
+  status: 'active' | 'cancelled';
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'declined' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  salon_id: string;
+  client_id: string;
+  service_id: string;
+  professional_id?: string | null; // null means any professional
+  window_start: string;
+  window_end: string;
+  status: WaitlistStatus;
+  offered_start_time?: string | null;
+  offered_professional_id?: string | null;
+  offer_expires_at?: string | null;
+  appointment_id?: string | null;
+  created_at: string;
+  services?: Pick<Service, 'name' | 'duration'>;
+  professionals?: Pick<Professional, 'name'> | null;
+  profiles?: Pick<Profile, 'full_name'>;
+}
+
 export interface Review {
   id: string;
   client_id: string;
@@ -81,3 +213,92 @@ export interface FinancialItem {
   amount: number;
   created_at: string;
 }
+
+// Inbox entry written by the server's in-app channel; the bell lists the ones not archived
+export interface InboxNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  type: 'info' | 'success' | 'warning';
+  kind?: DeliveryKind | null;
+  appointment_id?: string | null;
+  read_at?: string | null;
+  archived_at?: string | null;
+  created_at: string;
+}
+
+// Online prepayment of a visit; written only by the server from the payment provider's webhooks
+export interface Payment {
+  id: string;
+  appointment_id: string;
+  group_id?: string | null;
+  salon_id: string;
+  client_id: string;
+  amount: number;
+  currency: string;
+  kind: 'full' | 'deposit';
+  status: PaymentStatus;
+  provider: string;
+  provider_session_id?: string | null; // checkout session, or the txid of a PIX charge
+  refunded_amount?: number;
+  retained_amount?: number; // cancellation fee or forfeited deposit
+  pix_payload?: string | null; // "copia e cola" of PIX charges
+  confirmed_by?: string | null; // salon owner who confirmed a PIX by hand
+  expires_at?: string | null;
+  paid_at?: string | null;
+  created_at: string;
+}
+
+// Money moved after a cancellation; one row per refund or retained amount, written only by the server
+export interface PaymentLedgerEntry {
+  id: string;
+  payment_id: string;
+  appointment_id: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed' | 'manual'; // manual: waiting for the salon to send a PIX back
+  provider_refund_id?: string | null;
+  idempotency_key: string;
+  reason?: string | null;
+  attempts: number;
+  completed_by?: string | null; // salon owner who confirmed a manual refund
+  created_at: string;
+  updated_at?: string;
+}
+
+// What a visit actually cost at the counter; written only by the server
+export interface Sale {
+  id: string;
+  salon_id: string;
+  appointment_id?: string | null; // first appointment of the visit
+  group_id?: string | null;
+  client_id?: string | null;
+  subtotal: number;
+  discount: number;
+  tip: number;
+  total: number; // subtotal - discount + tip
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  sale_items?: SaleItem[];
+  sale_payments?: SalePayment[];
+}
+
+export interface SaleItem {
+  id: string;
+  sale_id: string;
+  kind: SaleItemKind;
+  service_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+}
+
+export interface SalePayment {
+  id: string;
+  sale_id: string;
+  method: PaymentMethod;
+  amount: number;
+}
@@ -131,3 +131,846 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE PROCEDURE public.handle_new_user();
+
+-- 11. Proteção contra agendamentos sobrepostos (double-booking)
+-- end_time materializa o fim do atendimento para que o Postgres compare intervalos
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE;
+
+UPDATE appointments a
+SET end_time = a.start_time + s.duration * INTERVAL '1 minute'
+FROM services s
+WHERE s.id = a.service_id AND a.end_time IS NULL;
+
+-- Preenche end_time em inserts que não passam pelo servidor
+CREATE OR REPLACE FUNCTION public.set_appointment_end_time()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.end_time IS NULL OR (TG_OP = 'UPDATE' AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time) THEN
+    NEW.end_time := NEW.start_time + COALESCE(
+      (SELECT duration FROM services WHERE id = NEW.service_id), 60
+    ) * INTERVAL '1 minute';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_set_end_time
+  BEFORE INSERT OR UPDATE OF start_time, service_id ON appointments
+  FOR EACH ROW EXECUTE PROCEDURE public.set_appointment_end_time();
+
+ALTER TABLE appointments ALTER COLUMN end_time SET NOT NULL;
+
+-- Sobreposições que já existem impediriam a restrição: fica o agendamento mais antigo, os outros são cancelados
+UPDATE appointments a
+SET status = 'cancelled'
+WHERE a.status <> 'cancelled' AND a.professional_id IS NOT NULL AND EXISTS (
+  SELECT 1 FROM appointments b
+  WHERE b.professional_id = a.professional_id
+    AND b.status <> 'cancelled'
+    AND b.id <> a.id
+    AND tstzrange(b.start_time, b.end_time) && tstzrange(a.start_time, a.end_time)
+    AND (b.created_at, b.id) < (a.created_at, a.id)
+);
+
+-- Um profissional não pode ter dois agendamentos ativos no mesmo intervalo
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tstzrange(start_time, end_time) WITH &&
+  ) WHERE (status <> 'cancelled' AND professional_id IS NOT NULL);
+
+-- Agendar e remarcar passam só pelo servidor (POST /api/appointments), que confere sobreposição, expediente e status;
+-- escrever direto na tabela pularia essas regras
+DROP POLICY IF EXISTS "Clients can create appointments" ON appointments;
+DROP POLICY IF EXISTS "Clients can update own appointments" ON appointments;
+
+-- 12. Estratégia de atribuição para agendamentos com "Qualquer Profissional"
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS assignment_strategy TEXT
+  CHECK (assignment_strategy IN ('least_loaded', 'round_robin', 'skill_match'))
+  DEFAULT 'least_loaded';
+
+-- 13. Expediente por profissional (semana padrão, intervalos e ausências)
+-- schedule: {"weekly": {"Segunda": {"start": "09:00", "end": "18:00", "breaks": [{"start": "12:00", "end": "13:00"}]}, "Domingo": null}}
+ALTER TABLE professionals ADD COLUMN IF NOT EXISTS schedule JSONB;
+
+CREATE TABLE professional_exceptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  professional_id UUID REFERENCES professionals(id) ON DELETE CASCADE,
+  kind TEXT CHECK (kind IN ('vacation', 'sick_leave', 'day_off', 'custom_hours')) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CHECK (kind <> 'custom_hours' OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time))
+);
+
+ALTER TABLE professional_exceptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Professional exceptions are viewable by everyone" ON professional_exceptions FOR SELECT USING (true);
+CREATE POLICY "Admins can manage exceptions of their professionals" ON professional_exceptions FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM professionals
+    JOIN salons ON salons.id = professionals.salon_id
+    WHERE professionals.id = professional_exceptions.professional_id AND salons.owner_id = auth.uid()
+  )
+);
+
+-- 14. Feriados e horários especiais do salão (substituem opening_hours na data)
+CREATE TABLE salon_special_dates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  kind TEXT CHECK (kind IN ('closed', 'custom_hours')) NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (salon_id, date),
+  CHECK (kind <> 'custom_hours' OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time))
+);
+
+ALTER TABLE salon_special_dates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Special dates are viewable by everyone" ON salon_special_dates FOR SELECT USING (true);
+CREATE POLICY "Admins can manage special dates of their salons" ON salon_special_dates FOR ALL USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = salon_special_dates.salon_id AND salons.owner_id = auth.uid())
+);
+
+-- 15. Horário de funcionamento tipado: { "Segunda": [{ "start": "09:00", "end": "12:00" }, ...], "Domingo": [] }
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS opening_hours JSONB;
+
+-- Migra o formato antigo ("09:00 - 19:00" / "Fechado") para listas de faixas
+UPDATE salons SET opening_hours = (
+  SELECT jsonb_object_agg(
+    day,
+    CASE
+      WHEN jsonb_typeof(value) = 'array' THEN value
+      WHEN value #>> '{}' ~ '^\s*\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}\s*$' THEN jsonb_build_array(jsonb_build_object(
+        'start', lpad(trim(split_part(value #>> '{}', '-', 1)), 5, '0'),
+        'end', lpad(trim(split_part(value #>> '{}', '-', 2)), 5, '0')
+      ))
+      ELSE '[]'::jsonb
+    END
+  )
+  FROM jsonb_each(salons.opening_hours) AS entries(day, value)
+)
+WHERE opening_hours IS NOT NULL AND jsonb_typeof(opening_hours) = 'object';
+
+ALTER TABLE salons ADD CONSTRAINT salons_opening_hours_object
+  CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'object');
+
+-- 16. Granularidade da agenda e tempo de preparo/limpeza entre atendimentos
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS slot_interval INTEGER DEFAULT 30 CHECK (slot_interval > 0);
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS buffer_before INTEGER DEFAULT 0 CHECK (buffer_before >= 0);
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS buffer_after INTEGER DEFAULT 0 CHECK (buffer_after >= 0);
+
+-- 17. Visitas com vários serviços: agendamentos da mesma visita compartilham group_id
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS group_id UUID;
+CREATE INDEX IF NOT EXISTS appointments_group_id_idx ON appointments (group_id) WHERE group_id IS NOT NULL;
+
+-- 18. Remarcação pelo cliente: histórico de horários e troca atômica
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE appointment_reschedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE,
+  previous_start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  previous_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  rescheduled_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE appointment_reschedules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients and salon owners can view reschedule history" ON appointment_reschedules FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM appointments
+    JOIN salons ON salons.id = appointments.salon_id
+    WHERE appointments.id = appointment_reschedules.appointment_id
+      AND (appointments.client_id = auth.uid() OR salons.owner_id = auth.uid())
+  )
+);
+
+-- Os serviços de uma visita trocam de lugar entre si; a checagem de sobreposição fica para o fim da transação
+ALTER TABLE appointments DROP CONSTRAINT appointments_no_overlap;
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tstzrange(start_time, end_time) WITH &&
+  ) WHERE (status <> 'cancelled' AND professional_id IS NOT NULL)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+CREATE OR REPLACE FUNCTION public.reschedule_appointments(moves JSONB, actor UUID, new_status TEXT DEFAULT NULL)
+RETURNS SETOF appointments AS $$
+BEGIN
+  SET CONSTRAINTS appointments_no_overlap DEFERRED;
+
+  INSERT INTO appointment_reschedules (appointment_id, previous_start_time, previous_end_time, new_start_time, new_end_time, rescheduled_by)
+  SELECT a.id, a.start_time, a.end_time, m.start_time, m.end_time, actor
+  FROM appointments a
+  JOIN jsonb_to_recordset(moves) AS m(id UUID, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, professional_id UUID) ON m.id = a.id;
+
+  RETURN QUERY
+  UPDATE appointments a
+  SET start_time = m.start_time,
+      end_time = m.end_time,
+      professional_id = m.professional_id,
+      status = COALESCE(new_status, a.status),
+      rescheduled_at = NOW()
+  FROM jsonb_to_recordset(moves) AS m(id UUID, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, professional_id UUID)
+  WHERE a.id = m.id
+  RETURNING a.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Só o servidor (service role) remarca, depois de validar a disponibilidade
+REVOKE EXECUTE ON FUNCTION public.reschedule_appointments(JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- O Realtime envia a linha antiga completa, permitindo ao painel comparar status e horário
+ALTER TABLE appointments REPLICA IDENTITY FULL;
+
+-- 19. Política de cancelamento, remarcação e antecedência de reservas
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS cancel_notice_hours INTEGER DEFAULT 0 CHECK (cancel_notice_hours >= 0);
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS min_lead_minutes INTEGER DEFAULT 0 CHECK (min_lead_minutes >= 0);
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS booking_horizon_days INTEGER DEFAULT 7 CHECK (booking_horizon_days > 0);
+
+-- Clientes que cancelam direto pelo Supabase também respeitam o prazo (o servidor usa a service role)
+CREATE OR REPLACE FUNCTION public.enforce_cancel_notice()
+RETURNS trigger AS $$
+DECLARE
+  notice INTEGER;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'confirmed') AND auth.uid() = OLD.client_id THEN
+    SELECT cancel_notice_hours INTO notice FROM salons WHERE id = OLD.salon_id;
+    IF OLD.start_time > NOW() AND OLD.start_time - NOW() < COALESCE(notice, 0) * INTERVAL '1 hour' THEN
+      RAISE EXCEPTION 'O estabelecimento só aceita cancelamentos com % horas de antecedência.', notice;
+    END IF;
+    IF OLD.start_time <= NOW() AND OLD.status = 'confirmed' THEN
+      RAISE EXCEPTION 'Este horário já passou.';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_enforce_cancel_notice
+  BEFORE UPDATE OF status ON appointments
+  FOR EACH ROW EXECUTE PROCEDURE public.enforce_cancel_notice();
+
+-- 20. Lista de espera: ao cancelar um horário, o primeiro da fila recebe uma oferta com prazo para aceitar
+CREATE TABLE waitlist_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+  professional_id UUID REFERENCES professionals(id) ON DELETE SET NULL, -- NULL = qualquer profissional
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT CHECK (status IN ('waiting', 'offered', 'booked', 'declined', 'expired', 'cancelled')) DEFAULT 'waiting',
+  offered_start_time TIMESTAMP WITH TIME ZONE,
+  offered_professional_id UUID REFERENCES professionals(id) ON DELETE SET NULL,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (window_end > window_start)
+);
+
+CREATE INDEX waitlist_entries_queue_idx ON waitlist_entries (salon_id, service_id, status, created_at);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients can view own waitlist entries" ON waitlist_entries FOR SELECT USING (auth.uid() = client_id);
+CREATE POLICY "Clients can join the waitlist" ON waitlist_entries FOR INSERT WITH CHECK (auth.uid() = client_id AND status = 'waiting');
+CREATE POLICY "Clients can leave the waitlist" ON waitlist_entries FOR UPDATE USING (auth.uid() = client_id) WITH CHECK (status = 'cancelled');
+CREATE POLICY "Admins can manage their salon waitlist" ON waitlist_entries FOR ALL USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = waitlist_entries.salon_id AND salons.owner_id = auth.uid())
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE waitlist_entries;
+
+-- 21. Agendamentos recorrentes: cada ocorrência é um agendamento comum ligado à série
+CREATE TABLE appointment_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+  professional_id UUID REFERENCES professionals(id) ON DELETE SET NULL,
+  frequency TEXT CHECK (frequency IN ('weekly', 'biweekly', 'monthly')) NOT NULL,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL, -- primeira ocorrência
+  occurrences INTEGER CHECK (occurrences > 0),
+  until DATE,
+  status TEXT CHECK (status IN ('active', 'cancelled')) DEFAULT 'active',
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (occurrences IS NOT NULL OR until IS NOT NULL)
+);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS appointments_series_id_idx ON appointments (series_id, start_time);
+
+-- Séries são criadas, remarcadas e canceladas pelo servidor, que checa cada ocorrência
+ALTER TABLE appointment_series ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients can view own series" ON appointment_series FOR SELECT USING (auth.uid() = client_id);
+CREATE POLICY "Admins can view their salon series" ON appointment_series FOR SELECT USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = appointment_series.salon_id AND salons.owner_id = auth.uid())
+);
+
+-- 22. Ciclo de vida do agendamento: transições permitidas, "não compareceu" e histórico imutável
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'));
+
+CREATE TABLE appointment_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE,
+  event_type TEXT CHECK (event_type IN ('created', 'status_changed', 'rescheduled')) NOT NULL,
+  from_status TEXT,
+  to_status TEXT,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX appointment_events_appointment_idx ON appointment_events (appointment_id, created_at);
+
+-- Somente leitura para os usuários: as linhas são escritas pelos triggers abaixo
+ALTER TABLE appointment_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients and salon owners can view appointment events" ON appointment_events FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM appointments
+    JOIN salons ON salons.id = appointments.salon_id
+    WHERE appointments.id = appointment_events.appointment_id
+      AND (appointments.client_id = auth.uid() OR salons.owner_id = auth.uid())
+  )
+);
+REVOKE INSERT, UPDATE, DELETE ON appointment_events FROM anon, authenticated;
+
+-- Quem fez a alteração: o usuário logado ou, nas chamadas do servidor, o ator informado em app.actor
+CREATE OR REPLACE FUNCTION public.current_actor()
+RETURNS UUID AS $$
+  SELECT COALESCE(auth.uid(), NULLIF(current_setting('app.actor', true), '')::UUID);
+$$ LANGUAGE sql STABLE;
+
+-- Mesmas regras de src/lib/status.ts; remarcar devolve um confirmado para "pendente"
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled', 'no_show')) OR
+    (OLD.status = 'confirmed' AND NEW.status = 'pending' AND NEW.start_time IS DISTINCT FROM OLD.start_time)
+  ) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_enforce_status_transition
+  BEFORE UPDATE OF status ON appointments
+  FOR EACH ROW EXECUTE PROCEDURE public.enforce_status_transition();
+
+CREATE OR REPLACE FUNCTION public.log_appointment_event()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO appointment_events (appointment_id, event_type, to_status, actor_id)
+    VALUES (NEW.id, 'created', NEW.status, public.current_actor());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time THEN
+    INSERT INTO appointment_events (appointment_id, event_type, actor_id, data)
+    VALUES (NEW.id, 'rescheduled', public.current_actor(),
+      jsonb_build_object('previous_start_time', OLD.start_time, 'start_time', NEW.start_time));
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO appointment_events (appointment_id, event_type, from_status, to_status, actor_id)
+    VALUES (NEW.id, 'status_changed', OLD.status, NEW.status, public.current_actor());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER appointments_log_event
+  AFTER INSERT OR UPDATE OF status, start_time ON appointments
+  FOR EACH ROW EXECUTE PROCEDURE public.log_appointment_event();
+
+-- Alterações de status feitas pelo servidor registram quem pediu (NULL = automação do sistema)
+CREATE OR REPLACE FUNCTION public.set_appointment_status(ids UUID[], new_status TEXT, actor UUID)
+RETURNS SETOF appointments AS $$
+BEGIN
+  PERFORM set_config('app.actor', COALESCE(actor::TEXT, ''), true);
+  RETURN QUERY
+  UPDATE appointments SET status = new_status
+  WHERE id = ANY(ids) AND status IS DISTINCT FROM new_status
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.set_appointment_status(UUID[], TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- A remarcação também passa a informar o ator para o histórico
+CREATE OR REPLACE FUNCTION public.reschedule_appointments(moves JSONB, actor UUID, new_status TEXT DEFAULT NULL)
+RETURNS SETOF appointments AS $$
+BEGIN
+  SET CONSTRAINTS appointments_no_overlap DEFERRED;
+  PERFORM set_config('app.actor', COALESCE(actor::TEXT, ''), true);
+
+  INSERT INTO appointment_reschedules (appointment_id, previous_start_time, previous_end_time, new_start_time, new_end_time, rescheduled_by)
+  SELECT a.id, a.start_time, a.end_time, m.start_time, m.end_time, actor
+  FROM appointments a
+  JOIN jsonb_to_recordset(moves) AS m(id UUID, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, professional_id UUID) ON m.id = a.id;
+
+  RETURN QUERY
+  UPDATE appointments a
+  SET start_time = m.start_time,
+      end_time = m.end_time,
+      professional_id = m.professional_id,
+      status = COALESCE(new_status, a.status),
+      rescheduled_at = NOW()
+  FROM jsonb_to_recordset(moves) AS m(id UUID, start_time TIMESTAMPTZ, end_time TIMESTAMPTZ, professional_id UUID)
+  WHERE a.id = m.id
+  RETURNING a.*;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE appointment_events;
+
+-- 23. Faltas (no-show) e confiabilidade do cliente
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS no_show_limit INTEGER CHECK (no_show_limit >= 0); -- NULL = sem regra
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS no_show_action TEXT DEFAULT 'require_confirmation'
+  CHECK (no_show_action IN ('require_confirmation', 'require_prepayment', 'block'));
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS late_cancel_hours INTEGER DEFAULT 24 CHECK (late_cancel_hours >= 0);
+
+-- Marca agendamentos feitos por clientes acima do limite de faltas
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS reliability_flag TEXT
+  CHECK (reliability_flag IN ('require_confirmation', 'require_prepayment'));
+
+CREATE INDEX IF NOT EXISTS appointments_salon_client_status_idx ON appointments (salon_id, client_id, status);
+
+-- 24. Confirmação automática e expiração de pedidos pendentes (aplicadas pelo agendador do servidor)
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS auto_confirm TEXT DEFAULT 'off'
+  CHECK (auto_confirm IN ('off', 'always', 'returning'));
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS pending_expiry_hours INTEGER CHECK (pending_expiry_hours > 0); -- NULL = nunca expira
+
+CREATE INDEX IF NOT EXISTS appointments_pending_idx ON appointments (salon_id, created_at) WHERE status = 'pending';
+
+-- 25. Lembretes enviados pelo servidor: cada lembrete, por destinatário e canal, com seu estado de entrega
+CREATE TABLE reminder_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  recipient_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('day', '30min', 'urgent', 'expired')),
+  dedupe_key TEXT NOT NULL, -- lembretes urgentes se repetem com uma chave por intervalo
+  channel TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (appointment_id, recipient_id, channel, dedupe_key)
+);
+
+CREATE INDEX reminder_deliveries_queued_idx ON reminder_deliveries (created_at) WHERE status = 'queued';
+
+-- Só o servidor (service role) grava; cada usuário lê os próprios lembretes
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own reminders" ON reminder_deliveries FOR SELECT USING (auth.uid() = recipient_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE reminder_deliveries;
+
+-- 26. Web Push: dispositivos inscritos para receber notificações com o app fechado
+CREATE TABLE push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX push_subscriptions_user_idx ON push_subscriptions (user_id);
+
+-- Gravadas pelo servidor (POST /api/push/subscriptions); cada usuário vê e remove as próprias
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own push subscriptions" ON push_subscriptions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can remove own push subscriptions" ON push_subscriptions FOR DELETE USING (auth.uid() = user_id);
+
+-- Confirmações e cancelamentos também viram entregas, além dos lembretes
+ALTER TABLE reminder_deliveries DROP CONSTRAINT IF EXISTS reminder_deliveries_kind_check;
+ALTER TABLE reminder_deliveries ADD CONSTRAINT reminder_deliveries_kind_check
+  CHECK (kind IN ('day', '30min', 'urgent', 'expired', 'confirmed', 'cancelled'));
+
+-- 27. E-mails transacionais: novos tipos de entrega e o público de cada uma (cliente ou salão)
+ALTER TABLE reminder_deliveries ADD COLUMN IF NOT EXISTS audience TEXT NOT NULL DEFAULT 'client'
+  CHECK (audience IN ('client', 'salon'));
+ALTER TABLE reminder_deliveries DROP CONSTRAINT IF EXISTS reminder_deliveries_kind_check;
+ALTER TABLE reminder_deliveries ADD CONSTRAINT reminder_deliveries_kind_check
+  CHECK (kind IN ('day', '30min', 'urgent', 'expired', 'received', 'confirmed', 'cancelled', 'review_request'));
+
+-- 28. WhatsApp/SMS: o cliente escolhe o canal no perfil; o consentimento fica registrado com data
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS message_channel TEXT CHECK (message_channel IN ('whatsapp', 'sms')); -- NULL = não receber
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS message_opt_in_at TIMESTAMP WITH TIME ZONE;
+
+-- 'skipped': a entrega nunca poderá sair (ex.: o cliente desativou o canal) e não é repetida
+ALTER TABLE reminder_deliveries DROP CONSTRAINT IF EXISTS reminder_deliveries_status_check;
+ALTER TABLE reminder_deliveries ADD CONSTRAINT reminder_deliveries_status_check
+  CHECK (status IN ('queued', 'sent', 'failed', 'skipped'));
+
+-- O telefone fica fora de profiles, que é visível para todos
+CREATE TABLE profile_contacts (
+  profile_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  phone TEXT NOT NULL CHECK (phone ~ '^\+[0-9]{10,15}$'), -- E.164
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE profile_contacts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage own contact" ON profile_contacts FOR ALL USING (auth.uid() = profile_id) WITH CHECK (auth.uid() = profile_id);
+CREATE POLICY "Admins can view their clients contacts" ON profile_contacts FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM appointments
+    JOIN salons ON salons.id = appointments.salon_id
+    WHERE appointments.client_id = profile_contacts.profile_id AND salons.owner_id = auth.uid()
+  )
+);
+
+-- 29. Caixa de notificações do app: escrita pelo canal in-app do servidor, sincronizada em tempo real
+CREATE TABLE notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'info' CHECK (type IN ('info', 'success', 'warning')),
+  kind TEXT, -- tipo da entrega que gerou a notificação (lembrete, confirmação...)
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE,
+  delivery_id UUID REFERENCES reminder_deliveries(id) ON DELETE SET NULL UNIQUE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX notifications_inbox_idx ON notifications (user_id, created_at DESC) WHERE archived_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own notifications" ON notifications FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update own notifications" ON notifications FOR UPDATE USING (auth.uid() = user_id);
+
+-- O usuário só marca como lida ou arquiva; o conteúdo é do servidor
+REVOKE INSERT, UPDATE, DELETE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at, archived_at) ON notifications TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- 30. Pagamento antecipado (integral ou sinal) no agendamento, via Stripe Checkout
+ALTER TABLE services ADD COLUMN IF NOT EXISTS prepayment_type TEXT NOT NULL DEFAULT 'none'
+  CHECK (prepayment_type IN ('none', 'full', 'deposit'));
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deposit_percent INTEGER CHECK (deposit_percent BETWEEN 1 AND 100);
+
+-- NULL = pagamento no local; 'awaiting' segura o horário como pendente até o pagamento
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS prepayment_status TEXT
+  CHECK (prepayment_status IN ('awaiting', 'paid'));
+
+CREATE TABLE payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE NOT NULL, -- primeiro serviço da visita
+  group_id UUID,
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE NOT NULL,
+  client_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'brl',
+  kind TEXT NOT NULL CHECK (kind IN ('full', 'deposit')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'expired')),
+  provider TEXT NOT NULL,
+  provider_session_id TEXT UNIQUE,
+  provider_payment_id TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX payments_appointment_idx ON payments (appointment_id, status);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients can view own payments" ON payments FOR SELECT USING (auth.uid() = client_id);
+CREATE POLICY "Admins can view salon payments" ON payments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = payments.salon_id AND salons.owner_id = auth.uid())
+);
+REVOKE INSERT, UPDATE, DELETE ON payments FROM anon, authenticated;
+
+-- Só o servidor (webhook do provedor) marca um agendamento como pago
+CREATE OR REPLACE FUNCTION public.protect_prepayment_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.prepayment_status IS DISTINCT FROM OLD.prepayment_status AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'O status do pagamento só pode ser alterado pelo servidor'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_protect_prepayment_status
+  BEFORE UPDATE OF prepayment_status ON appointments
+  FOR EACH ROW EXECUTE PROCEDURE public.protect_prepayment_status();
+
+-- O cliente cancela só pelo servidor (POST /api/appointments/:id/cancel): uma política de UPDATE limitaria
+-- o status final, mas deixaria o mesmo UPDATE mudar horário, profissional ou observações
+DROP POLICY IF EXISTS "Clients can cancel own appointments" ON appointments;
+
+-- Um horário aguardando pagamento só é confirmado pelo servidor (pagamento recebido) ou pelo dono do salão
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled', 'no_show')) OR
+    (OLD.status = 'confirmed' AND NEW.status = 'pending' AND NEW.start_time IS DISTINCT FROM OLD.start_time)
+  ) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF OLD.status = 'pending' AND NEW.status = 'confirmed' AND NEW.prepayment_status = 'awaiting'
+    AND auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT EXISTS (SELECT 1 FROM salons WHERE salons.id = NEW.salon_id AND salons.owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Este agendamento aguarda o pagamento antecipado'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 31. Assinatura dos salões na plataforma: planos, teste grátis e inadimplência (espelho do Stripe)
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS billing_suspended_at TIMESTAMP WITH TIME ZONE; -- desativado por falta de pagamento
+
+-- O papel é escolhido só no cadastro (cliente ou salão); "Users can update own profile" não pode promover ninguém.
+-- Super admins são definidos pelo SQL Editor, que não tem usuário logado
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'O papel do usuário só pode ser alterado pela plataforma'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER profiles_protect_role
+  BEFORE UPDATE OF role ON profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.protect_profile_role();
+
+-- O cadastro também não aceita 'super_admin' vindo dos metadados do usuário
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, role)
+  VALUES (
+    new.id,
+    new.email,
+    new.raw_user_meta_data->>'full_name',
+    CASE WHEN new.raw_user_meta_data->>'role' = 'admin' THEN 'admin' ELSE 'client' END
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'client', 'super_admin'));
+
+CREATE TABLE salon_subscriptions (
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE PRIMARY KEY,
+  plan TEXT CHECK (plan IN ('essencial', 'profissional')), -- NULL enquanto está no teste sem plano escolhido
+  status TEXT NOT NULL DEFAULT 'trialing'
+    CHECK (status IN ('trialing', 'active', 'past_due', 'unpaid', 'canceled', 'incomplete')),
+  trial_ends_at TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  past_due_since TIMESTAMP WITH TIME ZONE, -- início da carência
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  stripe_customer_id TEXT UNIQUE,
+  stripe_subscription_id TEXT UNIQUE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE salon_subscriptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins can view own subscription" ON salon_subscriptions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = salon_subscriptions.salon_id AND salons.owner_id = auth.uid())
+);
+CREATE POLICY "Super admins can view subscriptions" ON salon_subscriptions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'super_admin')
+);
+REVOKE INSERT, UPDATE, DELETE ON salon_subscriptions FROM anon, authenticated;
+
+-- Todo salão novo começa no teste grátis de 14 dias (mesmo valor de src/lib/billing.ts)
+CREATE OR REPLACE FUNCTION public.start_salon_trial()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO salon_subscriptions (salon_id, status, trial_ends_at)
+  VALUES (NEW.id, 'trialing', NOW() + INTERVAL '14 days')
+  ON CONFLICT (salon_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER salons_start_trial
+  AFTER INSERT ON salons
+  FOR EACH ROW EXECUTE PROCEDURE public.start_salon_trial();
+
+INSERT INTO salon_subscriptions (salon_id, status, trial_ends_at)
+SELECT id, 'trialing', NOW() + INTERVAL '14 days' FROM salons
+ON CONFLICT (salon_id) DO NOTHING;
+
+-- Eventos de webhook já processados, para ignorar reenvios do Stripe
+CREATE TABLE billing_events (
+  id TEXT PRIMARY KEY, -- id do evento no Stripe
+  type TEXT NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE billing_events ENABLE ROW LEVEL SECURITY;
+
+-- Ativar ou desativar um salão é decisão do servidor (cobrança ou administração da plataforma)
+CREATE OR REPLACE FUNCTION public.protect_salon_activation()
+RETURNS trigger AS $$
+BEGIN
+  IF (NEW.is_active IS DISTINCT FROM OLD.is_active OR NEW.billing_suspended_at IS DISTINCT FROM OLD.billing_suspended_at)
+    AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'A ativação do salão só pode ser alterada pela plataforma'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER salons_protect_activation
+  BEFORE UPDATE OF is_active, billing_suspended_at ON salons
+  FOR EACH ROW EXECUTE PROCEDURE public.protect_salon_activation();
+
+-- 32. Reembolsos e taxa de cancelamento de pagamentos antecipados (aplicados pelo servidor)
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS late_cancel_policy TEXT NOT NULL DEFAULT 'refund'
+  CHECK (late_cancel_policy IN ('refund', 'fee', 'forfeit'));
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS cancellation_fee_percent INTEGER NOT NULL DEFAULT 0
+  CHECK (cancellation_fee_percent BETWEEN 0 AND 100);
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('pending', 'succeeded', 'failed', 'expired', 'refunded', 'partially_refunded'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS retained_amount NUMERIC(10,2) NOT NULL DEFAULT 0; -- taxa ou sinal retido
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_prepayment_status_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_prepayment_status_check
+  CHECK (prepayment_status IN ('awaiting', 'paid', 'refunded', 'partially_refunded', 'forfeited'));
+
+-- Movimentações de um pagamento após o cancelamento; a chave de idempotência impede reembolsar duas vezes
+CREATE TABLE payment_ledger (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('refund', 'cancellation_fee', 'forfeit')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  provider_refund_id TEXT,
+  idempotency_key TEXT UNIQUE NOT NULL,
+  reason TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX payment_ledger_payment_idx ON payment_ledger (payment_id);
+CREATE INDEX payment_ledger_open_idx ON payment_ledger (status) WHERE status <> 'succeeded';
+
+ALTER TABLE payment_ledger ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Clients can view own payment ledger" ON payment_ledger FOR SELECT USING (
+  EXISTS (SELECT 1 FROM payments WHERE payments.id = payment_ledger.payment_id AND payments.client_id = auth.uid())
+);
+CREATE POLICY "Admins can view salon payment ledger" ON payment_ledger FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM payments JOIN salons ON salons.id = payments.salon_id
+    WHERE payments.id = payment_ledger.payment_id AND salons.owner_id = auth.uid()
+  )
+);
+REVOKE INSERT, UPDATE, DELETE ON payment_ledger FROM anon, authenticated;
+
+-- 33. Caixa (PDV): o que foi cobrado de fato em cada visita concluída (itens, desconto, gorjeta e formas de pagamento)
+CREATE TABLE sales (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  salon_id UUID REFERENCES salons(id) ON DELETE CASCADE NOT NULL,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL UNIQUE, -- primeiro serviço da visita
+  group_id UUID,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  subtotal NUMERIC(10,2) NOT NULL CHECK (subtotal >= 0),
+  discount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  tip NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (tip >= 0),
+  total NUMERIC(10,2) NOT NULL CHECK (total >= 0),
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX sales_salon_created_idx ON sales (salon_id, created_at);
+
+CREATE TABLE sale_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sale_id UUID REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('service', 'product')),
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(10,2) NOT NULL CHECK (unit_price >= 0),
+  total NUMERIC(10,2) NOT NULL CHECK (total >= 0)
+);
+
+CREATE TABLE sale_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  sale_id UUID REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('pix', 'cash', 'card', 'online')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0)
+);
+
+CREATE INDEX sale_items_sale_idx ON sale_items (sale_id);
+CREATE INDEX sale_payments_sale_idx ON sale_payments (sale_id);
+
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_payments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins can view salon sales" ON sales FOR SELECT USING (
+  EXISTS (SELECT 1 FROM salons WHERE salons.id = sales.salon_id AND salons.owner_id = auth.uid())
+);
+CREATE POLICY "Admins can view salon sale items" ON sale_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM sales JOIN salons ON salons.id = sales.salon_id
+    WHERE sales.id = sale_items.sale_id AND salons.owner_id = auth.uid()
+  )
+);
+CREATE POLICY "Admins can view salon sale payments" ON sale_payments FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM sales JOIN salons ON salons.id = sales.salon_id
+    WHERE sales.id = sale_payments.sale_id AND salons.owner_id = auth.uid()
+  )
+);
+CREATE POLICY "Super admins can view sales" ON sales FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'super_admin')
+);
+REVOKE INSERT, UPDATE, DELETE ON sales, sale_items, sale_payments FROM anon, authenticated;
+
+-- 34. Pagamento por PIX: QR Code (BR Code) gerado a partir da chave do salão
+ALTER TABLE salons ADD COLUMN IF NOT EXISTS pix_key TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS pix_payload TEXT; -- PIX copia e cola da cobrança
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS confirmed_by UUID REFERENCES profiles(id) ON DELETE SET NULL; -- confirmado manualmente pelo salão
+
+-- Devoluções de PIX são feitas pelo salão no app do banco: ficam 'manual' até o dono confirmar
+ALTER TABLE payment_ledger DROP CONSTRAINT IF EXISTS payment_ledger_status_check;
+ALTER TABLE payment_ledger ADD CONSTRAINT payment_ledger_status_check
+  CHECK (status IN ('pending', 'succeeded', 'failed', 'manual'));
+ALTER TABLE payment_ledger ADD COLUMN IF NOT EXISTS completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
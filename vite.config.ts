@@ -13,6 +13,9 @@ export default defineConfig(({mode}) => {
       VitePWA({
         registerType: 'autoUpdate',
         includeAssets: ['logo.svg'],
+        workbox: {
+          importScripts: ['push-sw.js'], // Web Push handlers
+        },
         manifest: {
           name: 'Salão & Estilo',
           short_name: 'Salão',